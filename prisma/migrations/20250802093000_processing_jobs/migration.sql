@@ -0,0 +1,38 @@
+-- CreateEnum
+CREATE TYPE "JobStatus" AS ENUM ('QUEUED', 'ANALYZING', 'NORMALIZING', 'DONE', 'FAILED');
+
+-- CreateTable
+CREATE TABLE "ProcessingJob" (
+    "id" TEXT NOT NULL,
+    "status" "JobStatus" NOT NULL DEFAULT 'QUEUED',
+    "versionType" "VersionType" NOT NULL,
+    "originalName" TEXT NOT NULL,
+    "inputPath" TEXT NOT NULL,
+    "fileSize" INTEGER NOT NULL,
+    "error" TEXT,
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "startedAt" TIMESTAMP(3),
+    "completedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "trackId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "audioVersionId" TEXT,
+
+    CONSTRAINT "ProcessingJob_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ProcessingJob_audioVersionId_key" ON "ProcessingJob"("audioVersionId");
+
+-- CreateIndex
+CREATE INDEX "ProcessingJob_status_createdAt_idx" ON "ProcessingJob"("status", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "ProcessingJob" ADD CONSTRAINT "ProcessingJob_trackId_fkey" FOREIGN KEY ("trackId") REFERENCES "Track"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ProcessingJob" ADD CONSTRAINT "ProcessingJob_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ProcessingJob" ADD CONSTRAINT "ProcessingJob_audioVersionId_fkey" FOREIGN KEY ("audioVersionId") REFERENCES "AudioVersion"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- CreateEnum
+CREATE TYPE "NormalizationMode" AS ENUM ('LINEAR', 'DYNAMIC');
+
+-- AlterTable
+ALTER TABLE "AudioVersion" ADD COLUMN     "normalizationMode" "NormalizationMode";
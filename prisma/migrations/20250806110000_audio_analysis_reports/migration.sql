@@ -0,0 +1,27 @@
+-- CreateEnum
+CREATE TYPE "AnalysisStage" AS ENUM ('ORIGINAL', 'NORMALIZED');
+
+-- CreateTable
+CREATE TABLE "AudioAnalysisReport" (
+    "id" TEXT NOT NULL,
+    "stage" "AnalysisStage" NOT NULL,
+    "duration" DOUBLE PRECISION NOT NULL,
+    "sampleRate" INTEGER NOT NULL,
+    "bitDepth" INTEGER NOT NULL,
+    "channels" INTEGER NOT NULL,
+    "codec" TEXT NOT NULL,
+    "integratedLufs" DOUBLE PRECISION NOT NULL,
+    "peakLevel" DOUBLE PRECISION NOT NULL,
+    "truePeak" DOUBLE PRECISION NOT NULL,
+    "dynamicRange" DOUBLE PRECISION NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "audioVersionId" TEXT NOT NULL,
+
+    CONSTRAINT "AudioAnalysisReport_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "AudioAnalysisReport_audioVersionId_stage_key" ON "AudioAnalysisReport"("audioVersionId", "stage");
+
+-- AddForeignKey
+ALTER TABLE "AudioAnalysisReport" ADD CONSTRAINT "AudioAnalysisReport_audioVersionId_fkey" FOREIGN KEY ("audioVersionId") REFERENCES "AudioVersion"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,23 @@
+-- DropForeignKey
+ALTER TABLE "Approval" DROP CONSTRAINT "Approval_commentId_fkey";
+
+-- AlterTable
+ALTER TABLE "Approval" ADD COLUMN     "audioVersionId" TEXT,
+ADD COLUMN     "trackId" TEXT,
+ADD COLUMN     "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+ALTER COLUMN "commentId" DROP NOT NULL;
+
+-- CreateIndex
+CREATE INDEX "Approval_trackId_idx" ON "Approval"("trackId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Approval_audioVersionId_userId_key" ON "Approval"("audioVersionId", "userId");
+
+-- AddForeignKey
+ALTER TABLE "Approval" ADD CONSTRAINT "Approval_commentId_fkey" FOREIGN KEY ("commentId") REFERENCES "Comment"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Approval" ADD CONSTRAINT "Approval_trackId_fkey" FOREIGN KEY ("trackId") REFERENCES "Track"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Approval" ADD CONSTRAINT "Approval_audioVersionId_fkey" FOREIGN KEY ("audioVersionId") REFERENCES "AudioVersion"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,27 @@
+-- AlterTable
+ALTER TABLE "AudioVersion" ADD COLUMN     "finalizedAt" TIMESTAMP(3),
+ADD COLUMN     "finalizedById" TEXT,
+ADD COLUMN     "isFinal" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateTable
+CREATE TABLE "FinalVersionUnlock" (
+    "id" TEXT NOT NULL,
+    "reason" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "audioVersionId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+
+    CONSTRAINT "FinalVersionUnlock_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "FinalVersionUnlock_audioVersionId_idx" ON "FinalVersionUnlock"("audioVersionId");
+
+-- AddForeignKey
+ALTER TABLE "AudioVersion" ADD CONSTRAINT "AudioVersion_finalizedById_fkey" FOREIGN KEY ("finalizedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "FinalVersionUnlock" ADD CONSTRAINT "FinalVersionUnlock_audioVersionId_fkey" FOREIGN KEY ("audioVersionId") REFERENCES "AudioVersion"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "FinalVersionUnlock" ADD CONSTRAINT "FinalVersionUnlock_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
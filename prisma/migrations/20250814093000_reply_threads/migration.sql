@@ -0,0 +1,22 @@
+-- DropForeignKey
+ALTER TABLE "CommentReply" DROP CONSTRAINT "CommentReply_commentId_fkey";
+
+-- AlterTable
+ALTER TABLE "CommentReply" ADD COLUMN     "parentReplyId" TEXT,
+ADD COLUMN     "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+ADD COLUMN     "deletedAt" TIMESTAMP(3);
+
+-- Existing replies were never edited
+UPDATE "CommentReply" SET "updatedAt" = "createdAt";
+
+-- CreateIndex
+CREATE INDEX "CommentReply_commentId_idx" ON "CommentReply"("commentId");
+
+-- AddForeignKey
+ALTER TABLE "CommentReply" ADD CONSTRAINT "CommentReply_commentId_fkey" FOREIGN KEY ("commentId") REFERENCES "Comment"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CommentReply" ADD CONSTRAINT "CommentReply_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CommentReply" ADD CONSTRAINT "CommentReply_parentReplyId_fkey" FOREIGN KEY ("parentReplyId") REFERENCES "CommentReply"("id") ON DELETE SET NULL ON UPDATE CASCADE;
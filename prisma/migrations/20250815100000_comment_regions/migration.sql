@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "Comment" ADD COLUMN     "endMs" INTEGER;
@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE "Comment" ADD COLUMN     "carriedFromId" TEXT;
+
+-- AlterTable
+ALTER TABLE "ProcessingJob" ADD COLUMN     "carryComments" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateIndex
+CREATE INDEX "Comment_carriedFromId_idx" ON "Comment"("carriedFromId");
+
+-- AddForeignKey
+ALTER TABLE "Comment" ADD CONSTRAINT "Comment_carriedFromId_fkey" FOREIGN KEY ("carriedFromId") REFERENCES "Comment"("id") ON DELETE SET NULL ON UPDATE CASCADE;
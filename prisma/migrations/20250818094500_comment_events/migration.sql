@@ -0,0 +1,29 @@
+-- CreateEnum
+CREATE TYPE "CommentEventType" AS ENUM ('CONTENT_EDITED', 'STATUS_CHANGED', 'DELETED');
+
+-- AlterTable
+ALTER TABLE "Comment" ADD COLUMN     "deletedAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "CommentEvent" (
+    "id" TEXT NOT NULL,
+    "type" "CommentEventType" NOT NULL,
+    "fromStatus" "CommentStatus",
+    "toStatus" "CommentStatus",
+    "previousContent" TEXT,
+    "newContent" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "commentId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+
+    CONSTRAINT "CommentEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "CommentEvent_commentId_createdAt_idx" ON "CommentEvent"("commentId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "CommentEvent" ADD CONSTRAINT "CommentEvent_commentId_fkey" FOREIGN KEY ("commentId") REFERENCES "Comment"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CommentEvent" ADD CONSTRAINT "CommentEvent_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,8 @@
+-- CreateEnum
+CREATE TYPE "EmailPreference" AS ENUM ('IMMEDIATE', 'DAILY', 'OFF');
+
+-- AlterTable
+ALTER TABLE "Notification" ADD COLUMN     "emailedAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "emailPreference" "EmailPreference" NOT NULL DEFAULT 'IMMEDIATE';
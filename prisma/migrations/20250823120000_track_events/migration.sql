@@ -0,0 +1,19 @@
+-- CreateEnum
+CREATE TYPE "TrackEventType" AS ENUM ('COMMENT_CREATED', 'COMMENT_UPDATED', 'COMMENT_DELETED', 'REPLY_ADDED', 'VERSION_UPLOADED', 'VERSION_ACTIVATED', 'VERSION_UPDATED');
+
+-- CreateTable
+CREATE TABLE "TrackEvent" (
+    "id" SERIAL NOT NULL,
+    "type" "TrackEventType" NOT NULL,
+    "payload" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "trackId" TEXT NOT NULL,
+
+    CONSTRAINT "TrackEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "TrackEvent_trackId_id_idx" ON "TrackEvent"("trackId", "id");
+
+-- AddForeignKey
+ALTER TABLE "TrackEvent" ADD CONSTRAINT "TrackEvent_trackId_fkey" FOREIGN KEY ("trackId") REFERENCES "Track"("id") ON DELETE CASCADE ON UPDATE CASCADE;
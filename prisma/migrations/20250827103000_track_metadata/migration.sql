@@ -0,0 +1,15 @@
+-- AlterTable
+ALTER TABLE "Track" ADD COLUMN     "explicit" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "isrc" TEXT,
+ADD COLUMN     "producers" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN     "writers" TEXT[] DEFAULT ARRAY[]::TEXT[];
+
+-- Fill in durations from the active stereo version's analysis
+UPDATE "Track" t
+SET "duration" = ROUND(r."duration")::INTEGER
+FROM "AudioVersion" v
+JOIN "AudioAnalysisReport" r ON r."audioVersionId" = v."id" AND r."stage" = 'ORIGINAL'
+WHERE v."trackId" = t."id"
+  AND v."versionType" = 'STEREO'
+  AND v."isActive" = true
+  AND v."deletedAt" IS NULL;
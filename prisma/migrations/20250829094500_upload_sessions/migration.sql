@@ -0,0 +1,39 @@
+-- AlterTable
+ALTER TABLE "AudioVersion" ALTER COLUMN "fileSize" SET DATA TYPE BIGINT;
+
+-- AlterTable
+ALTER TABLE "ProcessingJob" ALTER COLUMN "fileSize" SET DATA TYPE BIGINT;
+
+-- CreateTable
+CREATE TABLE "UploadSession" (
+    "id" TEXT NOT NULL,
+    "versionType" "VersionType" NOT NULL,
+    "originalName" TEXT NOT NULL,
+    "fileSize" BIGINT NOT NULL,
+    "chunkSize" INTEGER NOT NULL,
+    "carryComments" BOOLEAN NOT NULL DEFAULT false,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "completedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "trackId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "jobId" TEXT,
+
+    CONSTRAINT "UploadSession_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "UploadSession_jobId_key" ON "UploadSession"("jobId");
+
+-- CreateIndex
+CREATE INDEX "UploadSession_expiresAt_idx" ON "UploadSession"("expiresAt");
+
+-- AddForeignKey
+ALTER TABLE "UploadSession" ADD CONSTRAINT "UploadSession_trackId_fkey" FOREIGN KEY ("trackId") REFERENCES "Track"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "UploadSession" ADD CONSTRAINT "UploadSession_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "UploadSession" ADD CONSTRAINT "UploadSession_jobId_fkey" FOREIGN KEY ("jobId") REFERENCES "ProcessingJob"("id") ON DELETE SET NULL ON UPDATE CASCADE;
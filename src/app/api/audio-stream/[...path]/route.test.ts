@@ -0,0 +1,105 @@
+import assert from 'node:assert/strict'
+import { promises as fs } from 'node:fs'
+import os from 'node:os'
+import path from 'node:path'
+import { after, before, describe, test } from 'node:test'
+import { NextRequest } from 'next/server'
+import { signStreamUrl } from '@/lib/streamUrls'
+
+type Handler = (req: NextRequest) => Promise<Response>
+
+// Storage keys the fake database has an AudioVersion for
+const versionKeys = new Set(['projects/p1/mix.wav', 'projects/p1/escape.wav'])
+
+const fakePrisma = {
+  audioVersion: {
+    findFirst: async ({ where }: { where: { filePath: { in: string[] } } }) => {
+      const key = where.filePath.in[0].replace(/^\/uploads\//, '')
+      return versionKeys.has(key) ? { id: `version:${key}` } : null
+    }
+  }
+}
+
+const request = (pathname: string) => new NextRequest(new URL(pathname, 'http://localhost'))
+
+describe('/api/audio-stream/[...path]', () => {
+  let dir: string
+  let GET: Handler
+  let HEAD: Handler
+
+  before(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'audio-stream-test-'))
+    const root = path.join(dir, 'uploads')
+    await fs.mkdir(path.join(root, 'projects', 'p1'), { recursive: true })
+    await fs.writeFile(path.join(root, 'projects', 'p1', 'mix.wav'), 'RIFF....WAVE')
+    await fs.writeFile(path.join(dir, 'secret.txt'), 'secret')
+    await fs.symlink(path.join(dir, 'secret.txt'), path.join(root, 'projects', 'p1', 'escape.wav'))
+
+    // The route picks both up from globalThis on first use
+    process.env.STORAGE_ROOT = root
+    ;(globalThis as unknown as { prisma: unknown }).prisma = fakePrisma
+    ;({ GET, HEAD } = await import('./route'))
+  })
+
+  after(async () => {
+    await fs.rm(dir, { recursive: true, force: true })
+  })
+
+  test('rejects encoded traversal with 400', async () => {
+    for (const pathname of [
+      '/api/audio-stream/%2e%2e%2fsecret.txt',
+      '/api/audio-stream/projects/..%2F..%2F..%2Fsecret.txt',
+      '/api/audio-stream/projects%2f%2e%2e%2f%2e%2e%2fsecret.txt'
+    ]) {
+      const response = await GET(request(pathname))
+      assert.equal(response.status, 400, pathname)
+    }
+  })
+
+  test('rejects absolute paths with 400', async () => {
+    for (const pathname of [
+      '/api/audio-stream/%2Fetc%2Fpasswd',
+      '/api/audio-stream/C:%5CWindows%5Cwin.ini',
+      '/api/audio-stream/C%3A%2FWindows%2Fwin.ini'
+    ]) {
+      const response = await GET(request(pathname))
+      assert.equal(response.status, 400, pathname)
+    }
+  })
+
+  test('rejects malformed encodings and NUL with 400', async () => {
+    assert.equal((await GET(request('/api/audio-stream/projects/%E0%A4%A'))).status, 400)
+    assert.equal((await GET(request('/api/audio-stream/projects/p1/mix.wav%00.txt'))).status, 400)
+  })
+
+  // The URL parser resolves '%2e%2e' segments before the route sees them
+  test('rejects dot segments that leave the route with 400', async () => {
+    const response = await GET(request('/api/audio-stream/%2e%2e/%2e%2e/etc/passwd'))
+    assert.equal(response.status, 400)
+  })
+
+  test('answers 404 for keys without an audio version', async () => {
+    assert.equal((await GET(request('/api/audio-stream/projects/p1/missing.wav'))).status, 404)
+    // Decoded once, so this is a literal file name inside the root
+    assert.equal((await GET(request('/api/audio-stream/%252e%252e%252fsecret.txt'))).status, 404)
+  })
+
+  test('answers 404 for a symlink that points outside the storage root', async () => {
+    const response = await GET(request(signStreamUrl('projects/p1/escape.wav')))
+    assert.equal(response.status, 404)
+  })
+
+  test('requires a session or signature for known keys', async () => {
+    assert.equal((await GET(request('/api/audio-stream/projects/p1/mix.wav'))).status, 401)
+  })
+
+  test('streams files inside the root with a valid signature', async () => {
+    const head = await HEAD(request(signStreamUrl('projects/p1/mix.wav')))
+    assert.equal(head.status, 200)
+    assert.equal(head.headers.get('Content-Length'), '12')
+
+    const response = await GET(request(signStreamUrl('projects/p1/mix.wav')))
+    assert.equal(response.status, 200)
+    assert.equal(await response.text(), 'RIFF....WAVE')
+  })
+})
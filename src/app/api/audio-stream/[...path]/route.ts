@@ -1,132 +1,141 @@
 // src/app/api/audio-stream/[...path]/route.ts
 
 import { NextRequest, NextResponse } from 'next/server';
-import path from 'path';
-import { promises as fs } from 'fs';
-
-// Define the base directory where your audio files are stored.
-// This path is now explicitly set based on your provided absolute path.
-// It should point to the 'uploads' directory within your project.
-const AUDIO_FILES_BASE_DIR = '/Users/joshsawyer/Documents/GitHub/JWX-Studio-Platform/uploads';
-
-export async function OPTIONS() {
-  return new NextResponse(null, {
-    status: 200,
-    headers: {
-      'Access-Control-Allow-Origin': '*',
-      'Access-Control-Allow-Methods': 'GET, HEAD, OPTIONS',
-      'Access-Control-Allow-Headers': 'Range, Content-Range',
-    },
-  });
+import { Readable } from 'stream';
+import { prisma } from '@/lib/db';
+import { getAuthUser } from '@/lib/middleware';
+import { can, projectAccessSelect } from '@/lib/policy';
+import { getStorage, contentTypeForKey, filePathFromStorageKey, isSafeStorageKey } from '@/lib/storage';
+import { verifyStreamSignature } from '@/lib/streamUrls';
+import { liveVersionWhere } from '@/lib/trash';
+import {
+  parseRangeHeader,
+  getFileValidators,
+  isNotModified,
+  isRangeStillValid,
+} from '@/lib/httpRange';
+
+export async function GET(req: NextRequest) {
+  return serveAudioFile(req, true);
 }
 
-export async function GET(
-  req: NextRequest,
-  // Keep params in the signature for type inference, but we'll try to get path differently
-  {}: { params: Promise<{ path: string[] }> }
-) {
+export async function HEAD(req: NextRequest) {
+  return serveAudioFile(req, false);
+}
+
+async function serveAudioFile(req: NextRequest, includeBody: boolean) {
   try {
-    // Attempt to get the path segments directly from req.nextUrl.pathname
-    // This bypasses the 'params' object which seems to be causing issues.
     // The pathname will be something like '/api/audio-stream/projects/id/file.wav'
     const fullApiPath = req.nextUrl.pathname;
-    
+
     // Extract the part after '/api/audio-stream/'
     const apiPrefix = '/api/audio-stream/';
-    let relativeFilePath: string;
-
-    if (fullApiPath.startsWith(apiPrefix)) {
-      relativeFilePath = fullApiPath.substring(apiPrefix.length);
-    } else {
+    if (!fullApiPath.startsWith(apiPrefix)) {
       console.error('API: Pathname does not start with expected prefix:', fullApiPath);
       return new NextResponse('Invalid API path structure.', { status: 400 });
     }
 
-    // Decode URI components in case there are special characters in filenames
-    relativeFilePath = decodeURIComponent(relativeFilePath);
-
-    // Log the relative path derived from pathname
-    console.log('API (from pathname): Derived relativeFilePath:', relativeFilePath);
+    // Decode URI components in case there are special characters in filenames.
+    // The remainder is the storage key, e.g. 'projects/id/artist/track/file.wav'
+    let storageKey: string;
+    try {
+      storageKey = decodeURIComponent(fullApiPath.substring(apiPrefix.length));
+    } catch {
+      return new NextResponse('Invalid audio path.', { status: 400 });
+    }
 
-    // Construct the full absolute path to the audio file
-    const absoluteFilePath = path.join(AUDIO_FILES_BASE_DIR, relativeFilePath);
+    // Reject encoded traversal ('..%2F'), absolute paths and other keys that
+    // could resolve outside the storage root
+    if (!isSafeStorageKey(storageKey)) {
+      return new NextResponse('Invalid audio path.', { status: 400 });
+    }
 
-    // Log the full absolute path the API is trying to access
-    console.log('API: Attempting to access absoluteFilePath:', absoluteFilePath);
-    console.log('API: AUDIO_FILES_BASE_DIR:', AUDIO_FILES_BASE_DIR);
-    console.log('API: Full request URL:', req.nextUrl.href);
+    // Only files that belong to an AudioVersion can be streamed
+    const audioVersion = await prisma.audioVersion.findFirst({
+      where: {
+        filePath: { in: [filePathFromStorageKey(storageKey), `uploads/${storageKey}`] },
+        ...liveVersionWhere
+      },
+      select: { id: true }
+    });
 
-    // Check if the file exists
-    try {
-      await fs.access(absoluteFilePath);
-    } catch (error) {
-      console.error(`API: File not found at ${absoluteFilePath}. Error:`, error);
+    if (!audioVersion) {
       return new NextResponse('Audio file not found.', { status: 404 });
     }
 
-    // Get file stats for size
-    const stats = await fs.stat(absoluteFilePath);
-    const fileSize = stats.size;
-
-    // Handle range requests for streaming
-    const range = req.headers.get('range');
-    let start = 0;
-    let end = fileSize - 1;
-    let partialContent = false;
-
-    if (range) {
-      const parts = range.replace(/bytes=/, "").split("-");
-      start = parseInt(parts[0], 10);
-      end = parts[1] ? parseInt(parts[1], 10) : fileSize - 1;
-      partialContent = true;
+    // A valid signed URL stands in for the session; otherwise apply the usual access rule
+    const params = req.nextUrl.searchParams;
+    if (!verifyStreamSignature(storageKey, params.get('exp'), params.get('sig'))) {
+      const user = await getAuthUser(req);
+      if (!user) {
+        return new NextResponse('Unauthorized.', { status: 401 });
+      }
+
+      const version = await prisma.audioVersion.findUnique({
+        where: { id: audioVersion.id },
+        select: {
+          track: {
+            select: {
+              project: { select: projectAccessSelect(user) }
+            }
+          }
+        }
+      });
+      if (!version || !can(user, 'version:read', version.track)) {
+        return new NextResponse('Audio file not found.', { status: 404 });
+      }
     }
 
-    // Read the appropriate chunk of the file
-    const fileBuffer = await fs.readFile(absoluteFilePath);
-    const chunk = fileBuffer.subarray(start, end + 1);
-
-    // Determine the content type based on the file extension
-    const ext = path.extname(absoluteFilePath).toLowerCase();
-    let contentType = 'application/octet-stream'; // Default
-    switch (ext) {
-      case '.mp3':
-        contentType = 'audio/mpeg';
-        break;
-      case '.wav':
-        contentType = 'audio/wav';
-        break;
-      case '.ogg':
-        contentType = 'audio/ogg';
-        break;
-      case '.flac':
-        contentType = 'audio/flac';
-        break;
-      // Add more audio types as needed
+    const storage = getStorage();
+    const stats = await storage.stat(storageKey);
+    if (!stats) {
+      console.error(`API: Audio file not found in storage: ${storageKey}`);
+      return new NextResponse('Audio file not found.', { status: 404 });
     }
 
-    // Return the file as a response
+    const fileSize = stats.size;
+    const validators = getFileValidators(fileSize, stats.lastModified);
+
     const headers: Record<string, string> = {
-      'Content-Type': contentType,
+      'Content-Type': contentTypeForKey(storageKey),
       'Accept-Ranges': 'bytes',
-      'Cache-Control': 'public, max-age=31536000',
-      'Access-Control-Allow-Origin': '*',
-      'Access-Control-Allow-Methods': 'GET, HEAD, OPTIONS',
-      'Access-Control-Allow-Headers': 'Range, Content-Range',
+      // Unreleased masters must never land in shared caches
+      'Cache-Control': 'private, max-age=3600',
+      'ETag': validators.etag,
+      'Last-Modified': validators.lastModified,
     };
 
-    if (partialContent) {
+    if (isNotModified(req.headers, validators)) {
+      return new NextResponse(null, { status: 304, headers });
+    }
+
+    // A stale If-Range means the client's partial copy is outdated: send everything
+    const rangeHeader = isRangeStillValid(req.headers, validators) ? req.headers.get('range') : null;
+    const range = parseRangeHeader(rangeHeader, fileSize);
+
+    if (range.type === 'unsatisfiable') {
+      headers['Content-Range'] = `bytes */${fileSize}`;
+      return new NextResponse(null, { status: 416, headers });
+    }
+
+    const start = range.type === 'partial' ? range.range.start : 0;
+    const end = range.type === 'partial' ? range.range.end : fileSize - 1;
+    headers['Content-Length'] = (fileSize === 0 ? 0 : end - start + 1).toString();
+
+    const status = range.type === 'partial' ? 206 : 200;
+    if (range.type === 'partial') {
       headers['Content-Range'] = `bytes ${start}-${end}/${fileSize}`;
-      headers['Content-Length'] = (end - start + 1).toString();
-      return new NextResponse(chunk, {
-        status: 206,
-        headers,
-      });
-    } else {
-      headers['Content-Length'] = fileSize.toString();
-      return new NextResponse(chunk, {
-        headers,
-      });
     }
+
+    if (!includeBody || fileSize === 0) {
+      return new NextResponse(null, { status, headers });
+    }
+
+    // Stream only the requested bytes from storage
+    const fileStream = await storage.createReadStream(storageKey, { start, end });
+    const body = Readable.toWeb(fileStream) as ReadableStream<Uint8Array>;
+
+    return new NextResponse(body, { status, headers });
   } catch (error) {
     console.error('API: Error serving audio file:', error);
     return new NextResponse('Internal Server Error.', { status: 500 });
@@ -0,0 +1,64 @@
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+import { requireAuth } from '@/lib/middleware'
+import { can, projectAccessSelect } from '@/lib/policy'
+import { liveCommentWhere } from '@/lib/trash'
+
+// GET /api/comments/[id]/history - Content edits and status changes, oldest first
+export const GET = requireAuth(async (request, user, { params }: { params: Promise<{ id: string }> }) => {
+  try {
+    const { id } = await params
+
+    const comment = await prisma.comment.findUnique({
+      where: { id, ...liveCommentWhere },
+      select: {
+        id: true,
+        createdAt: true,
+        user: {
+          select: {
+            id: true,
+            name: true,
+            role: true
+          }
+        },
+        track: {
+          select: {
+            project: { select: projectAccessSelect(user) }
+          }
+        },
+        events: {
+          include: {
+            user: {
+              select: {
+                id: true,
+                name: true,
+                role: true
+              }
+            }
+          },
+          orderBy: { createdAt: 'asc' }
+        }
+      }
+    })
+
+    if (!comment || !can(user, 'track:read', comment.track)) {
+      return NextResponse.json(
+        { error: 'Comment not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      commentId: comment.id,
+      createdAt: comment.createdAt,
+      author: comment.user,
+      events: comment.events
+    })
+  } catch (error) {
+    console.error('Error fetching comment history:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch comment history' },
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,121 @@
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+import { requireAuth } from '@/lib/middleware'
+import { AuthUser } from '@/lib/auth'
+import { can, projectAccessSelect } from '@/lib/policy'
+import { deleteReply, replyInclude } from '@/lib/comments'
+import { liveCommentWhere } from '@/lib/trash'
+import { publishTrackEvent } from '@/lib/trackEvents'
+
+function findReply(replyId: string, user: AuthUser) {
+  return prisma.commentReply.findUnique({
+    where: { id: replyId, comment: liveCommentWhere },
+    select: {
+      commentId: true,
+      userId: true,
+      deletedAt: true,
+      comment: {
+        select: {
+          trackId: true,
+          track: {
+            select: {
+              project: { select: projectAccessSelect(user) }
+            }
+          }
+        }
+      }
+    }
+  })
+}
+
+// PATCH /api/comments/[id]/replies/[replyId] - Edit one's own reply
+export const PATCH = requireAuth(async (request, user, { params }: { params: Promise<{ id: string; replyId: string }> }) => {
+  try {
+    const { id: commentId, replyId } = await params
+    const body = await request.json()
+    const { content } = body
+
+    if (!content || typeof content !== 'string' || content.trim().length === 0) {
+      return NextResponse.json(
+        { error: 'Content is required' },
+        { status: 400 }
+      )
+    }
+
+    const reply = await findReply(replyId, user)
+
+    if (!reply || reply.commentId !== commentId || reply.deletedAt || !can(user, 'track:read', reply.comment.track)) {
+      return NextResponse.json(
+        { error: 'Reply not found' },
+        { status: 404 }
+      )
+    }
+
+    // Only the author may put words in their own mouth
+    if (reply.userId !== user.id || !can(user, 'comment:edit', { project: reply.comment.track.project, userId: reply.userId })) {
+      return NextResponse.json(
+        { error: 'Forbidden' },
+        { status: 403 }
+      )
+    }
+
+    const updatedReply = await prisma.commentReply.update({
+      where: { id: replyId },
+      data: { content: content.trim() },
+      include: replyInclude
+    })
+
+    await publishTrackEvent(reply.comment.trackId, 'COMMENT_UPDATED', {
+      commentId,
+      replyId,
+      actorId: user.id
+    })
+
+    return NextResponse.json(updatedReply)
+  } catch (error) {
+    console.error('Error updating reply:', error)
+    return NextResponse.json(
+      { error: 'Failed to update reply' },
+      { status: 500 }
+    )
+  }
+})
+
+// DELETE /api/comments/[id]/replies/[replyId] - Delete a reply, keeping any answers to it
+export const DELETE = requireAuth(async (request, user, { params }: { params: Promise<{ id: string; replyId: string }> }) => {
+  try {
+    const { id: commentId, replyId } = await params
+
+    const reply = await findReply(replyId, user)
+
+    if (!reply || reply.commentId !== commentId || reply.deletedAt) {
+      return NextResponse.json(
+        { error: 'Reply not found' },
+        { status: 404 }
+      )
+    }
+
+    if (!can(user, 'comment:delete', { project: reply.comment.track.project, userId: reply.userId })) {
+      return NextResponse.json(
+        { error: 'Forbidden' },
+        { status: 403 }
+      )
+    }
+
+    const removedReplyIds = await prisma.$transaction(tx => deleteReply(replyId, tx))
+
+    await publishTrackEvent(reply.comment.trackId, 'COMMENT_UPDATED', {
+      commentId,
+      replyId,
+      actorId: user.id
+    })
+
+    return NextResponse.json({ success: true, removedReplyIds })
+  } catch (error) {
+    console.error('Error deleting reply:', error)
+    return NextResponse.json(
+      { error: 'Failed to delete reply' },
+      { status: 500 }
+    )
+  }
+})
@@ -1,25 +1,18 @@
-import { NextRequest, NextResponse } from 'next/server'
+import { NextResponse } from 'next/server'
 import { prisma } from '@/lib/db'
-import { getAuthUser } from '@/lib/middleware'
+import { requireAuth } from '@/lib/middleware'
+import { can, projectAccessSelect } from '@/lib/policy'
+import { replyInclude } from '@/lib/comments'
+import { notifyProjectMembers } from '@/lib/notifications'
+import { publishTrackEvent } from '@/lib/trackEvents'
+import { liveCommentWhere } from '@/lib/trash'
 
 // POST /api/comments/[id]/replies - Add reply to comment
-export async function POST(
-  request: NextRequest,
-  { params }: { params: Promise<{ id: string }> }
-) {
+export const POST = requireAuth(async (request, user, { params }: { params: Promise<{ id: string }> }) => {
   try {
-    const user = await getAuthUser(request)
-    
-    if (!user) {
-      return NextResponse.json(
-        { error: 'Unauthorized' },
-        { status: 401 }
-      )
-    }
-
     const { id: commentId } = await params
     const body = await request.json()
-    const { content } = body
+    const { content, parentReplyId } = body
 
     if (!content || typeof content !== 'string' || content.trim().length === 0) {
       return NextResponse.json(
@@ -30,14 +23,12 @@ export async function POST(
 
     // Verify the comment exists and user has access
     const comment = await prisma.comment.findUnique({
-      where: { id: commentId },
+      where: { id: commentId, ...liveCommentWhere },
       include: {
         track: {
           include: {
             project: {
-              select: {
-                userId: true
-              }
+              select: projectAccessSelect(user)
             }
           }
         }
@@ -52,40 +43,55 @@ export async function POST(
     }
 
     // Check permissions - user must have access to the project
-    if (user.role === 'CLIENT' && comment.track.project.userId !== user.id) {
+    if (!can(user, 'comment:reply', { project: comment.track.project, userId: comment.userId })) {
       return NextResponse.json(
         { error: 'Forbidden' },
         { status: 403 }
       )
     }
 
+    // A reply to a reply must stay within the same comment thread
+    if (parentReplyId) {
+      const parentReply = await prisma.commentReply.findUnique({
+        where: { id: parentReplyId, deletedAt: null },
+        select: { commentId: true }
+      })
+      if (!parentReply || parentReply.commentId !== commentId) {
+        return NextResponse.json(
+          { error: 'Parent reply not found' },
+          { status: 404 }
+        )
+      }
+    }
+
     const reply = await prisma.commentReply.create({
       data: {
         content: content.trim(),
         commentId,
+        parentReplyId: parentReplyId || null,
         userId: user.id
-      }
+      },
+      include: replyInclude
     })
 
-    // Return the reply with user information
-    const replyWithUser = await prisma.commentReply.findUnique({
-      where: { id: reply.id },
-      include: {
-        comment: {
-          include: {
-            user: {
-              select: {
-                id: true,
-                name: true,
-                role: true
-              }
-            }
-          }
-        }
-      }
+    await publishTrackEvent(comment.trackId, 'REPLY_ADDED', {
+      commentId,
+      replyId: reply.id,
+      actorId: user.id
+    })
+
+    await notifyProjectMembers({
+      type: 'REPLY',
+      projectId: comment.track.projectId,
+      actor: user,
+      message: `${user.name} replied to a comment on ${comment.track.name}`,
+      link: `/track/${comment.trackId}`,
+      trackId: comment.trackId,
+      commentId,
+      content: reply.content
     })
 
-    return NextResponse.json(replyWithUser, { status: 201 })
+    return NextResponse.json(reply, { status: 201 })
   } catch (error) {
     console.error('Error creating reply:', error)
     return NextResponse.json(
@@ -93,4 +99,4 @@ export async function POST(
       { status: 500 }
     )
   }
-}
\ No newline at end of file
+})
\ No newline at end of file
@@ -1,142 +1,118 @@
-import { NextRequest, NextResponse } from 'next/server'
+import { NextResponse } from 'next/server'
 import { prisma } from '@/lib/db'
-import { getAuthUser } from '@/lib/middleware'
+import { requireAuth } from '@/lib/middleware'
+import { can, projectAccessSelect } from '@/lib/policy'
+import { editCommentContent } from '@/lib/comments'
+import { isCommentStatus, updateCommentStatus } from '@/lib/commentStatus'
+import { publishTrackEvent } from '@/lib/trackEvents'
+import { liveCommentWhere } from '@/lib/trash'
 
 // PUT /api/comments/[id] - Update comment status
-export async function PUT(
-  request: NextRequest,
-  { params }: { params: Promise<{ id: string }> }
-) {
+export const PUT = requireAuth(async (request, user, { params }: { params: Promise<{ id: string }> }) => {
   try {
-    const user = await getAuthUser(request)
-    
-    if (!user) {
+    const { id } = await params
+    const body = await request.json()
+    const { status } = body
+
+    if (!isCommentStatus(status)) {
+      return NextResponse.json(
+        { error: 'Valid status is required (PENDING, APPROVED, RESOLVED, REJECTED)' },
+        { status: 400 }
+      )
+    }
+
+    const result = await updateCommentStatus(user, id, status)
+    if (!result.ok) {
       return NextResponse.json(
-        { error: 'Unauthorized' },
-        { status: 401 }
+        { error: result.error },
+        { status: result.status }
       )
     }
 
+    return NextResponse.json(result.comment)
+  } catch (error) {
+    console.error('Error updating comment:', error)
+    return NextResponse.json(
+      { error: 'Failed to update comment' },
+      { status: 500 }
+    )
+  }
+})
+
+// PATCH /api/comments/[id] - Edit the text of one's own comment
+export const PATCH = requireAuth(async (request, user, { params }: { params: Promise<{ id: string }> }) => {
+  try {
     const { id } = await params
     const body = await request.json()
-    const { status } = body
+    const { content } = body
 
-    if (!status || !['PENDING', 'APPROVED', 'RESOLVED', 'REJECTED'].includes(status)) {
+    if (!content || typeof content !== 'string' || content.trim().length === 0) {
       return NextResponse.json(
-        { error: 'Valid status is required (PENDING, APPROVED, RESOLVED, REJECTED)' },
+        { error: 'Content is required' },
         { status: 400 }
       )
     }
 
-    // Find the comment and check permissions
     const comment = await prisma.comment.findUnique({
-      where: { id },
-      include: {
+      where: { id, ...liveCommentWhere },
+      select: {
+        id: true,
+        content: true,
+        userId: true,
         track: {
-          include: {
-            project: {
-              select: {
-                userId: true
-              }
-            }
-          }
-        },
-        user: {
           select: {
-            id: true
+            project: { select: projectAccessSelect(user) }
           }
         }
       }
     })
 
-    if (!comment) {
+    if (!comment || !can(user, 'track:read', comment.track)) {
       return NextResponse.json(
         { error: 'Comment not found' },
         { status: 404 }
       )
     }
 
-    // Check permissions - engineers/admins can change any status, clients can only change their own comments
-    const canUpdateStatus = user.role === 'ENGINEER' || user.role === 'ADMIN' || 
-                           (user.role === 'CLIENT' && comment.track.project.userId === user.id)
+    if (comment.userId !== user.id) {
+      return NextResponse.json(
+        { error: 'Forbidden - only the author can edit a comment' },
+        { status: 403 }
+      )
+    }
 
-    if (!canUpdateStatus) {
+    if (!can(user, 'comment:edit', { project: comment.track.project, userId: comment.userId })) {
       return NextResponse.json(
-        { error: 'Forbidden - insufficient permissions to update comment status' },
+        { error: 'Forbidden - insufficient permissions to edit comment' },
         { status: 403 }
       )
     }
 
-    const updatedComment = await prisma.comment.update({
-      where: { id },
-      data: { status },
-      include: {
-        user: {
-          select: {
-            id: true,
-            name: true,
-            email: true,
-            role: true
-          }
-        },
-        replies: {
-          include: {
-            comment: {
-              include: {
-                user: {
-                  select: {
-                    id: true,
-                    name: true,
-                    role: true
-                  }
-                }
-              }
-            }
-          },
-          orderBy: {
-            createdAt: 'asc'
-          }
-        }
-      }
-    })
+    const updatedComment = await editCommentContent(comment, content.trim(), user.id)
 
     return NextResponse.json(updatedComment)
   } catch (error) {
-    console.error('Error updating comment:', error)
+    console.error('Error editing comment:', error)
     return NextResponse.json(
-      { error: 'Failed to update comment' },
+      { error: 'Failed to edit comment' },
       { status: 500 }
     )
   }
-}
+})
 
 // DELETE /api/comments/[id] - Delete comment
-export async function DELETE(
-  request: NextRequest,
-  { params }: { params: Promise<{ id: string }> }
-) {
+export const DELETE = requireAuth(async (request, user, { params }: { params: Promise<{ id: string }> }) => {
   try {
-    const user = await getAuthUser(request)
-    
-    if (!user) {
-      return NextResponse.json(
-        { error: 'Unauthorized' },
-        { status: 401 }
-      )
-    }
-
     const { id } = await params
 
     // Find the comment and check permissions
     const comment = await prisma.comment.findUnique({
-      where: { id },
+      where: { id, ...liveCommentWhere },
       include: {
         track: {
           include: {
             project: {
-              select: {
-                userId: true
-              }
+              select: projectAccessSelect(user)
             }
           }
         },
@@ -155,22 +131,32 @@ export async function DELETE(
       )
     }
 
-    // Check permissions - users can delete their own comments, engineers/admins can delete any, project owners can delete comments on their projects
-    const canDelete = comment.user.id === user.id || 
-                     user.role === 'ENGINEER' || 
-                     user.role === 'ADMIN' ||
-                     (user.role === 'CLIENT' && comment.track.project.userId === user.id)
-
-    if (!canDelete) {
+    if (!can(user, 'comment:delete', { project: comment.track.project, userId: comment.userId })) {
       return NextResponse.json(
         { error: 'Forbidden - insufficient permissions to delete comment' },
         { status: 403 }
       )
     }
 
-    // Delete the comment (cascading deletes should handle replies and approvals)
-    await prisma.comment.delete({
-      where: { id }
+    // Hide the comment but keep it and its history for the record
+    await prisma.$transaction([
+      prisma.comment.update({
+        where: { id },
+        data: { deletedAt: new Date() }
+      }),
+      prisma.commentEvent.create({
+        data: {
+          type: 'DELETED',
+          commentId: id,
+          userId: user.id
+        }
+      })
+    ])
+
+    await publishTrackEvent(comment.trackId, 'COMMENT_DELETED', {
+      commentId: id,
+      audioVersionId: comment.audioVersionId,
+      actorId: user.id
     })
 
     return NextResponse.json({ success: true })
@@ -181,4 +167,4 @@ export async function DELETE(
       { status: 500 }
     )
   }
-}
\ No newline at end of file
+})
\ No newline at end of file
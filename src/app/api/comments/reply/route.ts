@@ -1,21 +1,17 @@
-import { NextRequest, NextResponse } from 'next/server'
+import { NextResponse } from 'next/server'
 import { prisma } from '@/lib/db'
-import { getAuthUser } from '@/lib/middleware'
+import { requireAuth } from '@/lib/middleware'
+import { can, projectAccessSelect } from '@/lib/policy'
+import { replyInclude } from '@/lib/comments'
+import { notifyProjectMembers } from '@/lib/notifications'
+import { publishTrackEvent } from '@/lib/trackEvents'
+import { liveCommentWhere } from '@/lib/trash'
 
 // POST /api/comments/reply - Create a reply to a comment
-export async function POST(request: NextRequest) {
+export const POST = requireAuth(async (request, user) => {
   try {
-    const user = await getAuthUser(request)
-    
-    if (!user) {
-      return NextResponse.json(
-        { error: 'Unauthorized' },
-        { status: 401 }
-      )
-    }
-
     const body = await request.json()
-    const { commentId, content } = body
+    const { commentId, content, parentReplyId } = body
 
     if (!commentId || !content) {
       return NextResponse.json(
@@ -26,14 +22,12 @@ export async function POST(request: NextRequest) {
 
     // Verify the comment exists and user has access
     const comment = await prisma.comment.findUnique({
-      where: { id: commentId },
+      where: { id: commentId, ...liveCommentWhere },
       include: {
         track: {
           include: {
             project: {
-              select: {
-                userId: true
-              }
+              select: projectAccessSelect(user)
             }
           }
         }
@@ -47,39 +41,52 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    // Check permissions - user must be project owner, comment author, or engineer/admin
-    const canReply = 
-      user.role === 'ADMIN' ||
-      user.role === 'ENGINEER' ||
-      comment.track.project.userId === user.id ||
-      comment.userId === user.id
-
-    if (!canReply) {
+    if (!can(user, 'comment:reply', { project: comment.track.project, userId: comment.userId })) {
       return NextResponse.json(
         { error: 'Forbidden' },
         { status: 403 }
       )
     }
 
+    // A reply to a reply must stay within the same comment thread
+    if (parentReplyId) {
+      const parentReply = await prisma.commentReply.findUnique({
+        where: { id: parentReplyId, deletedAt: null },
+        select: { commentId: true }
+      })
+      if (!parentReply || parentReply.commentId !== commentId) {
+        return NextResponse.json(
+          { error: 'Parent reply not found' },
+          { status: 404 }
+        )
+      }
+    }
+
     const reply = await prisma.commentReply.create({
       data: {
         content,
         commentId,
+        parentReplyId: parentReplyId || null,
         userId: user.id
       },
-      include: {
-        comment: {
-          include: {
-            user: {
-              select: {
-                id: true,
-                name: true,
-                role: true
-              }
-            }
-          }
-        }
-      }
+      include: replyInclude
+    })
+
+    await publishTrackEvent(comment.trackId, 'REPLY_ADDED', {
+      commentId,
+      replyId: reply.id,
+      actorId: user.id
+    })
+
+    await notifyProjectMembers({
+      type: 'REPLY',
+      projectId: comment.track.projectId,
+      actor: user,
+      message: `${user.name} replied to a comment on ${comment.track.name}`,
+      link: `/track/${comment.trackId}`,
+      trackId: comment.trackId,
+      commentId,
+      content: reply.content
     })
 
     return NextResponse.json(reply, { status: 201 })
@@ -90,4 +97,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     )
   }
-}
\ No newline at end of file
+})
\ No newline at end of file
@@ -1,19 +1,17 @@
-import { NextRequest, NextResponse } from 'next/server'
+import { NextResponse } from 'next/server'
+import { Prisma } from '@prisma/client'
 import { prisma } from '@/lib/db'
-import { getAuthUser } from '@/lib/middleware'
+import { requireAuth } from '@/lib/middleware'
+import { can, projectAccessSelect } from '@/lib/policy'
+import { commentInclude } from '@/lib/comments'
+import { isCommentStatus, updateCommentStatus } from '@/lib/commentStatus'
+import { notifyProjectMembers } from '@/lib/notifications'
+import { publishTrackEvent } from '@/lib/trackEvents'
+import { liveTrackWhere } from '@/lib/trash'
 
 // GET /api/comments - Get comments for a track/audioVersion
-export async function GET(request: NextRequest) {
+export const GET = requireAuth(async (request, user) => {
   try {
-    const user = await getAuthUser(request)
-    
-    if (!user) {
-      return NextResponse.json(
-        { error: 'Unauthorized' },
-        { status: 401 }
-      )
-    }
-
     const { searchParams } = new URL(request.url)
     const trackId = searchParams.get('trackId')
     const audioVersionId = searchParams.get('audioVersionId')
@@ -25,41 +23,29 @@ export async function GET(request: NextRequest) {
       )
     }
 
-    const whereClause: { trackId: string; audioVersionId?: string } = { trackId }
+    const track = await prisma.track.findUnique({
+      where: { id: trackId, ...liveTrackWhere },
+      select: {
+        project: { select: projectAccessSelect(user) }
+      }
+    })
+
+    if (!track || !can(user, 'track:read', track)) {
+      return NextResponse.json(
+        { error: 'Track not found' },
+        { status: 404 }
+      )
+    }
+
+    // Comments on versions in the trash go with them
+    const whereClause: Prisma.CommentWhereInput = { trackId, deletedAt: null, audioVersion: { deletedAt: null } }
     if (audioVersionId) {
       whereClause.audioVersionId = audioVersionId
     }
 
     const comments = await prisma.comment.findMany({
       where: whereClause,
-      include: {
-        user: {
-          select: {
-            id: true,
-            name: true,
-            email: true,
-            role: true
-          }
-        },
-        replies: {
-          include: {
-            comment: {
-              include: {
-                user: {
-                  select: {
-                    id: true,
-                    name: true,
-                    role: true
-                  }
-                }
-              }
-            }
-          },
-          orderBy: {
-            createdAt: 'asc'
-          }
-        }
-      },
+      include: commentInclude,
       orderBy: {
         timestampMs: 'asc'
       }
@@ -73,41 +59,46 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
 
 // POST /api/comments - Create new comment
-export async function POST(request: NextRequest) {
+export const POST = requireAuth(async (request, user) => {
   try {
-    const user = await getAuthUser(request)
-    
-    if (!user) {
+    const body = await request.json()
+    const { content, timestampMs, endMs, trackId, audioVersionId, versionType } = body
+
+    if (!content || timestampMs === undefined || !trackId || !audioVersionId) {
       return NextResponse.json(
-        { error: 'Unauthorized' },
-        { status: 401 }
+        { error: 'content, timestampMs, trackId, and audioVersionId are required' },
+        { status: 400 }
       )
     }
 
-    const body = await request.json()
-    const { content, timestampMs, trackId, audioVersionId, versionType } = body
+    // Both are stored as whole milliseconds
+    if (!Number.isInteger(timestampMs) || timestampMs < 0) {
+      return NextResponse.json(
+        { error: 'timestampMs must be a non-negative whole number' },
+        { status: 400 }
+      )
+    }
 
-    if (!content || typeof timestampMs !== 'number' || !trackId || !audioVersionId) {
+    // A region comment runs from timestampMs to endMs
+    if (endMs !== undefined && endMs !== null && (!Number.isInteger(endMs) || endMs <= timestampMs)) {
       return NextResponse.json(
-        { error: 'content, timestampMs, trackId, and audioVersionId are required' },
+        { error: 'endMs must be a whole number after timestampMs' },
         { status: 400 }
       )
     }
 
     // Verify the track and audioVersion exist and user has access
     const track = await prisma.track.findUnique({
-      where: { id: trackId },
+      where: { id: trackId, ...liveTrackWhere },
       include: {
         project: {
-          select: {
-            userId: true
-          }
+          select: projectAccessSelect(user)
         },
         audioVersions: {
-          where: { id: audioVersionId }
+          where: { id: audioVersionId, deletedAt: null }
         }
       }
     })
@@ -126,8 +117,7 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    // Check permissions - user must be project owner or engineer/admin
-    if (user.role === 'CLIENT' && track.project.userId !== user.id) {
+    if (!can(user, 'comment:create', track)) {
       return NextResponse.json(
         { error: 'Forbidden' },
         { status: 403 }
@@ -138,36 +128,30 @@ export async function POST(request: NextRequest) {
       data: {
         content,
         timestampMs,
+        endMs: endMs ?? null,
         trackId,
         audioVersionId,
         versionType: versionType || 'STEREO',
         userId: user.id
       },
-      include: {
-        user: {
-          select: {
-            id: true,
-            name: true,
-            email: true,
-            role: true
-          }
-        },
-        replies: {
-          include: {
-            comment: {
-              include: {
-                user: {
-                  select: {
-                    id: true,
-                    name: true,
-                    role: true
-                  }
-                }
-              }
-            }
-          }
-        }
-      }
+      include: commentInclude
+    })
+
+    await publishTrackEvent(trackId, 'COMMENT_CREATED', {
+      commentId: comment.id,
+      audioVersionId,
+      actorId: user.id
+    })
+
+    await notifyProjectMembers({
+      type: 'COMMENT',
+      projectId: track.projectId,
+      actor: user,
+      message: `${user.name} commented on ${track.name}`,
+      link: `/track/${trackId}`,
+      trackId,
+      commentId: comment.id,
+      content: comment.content
     })
 
     return NextResponse.json(comment, { status: 201 })
@@ -178,20 +162,11 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
 
 // PATCH /api/comments - Update comment status
-export async function PATCH(request: NextRequest) {
+export const PATCH = requireAuth(async (request, user) => {
   try {
-    const user = await getAuthUser(request)
-    
-    if (!user) {
-      return NextResponse.json(
-        { error: 'Unauthorized' },
-        { status: 401 }
-      )
-    }
-
     const body = await request.json()
     const { commentId, status } = body
 
@@ -202,66 +177,22 @@ export async function PATCH(request: NextRequest) {
       )
     }
 
-    if (!['PENDING', 'APPROVED', 'RESOLVED'].includes(status)) {
+    if (!isCommentStatus(status)) {
       return NextResponse.json(
-        { error: 'Invalid status. Must be PENDING, APPROVED, or RESOLVED' },
+        { error: 'Invalid status. Must be PENDING, APPROVED, RESOLVED, or REJECTED' },
         { status: 400 }
       )
     }
 
-    // Verify the comment exists and user has access
-    const comment = await prisma.comment.findUnique({
-      where: { id: commentId },
-      include: {
-        track: {
-          include: {
-            project: {
-              select: {
-                userId: true
-              }
-            }
-          }
-        }
-      }
-    })
-
-    if (!comment) {
-      return NextResponse.json(
-        { error: 'Comment not found' },
-        { status: 404 }
-      )
-    }
-
-    // Check permissions - user must be project owner, comment author, or engineer/admin
-    const canUpdateStatus = 
-      user.role === 'ADMIN' ||
-      user.role === 'ENGINEER' ||
-      comment.track.project.userId === user.id ||
-      comment.userId === user.id
-
-    if (!canUpdateStatus) {
+    const result = await updateCommentStatus(user, commentId, status)
+    if (!result.ok) {
       return NextResponse.json(
-        { error: 'Forbidden' },
-        { status: 403 }
+        { error: result.error },
+        { status: result.status }
       )
     }
 
-    const updatedComment = await prisma.comment.update({
-      where: { id: commentId },
-      data: { status },
-      include: {
-        user: {
-          select: {
-            id: true,
-            name: true,
-            email: true,
-            role: true
-          }
-        }
-      }
-    })
-
-    return NextResponse.json(updatedComment)
+    return NextResponse.json(result.comment)
   } catch (error) {
     console.error('Error updating comment status:', error)
     return NextResponse.json(
@@ -269,4 +200,4 @@ export async function PATCH(request: NextRequest) {
       { status: 500 }
     )
   }
-}
\ No newline at end of file
+})
\ No newline at end of file
@@ -0,0 +1,58 @@
+import { NextResponse } from 'next/server'
+import { Readable } from 'stream'
+import { prisma } from '@/lib/db'
+import { requireAuth } from '@/lib/middleware'
+import { can, projectAccessSelect } from '@/lib/policy'
+import { getStorage, contentTypeForKey } from '@/lib/storage'
+import { IMAGE_SIZES } from '@/lib/imageUrls'
+import { liveProjectWhere } from '@/lib/trash'
+
+const PROJECT_COVER_KEY = /^projects\/([^/]+)\/cover\/\d+\/(\d+)\.jpg$/
+const USER_AVATAR_KEY = /^users\/([^/]+)\/avatar\/\d+\/(\d+)\.jpg$/
+
+// GET /api/images/[...path] - Serve a cover or avatar thumbnail
+export const GET = requireAuth(async (request, user, { params }: { params: Promise<{ path: string[] }> }) => {
+  try {
+    const { path } = await params
+    const key = path.join('/')
+
+    const coverMatch = key.match(PROJECT_COVER_KEY)
+    const match = coverMatch || key.match(USER_AVATAR_KEY)
+    if (!match || !IMAGE_SIZES.some(size => size.toString() === match[2])) {
+      return NextResponse.json({ error: 'Image not found' }, { status: 404 })
+    }
+
+    // Covers follow project access; avatars are visible to every signed-in user
+    if (coverMatch) {
+      const project = await prisma.project.findUnique({
+        where: { id: coverMatch[1], ...liveProjectWhere },
+        select: projectAccessSelect(user)
+      })
+      if (!project || !can(user, 'project:read', { project })) {
+        return NextResponse.json({ error: 'Image not found' }, { status: 404 })
+      }
+    }
+
+    const storage = getStorage()
+    const stats = await storage.stat(key)
+    if (!stats) {
+      return NextResponse.json({ error: 'Image not found' }, { status: 404 })
+    }
+
+    const fileStream = await storage.createReadStream(key)
+    return new NextResponse(Readable.toWeb(fileStream) as ReadableStream<Uint8Array>, {
+      headers: {
+        'Content-Type': contentTypeForKey(key),
+        'Content-Length': stats.size.toString(),
+        // A new upload gets a new path, so a stored image never changes
+        'Cache-Control': 'private, max-age=31536000, immutable'
+      }
+    })
+  } catch (error) {
+    console.error('Error serving image:', error)
+    return NextResponse.json(
+      { error: 'Failed to load image' },
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+import { requireAuth } from '@/lib/middleware'
+import { acceptInvitation } from '@/lib/invitations'
+
+// GET /api/invitations/[token] - Describe an invitation. The token is the
+// credential, so this works before the invitee has an account.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const { token } = await params
+
+    const invitation = await prisma.projectInvitation.findUnique({
+      where: { token },
+      select: {
+        email: true,
+        role: true,
+        expiresAt: true,
+        acceptedAt: true,
+        project: {
+          select: { id: true, name: true, artist: true }
+        },
+        invitedBy: {
+          select: { name: true }
+        }
+      }
+    })
+
+    if (!invitation) {
+      return NextResponse.json(
+        { error: 'Invitation not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      ...invitation,
+      expired: invitation.expiresAt < new Date()
+    })
+  } catch (error) {
+    console.error('Error fetching invitation:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch invitation' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/invitations/[token] - Accept an invitation as the signed-in user
+export const POST = requireAuth(async (request, user, { params }: { params: Promise<{ token: string }> }) => {
+  try {
+    const { token } = await params
+    const result = await acceptInvitation(token, user)
+
+    if (!result.ok) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.status }
+      )
+    }
+
+    return NextResponse.json({ success: true, projectId: result.projectId })
+  } catch (error) {
+    console.error('Error accepting invitation:', error)
+    return NextResponse.json(
+      { error: 'Failed to accept invitation' },
+      { status: 500 }
+    )
+  }
+})
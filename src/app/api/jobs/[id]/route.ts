@@ -0,0 +1,55 @@
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+import { requireAuth } from '@/lib/middleware'
+import { can, projectAccessSelect } from '@/lib/policy'
+import { withNumberFileSize } from '@/lib/uploads'
+
+// GET /api/jobs/[id] - Get processing state of an upload job
+export const GET = requireAuth(async (request, user, { params }: { params: Promise<{ id: string }> }) => {
+  try {
+    const { id } = await params
+
+    const job = await prisma.processingJob.findUnique({
+      where: { id },
+      select: {
+        id: true,
+        status: true,
+        versionType: true,
+        originalName: true,
+        error: true,
+        createdAt: true,
+        startedAt: true,
+        completedAt: true,
+        trackId: true,
+        userId: true,
+        audioVersion: true,
+        track: {
+          select: {
+            project: {
+              select: projectAccessSelect(user)
+            }
+          }
+        }
+      }
+    })
+
+    // Clients only see jobs they queued or jobs on their own projects
+    if (!job || !can(user, 'job:read', { project: job.track.project, userId: job.userId })) {
+      return NextResponse.json(
+        { error: 'Job not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      ...job,
+      audioVersion: job.audioVersion && withNumberFileSize(job.audioVersion)
+    })
+  } catch (error) {
+    console.error('Error fetching job:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch job' },
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,84 @@
+import { NextResponse } from 'next/server'
+import { Prisma } from '@prisma/client'
+import { prisma } from '@/lib/db'
+import { requireAuth } from '@/lib/middleware'
+
+const DEFAULT_LIMIT = 20
+const MAX_LIMIT = 100
+
+// GET /api/notifications - The current user's inbox, newest first
+export const GET = requireAuth(async (request, user) => {
+  try {
+    const { searchParams } = new URL(request.url)
+    const unreadOnly = searchParams.get('unread') === 'true'
+    const limit = Math.min(MAX_LIMIT, Math.max(1, parseInt(searchParams.get('limit') || '', 10) || DEFAULT_LIMIT))
+
+    const where: Prisma.NotificationWhereInput = { userId: user.id }
+    if (unreadOnly) where.readAt = null
+
+    const [notifications, unreadCount] = await Promise.all([
+      prisma.notification.findMany({
+        where,
+        include: {
+          actor: {
+            select: {
+              id: true,
+              name: true
+            }
+          },
+          project: {
+            select: {
+              id: true,
+              name: true
+            }
+          }
+        },
+        orderBy: { createdAt: 'desc' },
+        take: limit
+      }),
+      prisma.notification.count({
+        where: { userId: user.id, readAt: null }
+      })
+    ])
+
+    return NextResponse.json({ notifications, unreadCount })
+  } catch (error) {
+    console.error('Error fetching notifications:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch notifications' },
+      { status: 500 }
+    )
+  }
+})
+
+// PATCH /api/notifications - Mark notifications read, by id or all at once
+export const PATCH = requireAuth(async (request, user) => {
+  try {
+    const body = await request.json()
+    const { ids, all } = body
+
+    if (all !== true && (!Array.isArray(ids) || ids.length === 0 || ids.some(id => typeof id !== 'string'))) {
+      return NextResponse.json(
+        { error: 'Provide ids to mark read, or all: true' },
+        { status: 400 }
+      )
+    }
+
+    const result = await prisma.notification.updateMany({
+      where: {
+        userId: user.id,
+        readAt: null,
+        ...(all === true ? {} : { id: { in: ids } })
+      },
+      data: { readAt: new Date() }
+    })
+
+    return NextResponse.json({ updated: result.count })
+  } catch (error) {
+    console.error('Error marking notifications read:', error)
+    return NextResponse.json(
+      { error: 'Failed to update notifications' },
+      { status: 500 }
+    )
+  }
+})
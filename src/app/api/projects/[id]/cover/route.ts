@@ -0,0 +1,104 @@
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+import { requireAuth } from '@/lib/middleware'
+import { can, projectAccessSelect } from '@/lib/policy'
+import { deleteStoredImage, projectCoverDir, storeImageUpload, validateImageFile } from '@/lib/images'
+import { liveProjectWhere } from '@/lib/trash'
+
+// POST /api/projects/[id]/cover - Upload new cover art
+export const POST = requireAuth(async (request, user, { params }: { params: Promise<{ id: string }> }) => {
+  try {
+    const { id } = await params
+    const formData = await request.formData()
+    const file = formData.get('file') as File | null
+
+    const invalid = validateImageFile(file)
+    if (invalid) {
+      return NextResponse.json(
+        { error: invalid },
+        { status: 400 }
+      )
+    }
+
+    const project = await prisma.project.findUnique({
+      where: { id, ...liveProjectWhere },
+      select: { coverImage: true, ...projectAccessSelect(user) }
+    })
+
+    if (!project || !can(user, 'project:read', { project })) {
+      return NextResponse.json(
+        { error: 'Project not found' },
+        { status: 404 }
+      )
+    }
+
+    if (!can(user, 'project:update', { project })) {
+      return NextResponse.json(
+        { error: 'Forbidden' },
+        { status: 403 }
+      )
+    }
+
+    const coverImage = await storeImageUpload(file!, projectCoverDir(id))
+    if (!coverImage) {
+      return NextResponse.json(
+        { error: 'The file is not a readable image' },
+        { status: 400 }
+      )
+    }
+
+    const updatedProject = await prisma.project.update({
+      where: { id },
+      data: { coverImage }
+    })
+    await deleteStoredImage(project.coverImage, projectCoverDir(id))
+
+    return NextResponse.json(updatedProject)
+  } catch (error) {
+    console.error('Error uploading cover image:', error)
+    return NextResponse.json(
+      { error: 'Failed to upload cover image' },
+      { status: 500 }
+    )
+  }
+})
+
+// DELETE /api/projects/[id]/cover - Remove the cover art
+export const DELETE = requireAuth(async (request, user, { params }: { params: Promise<{ id: string }> }) => {
+  try {
+    const { id } = await params
+
+    const project = await prisma.project.findUnique({
+      where: { id, ...liveProjectWhere },
+      select: { coverImage: true, ...projectAccessSelect(user) }
+    })
+
+    if (!project || !can(user, 'project:read', { project })) {
+      return NextResponse.json(
+        { error: 'Project not found' },
+        { status: 404 }
+      )
+    }
+
+    if (!can(user, 'project:update', { project })) {
+      return NextResponse.json(
+        { error: 'Forbidden' },
+        { status: 403 }
+      )
+    }
+
+    const updatedProject = await prisma.project.update({
+      where: { id },
+      data: { coverImage: null }
+    })
+    await deleteStoredImage(project.coverImage, projectCoverDir(id))
+
+    return NextResponse.json(updatedProject)
+  } catch (error) {
+    console.error('Error removing cover image:', error)
+    return NextResponse.json(
+      { error: 'Failed to remove cover image' },
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,112 @@
+import { NextResponse } from 'next/server'
+import { ProjectRole } from '@prisma/client'
+import { prisma } from '@/lib/db'
+import { requireAuth } from '@/lib/middleware'
+import { can, projectAccessSelect } from '@/lib/policy'
+import { inviteToProject, PROJECT_ROLES } from '@/lib/invitations'
+import { liveProjectWhere } from '@/lib/trash'
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+
+// GET /api/projects/[id]/invitations - List pending invitations
+export const GET = requireAuth(async (request, user, { params }: { params: Promise<{ id: string }> }) => {
+  try {
+    const { id } = await params
+
+    const project = await prisma.project.findUnique({
+      where: { id, ...liveProjectWhere },
+      select: projectAccessSelect(user)
+    })
+
+    if (!project || !can(user, 'project:manage-members', { project })) {
+      return NextResponse.json(
+        { error: 'Forbidden' },
+        { status: 403 }
+      )
+    }
+
+    const invitations = await prisma.projectInvitation.findMany({
+      where: {
+        projectId: id,
+        acceptedAt: null,
+        expiresAt: { gt: new Date() }
+      },
+      select: {
+        id: true,
+        email: true,
+        role: true,
+        expiresAt: true,
+        createdAt: true,
+        invitedBy: {
+          select: { id: true, name: true }
+        }
+      },
+      orderBy: { createdAt: 'desc' }
+    })
+
+    return NextResponse.json(invitations)
+  } catch (error) {
+    console.error('Error fetching invitations:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch invitations' },
+      { status: 500 }
+    )
+  }
+})
+
+// POST /api/projects/[id]/invitations - Invite someone to the project by email
+export const POST = requireAuth(async (request, user, { params }: { params: Promise<{ id: string }> }) => {
+  try {
+    const { id } = await params
+    const body = await request.json()
+    const { email, role = 'COLLABORATOR' } = body
+
+    if (!email || typeof email !== 'string' || !EMAIL_PATTERN.test(email.trim())) {
+      return NextResponse.json(
+        { error: 'A valid email is required' },
+        { status: 400 }
+      )
+    }
+
+    if (!PROJECT_ROLES.includes(role)) {
+      return NextResponse.json(
+        { error: 'Invalid role. Must be OWNER, COLLABORATOR, or VIEWER' },
+        { status: 400 }
+      )
+    }
+
+    const project = await prisma.project.findUnique({
+      where: { id, ...liveProjectWhere },
+      select: projectAccessSelect(user)
+    })
+
+    if (!project) {
+      return NextResponse.json(
+        { error: 'Project not found' },
+        { status: 404 }
+      )
+    }
+
+    if (!can(user, 'project:manage-members', { project })) {
+      return NextResponse.json(
+        { error: 'Forbidden' },
+        { status: 403 }
+      )
+    }
+
+    const invitation = await inviteToProject(id, email, role as ProjectRole, user)
+
+    return NextResponse.json({
+      id: invitation.id,
+      email: invitation.email,
+      role: invitation.role,
+      expiresAt: invitation.expiresAt
+    }, { status: 201 })
+  } catch (error) {
+    console.error('Error creating invitation:', error)
+    return NextResponse.json(
+      { error: 'Failed to send invitation' },
+      { status: 500 }
+    )
+  }
+})
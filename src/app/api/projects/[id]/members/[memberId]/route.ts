@@ -0,0 +1,57 @@
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+import { requireAuth } from '@/lib/middleware'
+import { can, projectAccessSelect } from '@/lib/policy'
+
+// DELETE /api/projects/[id]/members/[memberId] - Remove someone from the project
+export const DELETE = requireAuth(async (request, user, { params }: { params: Promise<{ id: string; memberId: string }> }) => {
+  try {
+    const { id, memberId } = await params
+
+    const member = await prisma.projectMember.findUnique({
+      where: { id: memberId },
+      include: {
+        project: { select: projectAccessSelect(user) }
+      }
+    })
+
+    if (!member || member.projectId !== id) {
+      return NextResponse.json(
+        { error: 'Member not found' },
+        { status: 404 }
+      )
+    }
+
+    // Members may always leave; removing others requires member management
+    if (member.userId !== user.id && !can(user, 'project:manage-members', { project: member.project })) {
+      return NextResponse.json(
+        { error: 'Forbidden' },
+        { status: 403 }
+      )
+    }
+
+    if (member.role === 'OWNER') {
+      const owners = await prisma.projectMember.count({
+        where: { projectId: id, role: 'OWNER' }
+      })
+      if (owners === 1) {
+        return NextResponse.json(
+          { error: 'A project must keep at least one owner' },
+          { status: 400 }
+        )
+      }
+    }
+
+    await prisma.projectMember.delete({
+      where: { id: memberId }
+    })
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error removing member:', error)
+    return NextResponse.json(
+      { error: 'Failed to remove member' },
+      { status: 500 }
+    )
+  }
+})
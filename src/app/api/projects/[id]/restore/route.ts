@@ -0,0 +1,44 @@
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+import { requireAuth } from '@/lib/middleware'
+import { can, projectAccessSelect } from '@/lib/policy'
+
+// POST /api/projects/[id]/restore - Bring a project back from the trash
+export const POST = requireAuth(async (request, user, { params }: { params: Promise<{ id: string }> }) => {
+  try {
+    const { id } = await params
+
+    const project = await prisma.project.findUnique({
+      where: { id, deletedAt: { not: null } },
+      select: projectAccessSelect(user)
+    })
+
+    if (!project || !can(user, 'project:read', { project })) {
+      return NextResponse.json(
+        { error: 'Project not found in trash' },
+        { status: 404 }
+      )
+    }
+
+    // Whoever could delete the project may undo it
+    if (!can(user, 'project:delete', { project })) {
+      return NextResponse.json(
+        { error: 'Forbidden' },
+        { status: 403 }
+      )
+    }
+
+    const restoredProject = await prisma.project.update({
+      where: { id },
+      data: { deletedAt: null }
+    })
+
+    return NextResponse.json(restoredProject)
+  } catch (error) {
+    console.error('Error restoring project:', error)
+    return NextResponse.json(
+      { error: 'Failed to restore project' },
+      { status: 500 }
+    )
+  }
+})
@@ -1,19 +1,24 @@
-import { NextRequest, NextResponse } from 'next/server'
+import { NextResponse } from 'next/server'
+import { Prisma } from '@prisma/client'
 import { prisma } from '@/lib/db'
-import fs from 'fs'
-import path from 'path'
+import { requireAuth } from '@/lib/middleware'
+import { can, isProjectReadOnly, projectAccessSelect } from '@/lib/policy'
+import { liveProjectWhere, purgeDate } from '@/lib/trash'
+import { isProjectStatus } from '@/lib/projectStatus'
+import { deleteStoredImage, projectCoverDir } from '@/lib/images'
 
-export async function GET(
-  request: NextRequest,
-  { params }: { params: Promise<{ id: string }> }
-) {
+// Optional text fields; an empty string clears them
+const isOptionalText = (value: unknown) => value === undefined || value === null || typeof value === 'string'
+
+// GET /api/projects/[id] - Get a project with its tracks
+export const GET = requireAuth(async (request, user, { params }: { params: Promise<{ id: string }> }) => {
   try {
     const { id } = await params
-    console.log('Fetching project with ID:', id)
 
     const project = await prisma.project.findUnique({
       where: { 
-        id: id
+        id: id,
+        ...liveProjectWhere
       },
       include: {
         user: {
@@ -22,9 +27,23 @@ export async function GET(
             email: true
           }
         },
+        members: {
+          include: {
+            user: {
+              select: {
+                id: true,
+                name: true,
+                email: true
+              }
+            }
+          },
+          orderBy: { createdAt: 'asc' }
+        },
         tracks: {
+          where: { deletedAt: null },
           include: {
             audioVersions: {
+              where: { deletedAt: null },
               select: {
                 id: true,
                 versionType: true,
@@ -34,7 +53,7 @@ export async function GET(
             },
             _count: {
               select: {
-                comments: true
+                comments: { where: { deletedAt: null, audioVersion: { deletedAt: null } } }
               }
             }
           },
@@ -46,16 +65,21 @@ export async function GET(
       }
     })
 
-    console.log('Project found:', project ? 'Yes' : 'No')
-
-    if (!project) {
+    if (!project || !can(user, 'project:read', { project })) {
       return NextResponse.json(
         { error: 'Project not found in database' },
         { status: 404 }
       )
     }
 
-    return NextResponse.json(project)
+    // Lets the page hide what the user can't do
+    return NextResponse.json({
+      ...project,
+      canUpdate: can(user, 'project:update', { project }),
+      canChangeStatus: can(user, 'project:change-status', { project }),
+      canEditTracks: can(user, 'track:update', { project }),
+      readOnly: isProjectReadOnly(user, project)
+    })
 
   } catch (error) {
     console.error('Database error:', error)
@@ -64,26 +88,105 @@ export async function GET(
       { status: 500 }
     )
   }
-}
+})
 
-export async function DELETE(
-  request: NextRequest,
-  { params }: { params: Promise<{ id: string }> }
-) {
+// PATCH /api/projects/[id] - Edit project details or change its status
+export const PATCH = requireAuth(async (request, user, { params }: { params: Promise<{ id: string }> }) => {
   try {
     const { id } = await params
-    console.log('Deleting project with ID:', id)
+    const body = await request.json()
+    const { name, artist, description, coverImage, status } = body
+
+    if (name !== undefined && (typeof name !== 'string' || !name.trim())) {
+      return NextResponse.json(
+        { error: 'Name cannot be empty' },
+        { status: 400 }
+      )
+    }
+
+    if (artist !== undefined && (typeof artist !== 'string' || !artist.trim())) {
+      return NextResponse.json(
+        { error: 'Artist cannot be empty' },
+        { status: 400 }
+      )
+    }
+
+    if (!isOptionalText(description) || !isOptionalText(coverImage)) {
+      return NextResponse.json(
+        { error: 'Description and cover image must be text' },
+        { status: 400 }
+      )
+    }
+
+    if (status !== undefined && !isProjectStatus(status)) {
+      return NextResponse.json(
+        { error: 'Valid status is required (ACTIVE, COMPLETED, ARCHIVED)' },
+        { status: 400 }
+      )
+    }
 
-    // First, get the project with all related data to clean up files
     const project = await prisma.project.findUnique({
+      where: { id, ...liveProjectWhere },
+      select: { coverImage: true, ...projectAccessSelect(user) }
+    })
+
+    if (!project || !can(user, 'project:read', { project })) {
+      return NextResponse.json(
+        { error: 'Project not found' },
+        { status: 404 }
+      )
+    }
+
+    // Owners can reopen a read-only project, but not edit it while it's closed
+    const editsDetails = [name, artist, description, coverImage].some(value => value !== undefined)
+    if (editsDetails && !can(user, 'project:update', { project })) {
+      return NextResponse.json(
+        { error: isProjectReadOnly(user, project) ? 'Reopen the project before editing its details' : 'Forbidden' },
+        { status: 403 }
+      )
+    }
+
+    if (status !== undefined && !can(user, 'project:change-status', { project })) {
+      return NextResponse.json(
+        { error: 'Forbidden' },
+        { status: 403 }
+      )
+    }
+
+    const data: Prisma.ProjectUpdateInput = {}
+    if (name !== undefined) data.name = name.trim()
+    if (artist !== undefined) data.artist = artist.trim()
+    if (description !== undefined) data.description = description?.trim() || null
+    if (coverImage !== undefined) data.coverImage = coverImage?.trim() || null
+    if (status !== undefined) data.status = status
+
+    const updatedProject = await prisma.project.update({
       where: { id },
-      include: {
-        tracks: {
-          include: {
-            audioVersions: true
-          }
-        }
-      }
+      data
+    })
+    // Drop the thumbnails of an uploaded cover that was replaced or cleared
+    if (updatedProject.coverImage !== project.coverImage) {
+      await deleteStoredImage(project.coverImage, projectCoverDir(id))
+    }
+
+    return NextResponse.json(updatedProject)
+  } catch (error) {
+    console.error('Error updating project:', error)
+    return NextResponse.json(
+      { error: 'Failed to update project' },
+      { status: 500 }
+    )
+  }
+})
+
+// DELETE /api/projects/[id] - Move a project to the trash
+export const DELETE = requireAuth(async (request, user, { params }: { params: Promise<{ id: string }> }) => {
+  try {
+    const { id } = await params
+
+    const project = await prisma.project.findUnique({
+      where: { id, ...liveProjectWhere },
+      select: projectAccessSelect(user)
     })
 
     if (!project) {
@@ -93,41 +196,35 @@ export async function DELETE(
       )
     }
 
-    // Delete all audio files from filesystem
-    for (const track of project.tracks) {
-      for (const version of track.audioVersions) {
-        try {
-          if (fs.existsSync(version.filePath)) {
-            fs.unlinkSync(version.filePath)
-            console.log('Deleted file:', version.filePath)
-          }
-        } catch (fileError) {
-          console.warn('Failed to delete file:', version.filePath, fileError)
-        }
-      }
+    if (!can(user, 'project:delete', { project })) {
+      return NextResponse.json(
+        { error: 'Forbidden' },
+        { status: 403 }
+      )
     }
 
-    // Delete project directory if it exists
-    const projectDir = path.join(process.cwd(), 'uploads', 'projects', id)
-    if (fs.existsSync(projectDir)) {
-      try {
-        fs.rmSync(projectDir, { recursive: true, force: true })
-        console.log('Deleted project directory:', projectDir)
-      } catch (dirError) {
-        console.warn('Failed to delete project directory:', projectDir, dirError)
-      }
+    const finalVersions = await prisma.audioVersion.count({
+      where: { isFinal: true, track: { projectId: id } }
+    })
+
+    if (finalVersions > 0) {
+      return NextResponse.json(
+        { error: 'Project has approved final versions; an admin must unlock them first' },
+        { status: 409 }
+      )
     }
 
-    // Delete from database (cascade will handle related records)
-    await prisma.project.delete({
-      where: { id }
+    // Files and rows stay until the trash is purged, so it can be restored
+    const deletedProject = await prisma.project.update({
+      where: { id },
+      data: { deletedAt: new Date() },
+      select: { deletedAt: true }
     })
 
-    console.log('Project deleted successfully:', id)
-
     return NextResponse.json({ 
-      message: 'Project deleted successfully',
-      projectId: id 
+      message: 'Project moved to trash',
+      projectId: id,
+      purgeAt: purgeDate(deletedProject.deletedAt!)
     })
 
   } catch (error) {
@@ -137,4 +234,4 @@ export async function DELETE(
       { status: 500 }
     )
   }
-}
\ No newline at end of file
+})
\ No newline at end of file
@@ -0,0 +1,76 @@
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+import { requireAuth } from '@/lib/middleware'
+import { can, projectAccessSelect } from '@/lib/policy'
+import { liveProjectWhere } from '@/lib/trash'
+
+// PUT /api/projects/[id]/tracks/order - Renumber tracks 1..n in the given order
+export const PUT = requireAuth(async (request, user, { params }: { params: Promise<{ id: string }> }) => {
+  try {
+    const { id } = await params
+    const body = await request.json()
+    const { trackIds } = body
+
+    if (!Array.isArray(trackIds) || trackIds.some(trackId => typeof trackId !== 'string')) {
+      return NextResponse.json(
+        { error: 'trackIds must be a list of track IDs' },
+        { status: 400 }
+      )
+    }
+
+    const project = await prisma.project.findUnique({
+      where: { id, ...liveProjectWhere },
+      select: {
+        ...projectAccessSelect(user),
+        tracks: {
+          where: { deletedAt: null },
+          select: { id: true }
+        }
+      }
+    })
+
+    if (!project || !can(user, 'project:read', { project })) {
+      return NextResponse.json(
+        { error: 'Project not found' },
+        { status: 404 }
+      )
+    }
+
+    if (!can(user, 'track:update', { project })) {
+      return NextResponse.json(
+        { error: 'Forbidden' },
+        { status: 403 }
+      )
+    }
+
+    // A partial list would leave duplicate or missing numbers
+    const projectTrackIds = new Set(project.tracks.map(track => track.id))
+    if (
+      trackIds.length !== projectTrackIds.size ||
+      new Set(trackIds).size !== trackIds.length ||
+      trackIds.some(trackId => !projectTrackIds.has(trackId))
+    ) {
+      return NextResponse.json(
+        { error: 'trackIds must list every track in the project exactly once' },
+        { status: 400 }
+      )
+    }
+
+    await prisma.$transaction(
+      trackIds.map((trackId: string, index: number) =>
+        prisma.track.update({
+          where: { id: trackId },
+          data: { trackNumber: index + 1 }
+        })
+      )
+    )
+
+    return NextResponse.json({ trackIds })
+  } catch (error) {
+    console.error('Error reordering tracks:', error)
+    return NextResponse.json(
+      { error: 'Failed to reorder tracks' },
+      { status: 500 }
+    )
+  }
+})
@@ -1,23 +1,27 @@
-import { NextRequest, NextResponse } from 'next/server'
+import { NextResponse } from 'next/server'
 import { prisma } from '@/lib/db'
-import { getAuthUser } from '@/lib/middleware'
+import { requireAuth } from '@/lib/middleware'
+import { readableProjectsWhere } from '@/lib/policy'
+import { liveProjectWhere } from '@/lib/trash'
+import { isProjectStatus } from '@/lib/projectStatus'
 
-// GET /api/projects - Get all projects for authenticated user
-export async function GET(request: NextRequest) {
+// GET /api/projects - Get all projects for authenticated user, optionally ?status=ACTIVE|COMPLETED|ARCHIVED
+export const GET = requireAuth(async (request, user) => {
   try {
-    const user = await getAuthUser(request)
-    
-    if (!user) {
+    const status = new URL(request.url).searchParams.get('status')
+
+    if (status && !isProjectStatus(status)) {
       return NextResponse.json(
-        { error: 'Unauthorized' },
-        { status: 401 }
+        { error: 'Valid status is required (ACTIVE, COMPLETED, ARCHIVED)' },
+        { status: 400 }
       )
     }
 
     const projects = await prisma.project.findMany({
       where: {
-        // Show all projects for admin/engineer, only own projects for clients
-        ...(user.role === 'CLIENT' ? { userId: user.id } : {})
+        ...readableProjectsWhere(user),
+        ...liveProjectWhere,
+        ...(isProjectStatus(status) && { status })
       },
       include: {
         user: {
@@ -27,8 +31,10 @@ export async function GET(request: NextRequest) {
           }
         },
         tracks: {
+          where: { deletedAt: null },
           include: {
             audioVersions: {
+              where: { deletedAt: null },
               select: {
                 id: true,
                 versionType: true
@@ -50,20 +56,11 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
 
 // POST /api/projects - Create new project
-export async function POST(request: NextRequest) {
+export const POST = requireAuth(async (request, user) => {
   try {
-    const user = await getAuthUser(request)
-    
-    if (!user) {
-      return NextResponse.json(
-        { error: 'Unauthorized' },
-        { status: 401 }
-      )
-    }
-
     const body = await request.json()
     const { name, artist, description, coverImage } = body
 
@@ -80,7 +77,10 @@ export async function POST(request: NextRequest) {
         artist,
         description: description || null,
         coverImage: coverImage || null,
-        userId: user.id
+        userId: user.id,
+        members: {
+          create: { userId: user.id, role: 'OWNER' }
+        }
       },
       include: {
         user: {
@@ -101,4 +101,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     )
   }
-}
\ No newline at end of file
+})
\ No newline at end of file
@@ -0,0 +1,269 @@
+import { NextResponse } from 'next/server'
+import { ApprovalStatus } from '@prisma/client'
+import { prisma } from '@/lib/db'
+import { requireAuth } from '@/lib/middleware'
+import { can, projectAccessSelect } from '@/lib/policy'
+import { APPROVAL_STATUSES, getSignOffState } from '@/lib/approvals'
+import { notifyProjectMembers } from '@/lib/notifications'
+import { liveCommentWhere, liveTrackWhere, liveVersionWhere } from '@/lib/trash'
+
+const approvalInclude = {
+  user: {
+    select: {
+      id: true,
+      name: true,
+      role: true
+    }
+  }
+} as const
+
+// GET /api/tracks/[id]/approvals - Sign-off state of every version of a track
+export const GET = requireAuth(async (request, user, { params }: { params: Promise<{ id: string }> }) => {
+  try {
+    const { id } = await params
+
+    const track = await prisma.track.findUnique({
+      where: { id, ...liveTrackWhere },
+      select: {
+        project: {
+          select: {
+            ...projectAccessSelect(user),
+            // Everyone's project role, to label who signed off ("artist", "label"...)
+            members: {
+              select: { userId: true, role: true }
+            }
+          }
+        },
+        audioVersions: {
+          where: { deletedAt: null },
+          select: {
+            id: true,
+            versionType: true,
+            versionNumber: true,
+            isActive: true,
+            isFinal: true,
+            approvals: {
+              include: approvalInclude,
+              orderBy: { updatedAt: 'desc' }
+            }
+          },
+          orderBy: [
+            { versionType: 'asc' },
+            { versionNumber: 'desc' }
+          ]
+        }
+      }
+    })
+
+    if (!track || !can(user, 'track:read', track)) {
+      return NextResponse.json(
+        { error: 'Track not found' },
+        { status: 404 }
+      )
+    }
+
+    const projectRoles = new Map(track.project.members.map(member => [member.userId, member.role]))
+
+    return NextResponse.json(track.audioVersions.map(version => ({
+      audioVersionId: version.id,
+      versionType: version.versionType,
+      versionNumber: version.versionNumber,
+      isActive: version.isActive,
+      isFinal: version.isFinal,
+      signOff: getSignOffState(version.approvals),
+      approvals: version.approvals.map(approval => ({
+        ...approval,
+        projectRole: projectRoles.get(approval.userId) ?? null
+      }))
+    })))
+  } catch (error) {
+    console.error('Error fetching approvals:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch approvals' },
+      { status: 500 }
+    )
+  }
+})
+
+// POST /api/tracks/[id]/approvals - Record (or change) the user's sign-off on a version
+export const POST = requireAuth(async (request, user, { params }: { params: Promise<{ id: string }> }) => {
+  try {
+    const { id: trackId } = await params
+    const body = await request.json()
+    const { audioVersionId, status, notes, commentId } = body
+
+    if (!audioVersionId || !status) {
+      return NextResponse.json(
+        { error: 'audioVersionId and status are required' },
+        { status: 400 }
+      )
+    }
+
+    if (!APPROVAL_STATUSES.includes(status)) {
+      return NextResponse.json(
+        { error: 'Invalid status. Must be APPROVED, REJECTED, or NEEDS_REVISION' },
+        { status: 400 }
+      )
+    }
+
+    const version = await prisma.audioVersion.findUnique({
+      where: { id: audioVersionId, ...liveVersionWhere },
+      select: {
+        trackId: true,
+        versionType: true,
+        versionNumber: true,
+        isFinal: true,
+        track: {
+          select: {
+            name: true,
+            projectId: true,
+            project: { select: projectAccessSelect(user) }
+          }
+        }
+      }
+    })
+
+    if (!version || version.trackId !== trackId) {
+      return NextResponse.json(
+        { error: 'Version not found' },
+        { status: 404 }
+      )
+    }
+
+    if (!can(user, 'version:approve', version.track)) {
+      return NextResponse.json(
+        { error: 'Forbidden' },
+        { status: 403 }
+      )
+    }
+
+    // Sign-offs are frozen once a version is locked as final
+    if (version.isFinal) {
+      return NextResponse.json(
+        { error: 'Version is locked as final' },
+        { status: 409 }
+      )
+    }
+
+    // An approval may point at the comment that prompted it
+    if (commentId) {
+      const comment = await prisma.comment.findUnique({
+        where: { id: commentId, ...liveCommentWhere },
+        select: { trackId: true }
+      })
+      if (!comment || comment.trackId !== trackId) {
+        return NextResponse.json(
+          { error: 'Comment not found' },
+          { status: 404 }
+        )
+      }
+    }
+
+    const data = {
+      status: status as ApprovalStatus,
+      notes: typeof notes === 'string' && notes.trim() ? notes.trim() : null,
+      commentId: commentId || null
+    }
+
+    const approval = await prisma.approval.upsert({
+      where: {
+        audioVersionId_userId: { audioVersionId, userId: user.id }
+      },
+      create: {
+        ...data,
+        audioVersionId,
+        trackId,
+        userId: user.id
+      },
+      update: data,
+      include: approvalInclude
+    })
+
+    const verdict = status === 'APPROVED' ? 'approved' : status === 'REJECTED' ? 'rejected' : 'requested revisions on'
+    await notifyProjectMembers({
+      type: 'APPROVAL',
+      projectId: version.track.projectId,
+      actor: user,
+      message: `${user.name} ${verdict} ${version.track.name} (${version.versionType.toLowerCase()} v${version.versionNumber})`,
+      link: `/track/${trackId}`,
+      trackId,
+      content: data.notes ?? undefined
+    })
+
+    return NextResponse.json(approval, { status: 201 })
+  } catch (error) {
+    console.error('Error recording approval:', error)
+    return NextResponse.json(
+      { error: 'Failed to record approval' },
+      { status: 500 }
+    )
+  }
+})
+
+// DELETE /api/tracks/[id]/approvals?audioVersionId=... - Withdraw the user's sign-off
+export const DELETE = requireAuth(async (request, user, { params }: { params: Promise<{ id: string }> }) => {
+  try {
+    const { id: trackId } = await params
+    const audioVersionId = request.nextUrl.searchParams.get('audioVersionId')
+
+    if (!audioVersionId) {
+      return NextResponse.json(
+        { error: 'audioVersionId is required' },
+        { status: 400 }
+      )
+    }
+
+    const version = await prisma.audioVersion.findUnique({
+      where: { id: audioVersionId, ...liveVersionWhere },
+      select: {
+        trackId: true,
+        isFinal: true,
+        track: {
+          select: {
+            project: { select: projectAccessSelect(user) }
+          }
+        }
+      }
+    })
+
+    if (!version || version.trackId !== trackId) {
+      return NextResponse.json(
+        { error: 'Version not found' },
+        { status: 404 }
+      )
+    }
+
+    if (!can(user, 'version:approve', version.track)) {
+      return NextResponse.json(
+        { error: 'Forbidden' },
+        { status: 403 }
+      )
+    }
+
+    if (version.isFinal) {
+      return NextResponse.json(
+        { error: 'Version is locked as final' },
+        { status: 409 }
+      )
+    }
+
+    const result = await prisma.approval.deleteMany({
+      where: { audioVersionId, trackId, userId: user.id }
+    })
+
+    if (result.count === 0) {
+      return NextResponse.json(
+        { error: 'Approval not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error withdrawing approval:', error)
+    return NextResponse.json(
+      { error: 'Failed to withdraw approval' },
+      { status: 500 }
+    )
+  }
+})
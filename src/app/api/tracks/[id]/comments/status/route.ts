@@ -0,0 +1,128 @@
+import { NextResponse } from 'next/server'
+import { Prisma } from '@prisma/client'
+import { prisma } from '@/lib/db'
+import { requireAuth } from '@/lib/middleware'
+import { can, projectAccessSelect } from '@/lib/policy'
+import { applyStatusChange } from '@/lib/comments'
+import { checkStatusTransition, isCommentStatus } from '@/lib/commentStatus'
+import { publishTrackEvent } from '@/lib/trackEvents'
+import { liveTrackWhere } from '@/lib/trash'
+
+// Everything is changed in one transaction, so keep batches bounded
+const MAX_BULK_COMMENTS = 200
+
+// PATCH /api/tracks/[id]/comments/status - Move many comments on a track to one status
+export const PATCH = requireAuth(async (request, user, { params }: { params: Promise<{ id: string }> }) => {
+  try {
+    const { id: trackId } = await params
+    const body = await request.json()
+    const { status, commentIds, audioVersionId, fromStatus } = body
+
+    if (!isCommentStatus(status)) {
+      return NextResponse.json(
+        { error: 'Invalid status. Must be PENDING, APPROVED, RESOLVED, or REJECTED' },
+        { status: 400 }
+      )
+    }
+
+    if (fromStatus !== undefined && !isCommentStatus(fromStatus)) {
+      return NextResponse.json(
+        { error: 'Invalid fromStatus' },
+        { status: 400 }
+      )
+    }
+
+    if (commentIds !== undefined && (!Array.isArray(commentIds) || commentIds.some(id => typeof id !== 'string'))) {
+      return NextResponse.json(
+        { error: 'commentIds must be an array of comment ids' },
+        { status: 400 }
+      )
+    }
+
+    if (commentIds && commentIds.length > MAX_BULK_COMMENTS) {
+      return NextResponse.json(
+        { error: `At most ${MAX_BULK_COMMENTS} comments can be updated at once` },
+        { status: 400 }
+      )
+    }
+
+    const track = await prisma.track.findUnique({
+      where: { id: trackId, ...liveTrackWhere },
+      select: {
+        project: { select: projectAccessSelect(user) }
+      }
+    })
+
+    if (!track || !can(user, 'track:read', track)) {
+      return NextResponse.json(
+        { error: 'Track not found' },
+        { status: 404 }
+      )
+    }
+
+    // Narrow to the given comments, version or current status; default is every comment on the track
+    const where: Prisma.CommentWhereInput = { trackId, deletedAt: null, audioVersion: { deletedAt: null } }
+    if (commentIds) where.id = { in: commentIds }
+    if (audioVersionId) where.audioVersionId = audioVersionId
+    if (fromStatus) where.status = fromStatus
+
+    // Comments already in the target status are left alone rather than reported
+    where.NOT = { status }
+
+    const comments = await prisma.comment.findMany({
+      where,
+      select: { id: true, status: true, userId: true, audioVersionId: true },
+      take: MAX_BULK_COMMENTS + 1
+    })
+
+    if (comments.length > MAX_BULK_COMMENTS) {
+      return NextResponse.json(
+        { error: `More than ${MAX_BULK_COMMENTS} comments match; narrow the selection with commentIds, audioVersionId or fromStatus` },
+        { status: 400 }
+      )
+    }
+
+    const skipped: { id: string; error: string }[] = []
+    const allowed = comments.filter(comment => {
+      const check = checkStatusTransition(user, comment, track.project, status)
+      if (!check.ok) skipped.push({ id: comment.id, error: check.error })
+      return check.ok
+    })
+
+    const changed = await prisma.$transaction(async (tx) => {
+      const changed: typeof allowed = []
+      for (const comment of allowed) {
+        if (await applyStatusChange(comment, status, user.id, tx)) {
+          changed.push(comment)
+        } else {
+          skipped.push({ id: comment.id, error: 'Comment status was changed by someone else' })
+        }
+      }
+      return changed
+    })
+
+    for (const comment of changed) {
+      await publishTrackEvent(trackId, 'COMMENT_UPDATED', {
+        commentId: comment.id,
+        audioVersionId: comment.audioVersionId,
+        actorId: user.id
+      })
+    }
+    const updated = changed.map(comment => comment.id)
+
+    if (updated.length === 0 && skipped.length > 0) {
+      return NextResponse.json(
+        { error: 'No comments could be updated', updated, skipped },
+        { status: 409 }
+      )
+    }
+
+    return NextResponse.json({ updated, skipped })
+  } catch (error) {
+    console.error('Error bulk updating comment status:', error)
+    return NextResponse.json(
+      { error: 'Failed to update comment statuses' },
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,127 @@
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+import { requireAuth } from '@/lib/middleware'
+import { can, projectAccessSelect } from '@/lib/policy'
+import { getLatestTrackEventId, getRecentTrackEvents, getTrackEventsSince, TRACK_EVENT_OVERLAP_MS } from '@/lib/trackEvents'
+import { liveTrackWhere } from '@/lib/trash'
+
+// Events are published from other requests and the worker, so the stream polls.
+// Each open stream costs one query on the (trackId, id) index per interval,
+// i.e. half a query a second per open track page.
+const POLL_INTERVAL_MS = 2000
+// Keeps proxies from closing an idle connection
+const HEARTBEAT_INTERVAL_MS = 15000
+
+export const dynamic = 'force-dynamic'
+
+// GET /api/tracks/[id]/events - Stream live comment and version changes (Server-Sent Events)
+export const GET = requireAuth(async (request, user, { params }: { params: Promise<{ id: string }> }) => {
+  try {
+    const { id: trackId } = await params
+
+    const track = await prisma.track.findUnique({
+      where: { id: trackId, ...liveTrackWhere },
+      select: {
+        project: { select: projectAccessSelect(user) }
+      }
+    })
+
+    if (!track || !can(user, 'track:read', track)) {
+      return NextResponse.json(
+        { error: 'Track not found' },
+        { status: 404 }
+      )
+    }
+
+    // EventSource sends Last-Event-ID when it reconnects, so nothing is missed
+    const lastEventId = Number(request.headers.get('last-event-id'))
+    let cursor = Number.isInteger(lastEventId) && lastEventId > 0
+      ? lastEventId
+      : await getLatestTrackEventId(trackId)
+
+    // Events at or before the cursor were sent already (or predate the
+    // stream); anything else showing up in the overlap window is new
+    const sent = new Map<number, Date>()
+    for (const event of await getRecentTrackEvents(trackId, cursor)) {
+      sent.set(event.id, event.createdAt)
+    }
+
+    const encoder = new TextEncoder()
+    let pollTimer: ReturnType<typeof setInterval> | undefined
+    let heartbeatTimer: ReturnType<typeof setInterval> | undefined
+
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        let closed = false
+        let polling = false
+
+        const close = () => {
+          if (closed) return
+          closed = true
+          clearInterval(pollTimer)
+          clearInterval(heartbeatTimer)
+          try {
+            controller.close()
+          } catch {
+            // Already closed by the client
+          }
+        }
+
+        const send = (chunk: string) => {
+          if (!closed) controller.enqueue(encoder.encode(chunk))
+        }
+
+        const poll = async () => {
+          if (closed || polling) return
+          polling = true
+          try {
+            const events = await getTrackEventsSince(trackId, cursor, [...sent.keys()])
+            for (const event of events) {
+              cursor = Math.max(cursor, event.id)
+              sent.set(event.id, event.createdAt)
+              const data = JSON.stringify({ ...(event.payload as object), createdAt: event.createdAt })
+              // The id is the cursor, not the event's own, so a late event
+              // doesn't rewind where a reconnect resumes from
+              send(`id: ${cursor}\nevent: ${event.type}\ndata: ${data}\n\n`)
+            }
+
+            // Ids older than the overlap window can't come back
+            const horizon = Date.now() - TRACK_EVENT_OVERLAP_MS
+            for (const [id, createdAt] of sent) {
+              if (createdAt.getTime() < horizon) sent.delete(id)
+            }
+          } catch (error) {
+            console.error('Error polling track events:', error)
+          } finally {
+            polling = false
+          }
+        }
+
+        // Tell the browser how long to wait before reconnecting
+        send('retry: 5000\n\n')
+        pollTimer = setInterval(poll, POLL_INTERVAL_MS)
+        heartbeatTimer = setInterval(() => send(': heartbeat\n\n'), HEARTBEAT_INTERVAL_MS)
+        request.signal.addEventListener('abort', close)
+      },
+      cancel() {
+        clearInterval(pollTimer)
+        clearInterval(heartbeatTimer)
+      }
+    })
+
+    return new Response(stream, {
+      headers: {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache, no-transform',
+        'Connection': 'keep-alive',
+        'X-Accel-Buffering': 'no'
+      }
+    })
+  } catch (error) {
+    console.error('Error opening track event stream:', error)
+    return NextResponse.json(
+      { error: 'Failed to open event stream' },
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,57 @@
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+import { requireAuth } from '@/lib/middleware'
+import { can, projectAccessSelect } from '@/lib/policy'
+
+// POST /api/tracks/[id]/restore - Bring a track back from the trash
+export const POST = requireAuth(async (request, user, { params }: { params: Promise<{ id: string }> }) => {
+  try {
+    const { id } = await params
+
+    const track = await prisma.track.findUnique({
+      where: { id, deletedAt: { not: null } },
+      select: {
+        project: {
+          select: {
+            deletedAt: true,
+            ...projectAccessSelect(user)
+          }
+        }
+      }
+    })
+
+    if (!track || !can(user, 'track:read', track)) {
+      return NextResponse.json(
+        { error: 'Track not found in trash' },
+        { status: 404 }
+      )
+    }
+
+    if (!can(user, 'track:delete', track)) {
+      return NextResponse.json(
+        { error: 'Forbidden' },
+        { status: 403 }
+      )
+    }
+
+    if (track.project.deletedAt) {
+      return NextResponse.json(
+        { error: 'The project is in the trash; restore it first' },
+        { status: 409 }
+      )
+    }
+
+    const restoredTrack = await prisma.track.update({
+      where: { id },
+      data: { deletedAt: null }
+    })
+
+    return NextResponse.json(restoredTrack)
+  } catch (error) {
+    console.error('Error restoring track:', error)
+    return NextResponse.json(
+      { error: 'Failed to restore track' },
+      { status: 500 }
+    )
+  }
+})
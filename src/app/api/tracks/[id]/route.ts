@@ -1,19 +1,24 @@
-import { NextRequest, NextResponse } from 'next/server'
+import { NextResponse } from 'next/server'
+import { Prisma } from '@prisma/client'
 import { prisma } from '@/lib/db'
-import { promises as fs } from 'fs'
-import path from 'path'
+import { requireAuth } from '@/lib/middleware'
+import { can, isProjectReadOnly, projectAccessSelect } from '@/lib/policy'
+import { commentInclude } from '@/lib/comments'
+import { storageKeyFromFilePath } from '@/lib/storage'
+import { signStreamUrl } from '@/lib/streamUrls'
+import { liveTrackWhere, purgeDate } from '@/lib/trash'
+import { normalizeIsrc, parseCredits } from '@/lib/tracks'
 
-export async function GET(
-  request: NextRequest,
-  { params }: { params: Promise<{ id: string }> }
-) {
+// GET /api/tracks/[id] - Get a track with its versions and comments
+export const GET = requireAuth(async (request, user, { params }: { params: Promise<{ id: string }> }) => {
   try {
     const { id } = await params
     console.log('Fetching track with ID:', id)
 
     const track = await prisma.track.findUnique({
       where: { 
-        id: id
+        id: id,
+        ...liveTrackWhere
       },
       include: {
         project: {
@@ -22,10 +27,12 @@ export async function GET(
             name: true,
             artist: true,
             coverImage: true,
-            userId: true
+            userId: true,
+            ...projectAccessSelect(user)
           }
         },
         audioVersions: {
+          where: { deletedAt: null },
           select: {
             id: true,
             versionType: true,
@@ -38,41 +45,15 @@ export async function GET(
           }
         },
         comments: {
-          include: {
-            user: {
-              select: {
-                id: true,
-                name: true,
-                email: true,
-                role: true
-              }
-            },
-            replies: {
-              include: {
-                comment: {
-                  include: {
-                    user: {
-                      select: {
-                        id: true,
-                        name: true,
-                        role: true
-                      }
-                    }
-                  }
-                }
-              },
-              orderBy: {
-                createdAt: 'asc'
-              }
-            }
-          },
+          where: { deletedAt: null, audioVersion: { deletedAt: null } },
+          include: commentInclude,
           orderBy: {
             timestampMs: 'asc'
           }
         },
         _count: {
           select: {
-            comments: true
+            comments: { where: { deletedAt: null, audioVersion: { deletedAt: null } } }
           }
         }
       }
@@ -80,14 +61,23 @@ export async function GET(
 
     console.log('Track found:', track ? 'Yes' : 'No')
 
-    if (!track) {
+    if (!track || !can(user, 'track:read', track)) {
       return NextResponse.json(
         { error: 'Track not found in database' },
         { status: 404 }
       )
     }
 
-    return NextResponse.json(track)
+    // Signed URLs let the player stream without relying on the session cookie
+    return NextResponse.json({
+      ...track,
+      canUpdate: can(user, 'track:update', track),
+      readOnly: isProjectReadOnly(user, track.project),
+      audioVersions: track.audioVersions.map(version => ({
+        ...version,
+        streamUrl: signStreamUrl(storageKeyFromFilePath(version.filePath))
+      }))
+    })
 
   } catch (error) {
     console.error('Database error:', error)
@@ -96,40 +86,125 @@ export async function GET(
       { status: 500 }
     )
   }
-}
+})
 
-// DELETE /api/tracks/[id] - Remove a track and its audio files
-export async function DELETE(
-  request: NextRequest,
-  { params }: { params: Promise<{ id: string }> }
-) {
+// PATCH /api/tracks/[id] - Edit track details and delivery metadata
+export const PATCH = requireAuth(async (request, user, { params }: { params: Promise<{ id: string }> }) => {
+  try {
+    const { id } = await params
+    const body = await request.json()
+    const { name, trackNumber, bpm, key, isrc, writers, producers, explicit } = body
+
+    const data: Prisma.TrackUpdateInput = {}
+
+    if (name !== undefined) {
+      if (typeof name !== 'string' || !name.trim()) {
+        return NextResponse.json({ error: 'Track name cannot be empty' }, { status: 400 })
+      }
+      data.name = name.trim()
+    }
+
+    // Numbers may be cleared with null
+    for (const [field, value, max] of [['trackNumber', trackNumber, 999], ['bpm', bpm, 300]] as const) {
+      if (value === undefined) continue
+      if (value !== null && (!Number.isInteger(value) || value < 1 || value > max)) {
+        return NextResponse.json({ error: `${field} must be a whole number from 1 to ${max}` }, { status: 400 })
+      }
+      data[field] = value
+    }
+
+    if (key !== undefined) {
+      if (key !== null && typeof key !== 'string') {
+        return NextResponse.json({ error: 'Key must be text' }, { status: 400 })
+      }
+      data.key = key?.trim() || null
+    }
+
+    if (isrc !== undefined) {
+      if (isrc === null || isrc === '') {
+        data.isrc = null
+      } else {
+        const normalized = typeof isrc === 'string' ? normalizeIsrc(isrc) : null
+        if (!normalized) {
+          return NextResponse.json({ error: 'ISRC must look like CC-XXX-YY-NNNNN' }, { status: 400 })
+        }
+        data.isrc = normalized
+      }
+    }
+
+    for (const [field, value] of [['writers', writers], ['producers', producers]] as const) {
+      if (value === undefined) continue
+      const credits = parseCredits(value)
+      if (!credits) {
+        return NextResponse.json({ error: `${field} must be a list of names` }, { status: 400 })
+      }
+      data[field] = credits
+    }
+
+    if (explicit !== undefined) {
+      if (typeof explicit !== 'boolean') {
+        return NextResponse.json({ error: 'explicit must be true or false' }, { status: 400 })
+      }
+      data.explicit = explicit
+    }
+
+    const track = await prisma.track.findUnique({
+      where: { id, ...liveTrackWhere },
+      select: {
+        project: { select: projectAccessSelect(user) }
+      }
+    })
+
+    if (!track || !can(user, 'track:read', track)) {
+      return NextResponse.json({ error: 'Track not found' }, { status: 404 })
+    }
+
+    if (!can(user, 'track:update', track)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const updatedTrack = await prisma.track.update({
+      where: { id },
+      data
+    })
+
+    return NextResponse.json(updatedTrack)
+  } catch (error) {
+    console.error('Error updating track:', error)
+    return NextResponse.json({ error: 'Failed to update track' }, { status: 500 })
+  }
+})
+
+// DELETE /api/tracks/[id] - Move a track to the trash
+export const DELETE = requireAuth(async (request, user, { params }: { params: Promise<{ id: string }> }) => {
   try {
     const { id } = await params;
     // Find the track and its audio versions
     const track = await prisma.track.findUnique({
-      where: { id },
+      where: { id, ...liveTrackWhere },
       include: {
-        project: { select: { id: true } },
-        audioVersions: true
+        project: { select: projectAccessSelect(user) },
+        audioVersions: { where: { deletedAt: null } }
       }
     });
     if (!track) {
       return NextResponse.json({ error: 'Track not found' }, { status: 404 });
     }
-    // Delete audio files from disk
-    const projectId = track.project.id;
-    const uploadDir = path.join(process.cwd(), 'uploads', 'projects', projectId, id);
-    try {
-      await fs.rm(uploadDir, { recursive: true, force: true });
-    } catch (err) {
-      // Log but don't fail if files are missing
-      console.error('Error deleting files:', err);
+    if (!can(user, 'track:delete', track)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+    if (track.audioVersions.some(version => version.isFinal)) {
+      return NextResponse.json({ error: 'Track has an approved final version; an admin must unlock it first' }, { status: 409 });
     }
-    // Delete audioVersions and track from DB (cascade should handle audioVersions if set)
-    await prisma.track.delete({ where: { id } });
-    return NextResponse.json({ success: true });
+    // Files and rows stay until the trash is purged, so it can be restored
+    const deletedTrack = await prisma.track.update({
+      where: { id },
+      data: { deletedAt: new Date() },
+      select: { deletedAt: true }
+    });
+    return NextResponse.json({ success: true, purgeAt: purgeDate(deletedTrack.deletedAt!) });
   } catch (error) {
     console.error('Error deleting track:', error);
     return NextResponse.json({ error: 'Failed to delete track' }, { status: 500 });
   }
-}
\ No newline at end of file
+})
\ No newline at end of file
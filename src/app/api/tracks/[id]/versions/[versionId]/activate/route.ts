@@ -1,12 +1,15 @@
-import { NextRequest, NextResponse } from 'next/server'
-import { PrismaClient } from '@prisma/client'
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+import { requireAuth } from '@/lib/middleware'
+import { can, projectAccessSelect } from '@/lib/policy'
+import { findFinalVersion, finalVersionLockedMessage } from '@/lib/finalVersions'
+import { publishTrackEvent } from '@/lib/trackEvents'
+import { liveVersionWhere } from '@/lib/trash'
+import { syncTrackDuration } from '@/lib/tracks'
+import { withNumberFileSize } from '@/lib/uploads'
 
-const prisma = new PrismaClient()
-
-export async function PUT(
-  request: NextRequest,
-  { params }: { params: Promise<{ id: string; versionId: string }> }
-) {
+// PUT /api/tracks/[id]/versions/[versionId]/activate - Make a version the active one for its type
+export const PUT = requireAuth(async (request, user, { params }: { params: Promise<{ id: string; versionId: string }> }) => {
   try {
     const resolvedParams = await params
     const trackId = resolvedParams.id
@@ -14,7 +17,14 @@ export async function PUT(
 
     // Get the version to activate
     const versionToActivate = await prisma.audioVersion.findUnique({
-      where: { id: versionId }
+      where: { id: versionId, ...liveVersionWhere },
+      include: {
+        track: {
+          select: {
+            project: { select: projectAccessSelect(user) }
+          }
+        }
+      }
     })
 
     if (!versionToActivate || versionToActivate.trackId !== trackId) {
@@ -24,6 +34,22 @@ export async function PUT(
       )
     }
 
+    if (!can(user, 'version:activate', versionToActivate.track)) {
+      return NextResponse.json(
+        { error: 'Forbidden' },
+        { status: 403 }
+      )
+    }
+
+    // A final version stays active until an admin unlocks it
+    const finalVersion = await findFinalVersion(trackId, versionToActivate.versionType)
+    if (finalVersion && finalVersion.id !== versionId) {
+      return NextResponse.json(
+        { error: finalVersionLockedMessage(versionToActivate.versionType, finalVersion.versionNumber) },
+        { status: 409 }
+      )
+    }
+
     // Deactivate all other versions of the same type
     await prisma.audioVersion.updateMany({
       where: {
@@ -41,7 +67,17 @@ export async function PUT(
       data: { isActive: true }
     })
 
-    return NextResponse.json(updatedVersion)
+    if (updatedVersion.versionType === 'STEREO') {
+      await syncTrackDuration(trackId)
+    }
+
+    await publishTrackEvent(trackId, 'VERSION_ACTIVATED', {
+      versionId,
+      versionType: updatedVersion.versionType,
+      actorId: user.id
+    })
+
+    return NextResponse.json(withNumberFileSize(updatedVersion))
   } catch {
     console.error('Error activating version')
     return NextResponse.json(
@@ -49,4 +85,4 @@ export async function PUT(
       { status: 500 }
     )
   }
-}
\ No newline at end of file
+})
\ No newline at end of file
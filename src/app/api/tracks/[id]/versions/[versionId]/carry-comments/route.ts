@@ -0,0 +1,78 @@
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+import { requireAuth } from '@/lib/middleware'
+import { can, projectAccessSelect } from '@/lib/policy'
+import { carryForwardComments } from '@/lib/comments'
+import { publishTrackEvent } from '@/lib/trackEvents'
+import { liveVersionWhere } from '@/lib/trash'
+
+// POST /api/tracks/[id]/versions/[versionId]/carry-comments - Copy open comments from an earlier version
+export const POST = requireAuth(async (request, user, { params }: { params: Promise<{ id: string; versionId: string }> }) => {
+  try {
+    const { id: trackId, versionId } = await params
+    const body = await request.json().catch(() => ({}))
+    const { fromVersionId } = body
+
+    const version = await prisma.audioVersion.findUnique({
+      where: { id: versionId, ...liveVersionWhere },
+      select: {
+        trackId: true,
+        versionType: true,
+        versionNumber: true,
+        track: {
+          select: {
+            project: { select: projectAccessSelect(user) }
+          }
+        }
+      }
+    })
+
+    if (!version || version.trackId !== trackId || !can(user, 'version:read', version.track)) {
+      return NextResponse.json(
+        { error: 'Version not found' },
+        { status: 404 }
+      )
+    }
+
+    if (!can(user, 'version:upload', version.track)) {
+      return NextResponse.json(
+        { error: 'Forbidden' },
+        { status: 403 }
+      )
+    }
+
+    // Default to the version just before this one of the same type
+    const source = await prisma.audioVersion.findFirst({
+      where: fromVersionId
+        ? { id: fromVersionId, trackId, deletedAt: null }
+        : { trackId, versionType: version.versionType, versionNumber: { lt: version.versionNumber }, deletedAt: null },
+      orderBy: { versionNumber: 'desc' },
+      select: { id: true }
+    })
+
+    if (!source || source.id === versionId) {
+      return NextResponse.json(
+        { error: 'No earlier version to carry comments from' },
+        { status: 404 }
+      )
+    }
+
+    const carried = await prisma.$transaction(tx => carryForwardComments(source.id, versionId, tx))
+
+    if (carried > 0) {
+      await publishTrackEvent(trackId, 'COMMENT_CREATED', {
+        audioVersionId: versionId,
+        carried,
+        actorId: user.id
+      })
+    }
+
+    return NextResponse.json({ carried, fromVersionId: source.id })
+  } catch (error) {
+    console.error('Error carrying comments forward:', error)
+    return NextResponse.json(
+      { error: 'Failed to carry comments forward' },
+      { status: 500 }
+    )
+  }
+})
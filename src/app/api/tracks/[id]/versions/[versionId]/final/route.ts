@@ -0,0 +1,181 @@
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+import { requireAuth } from '@/lib/middleware'
+import { can, projectAccessSelect } from '@/lib/policy'
+import { getSignOffState } from '@/lib/approvals'
+import { publishTrackEvent } from '@/lib/trackEvents'
+import { liveVersionWhere } from '@/lib/trash'
+
+const finalVersionSelect = {
+  id: true,
+  isFinal: true,
+  finalizedAt: true,
+  finalizedBy: {
+    select: {
+      id: true,
+      name: true
+    }
+  }
+} as const
+
+// POST /api/tracks/[id]/versions/[versionId]/final - Lock an approved version as the final
+export const POST = requireAuth(async (request, user, { params }: { params: Promise<{ id: string; versionId: string }> }) => {
+  try {
+    const { id: trackId, versionId } = await params
+
+    const version = await prisma.audioVersion.findUnique({
+      where: { id: versionId, ...liveVersionWhere },
+      select: {
+        trackId: true,
+        isActive: true,
+        isFinal: true,
+        approvals: { select: { status: true } },
+        track: {
+          select: {
+            project: { select: projectAccessSelect(user) }
+          }
+        }
+      }
+    })
+
+    if (!version || version.trackId !== trackId || !can(user, 'version:read', version.track)) {
+      return NextResponse.json(
+        { error: 'Version not found' },
+        { status: 404 }
+      )
+    }
+
+    if (!can(user, 'version:finalize', version.track)) {
+      return NextResponse.json(
+        { error: 'Forbidden' },
+        { status: 403 }
+      )
+    }
+
+    if (version.isFinal) {
+      return NextResponse.json(
+        { error: 'Version is already final' },
+        { status: 409 }
+      )
+    }
+
+    if (!version.isActive) {
+      return NextResponse.json(
+        { error: 'Only the active version can be marked final' },
+        { status: 409 }
+      )
+    }
+
+    if (getSignOffState(version.approvals) !== 'APPROVED') {
+      return NextResponse.json(
+        { error: 'Version must be approved before it can be marked final' },
+        { status: 409 }
+      )
+    }
+
+    const updatedVersion = await prisma.audioVersion.update({
+      where: { id: versionId },
+      data: {
+        isFinal: true,
+        finalizedAt: new Date(),
+        finalizedById: user.id
+      },
+      select: finalVersionSelect
+    })
+
+    await publishTrackEvent(trackId, 'VERSION_UPDATED', {
+      versionId,
+      actorId: user.id
+    })
+
+    return NextResponse.json(updatedVersion)
+  } catch (error) {
+    console.error('Error finalizing version:', error)
+    return NextResponse.json(
+      { error: 'Failed to mark version final' },
+      { status: 500 }
+    )
+  }
+})
+
+// DELETE /api/tracks/[id]/versions/[versionId]/final - Admin override to unlock a final version
+export const DELETE = requireAuth(async (request, user, { params }: { params: Promise<{ id: string; versionId: string }> }) => {
+  try {
+    const { id: trackId, versionId } = await params
+    const body = await request.json().catch(() => ({}))
+    const reason = typeof body.reason === 'string' ? body.reason.trim() : ''
+
+    const version = await prisma.audioVersion.findUnique({
+      where: { id: versionId, ...liveVersionWhere },
+      select: {
+        trackId: true,
+        isFinal: true,
+        track: {
+          select: {
+            project: { select: projectAccessSelect(user) }
+          }
+        }
+      }
+    })
+
+    if (!version || version.trackId !== trackId || !can(user, 'version:read', version.track)) {
+      return NextResponse.json(
+        { error: 'Version not found' },
+        { status: 404 }
+      )
+    }
+
+    if (!can(user, 'version:unlock-final', version.track)) {
+      return NextResponse.json(
+        { error: 'Forbidden' },
+        { status: 403 }
+      )
+    }
+
+    if (!reason) {
+      return NextResponse.json(
+        { error: 'A reason is required to unlock a final version' },
+        { status: 400 }
+      )
+    }
+
+    if (!version.isFinal) {
+      return NextResponse.json(
+        { error: 'Version is not final' },
+        { status: 409 }
+      )
+    }
+
+    const [updatedVersion] = await prisma.$transaction([
+      prisma.audioVersion.update({
+        where: { id: versionId },
+        data: {
+          isFinal: false,
+          finalizedAt: null,
+          finalizedById: null
+        },
+        select: finalVersionSelect
+      }),
+      prisma.finalVersionUnlock.create({
+        data: {
+          reason,
+          audioVersionId: versionId,
+          userId: user.id
+        }
+      })
+    ])
+
+    await publishTrackEvent(trackId, 'VERSION_UPDATED', {
+      versionId,
+      actorId: user.id
+    })
+
+    return NextResponse.json(updatedVersion)
+  } catch (error) {
+    console.error('Error unlocking final version:', error)
+    return NextResponse.json(
+      { error: 'Failed to unlock version' },
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,95 @@
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+import { requireAuth } from '@/lib/middleware'
+import { can, projectAccessSelect } from '@/lib/policy'
+import { publishTrackEvent } from '@/lib/trackEvents'
+import { syncTrackDuration } from '@/lib/tracks'
+import { withNumberFileSize } from '@/lib/uploads'
+
+// POST /api/tracks/[id]/versions/[versionId]/restore - Bring a version and its comments back from the trash
+export const POST = requireAuth(async (request, user, { params }: { params: Promise<{ id: string; versionId: string }> }) => {
+  try {
+    const { id: trackId, versionId } = await params
+
+    const version = await prisma.audioVersion.findUnique({
+      where: { id: versionId, deletedAt: { not: null } },
+      select: {
+        trackId: true,
+        versionType: true,
+        track: {
+          select: {
+            deletedAt: true,
+            project: {
+              select: {
+                deletedAt: true,
+                ...projectAccessSelect(user)
+              }
+            }
+          }
+        }
+      }
+    })
+
+    if (!version || version.trackId !== trackId || !can(user, 'version:read', version.track)) {
+      return NextResponse.json(
+        { error: 'Version not found in trash' },
+        { status: 404 }
+      )
+    }
+
+    if (!can(user, 'version:delete', version.track)) {
+      return NextResponse.json(
+        { error: 'Forbidden' },
+        { status: 403 }
+      )
+    }
+
+    if (version.track.deletedAt || version.track.project.deletedAt) {
+      return NextResponse.json(
+        { error: 'The track is in the trash; restore it first' },
+        { status: 409 }
+      )
+    }
+
+    // The restored version only becomes active if its type has none left
+    const activeVersion = await prisma.audioVersion.findFirst({
+      where: {
+        trackId,
+        versionType: version.versionType,
+        isActive: true,
+        deletedAt: null
+      },
+      select: { id: true }
+    })
+
+    const restoredVersion = await prisma.audioVersion.update({
+      where: { id: versionId },
+      data: {
+        deletedAt: null,
+        isActive: !activeVersion
+      },
+      // Peaks are served by the waveform endpoint
+      omit: {
+        waveformData: true
+      }
+    })
+
+    if (restoredVersion.isActive && restoredVersion.versionType === 'STEREO') {
+      await syncTrackDuration(trackId)
+    }
+
+    await publishTrackEvent(trackId, 'VERSION_UPDATED', {
+      versionId,
+      versionType: restoredVersion.versionType,
+      actorId: user.id
+    })
+
+    return NextResponse.json(withNumberFileSize(restoredVersion))
+  } catch (error) {
+    console.error('Error restoring version:', error)
+    return NextResponse.json(
+      { error: 'Failed to restore version' },
+      { status: 500 }
+    )
+  }
+})
@@ -1,14 +1,13 @@
-import { NextRequest, NextResponse } from 'next/server'
-import { PrismaClient } from '@prisma/client'
-import fs from 'fs'
-import path from 'path'
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+import { requireAuth } from '@/lib/middleware'
+import { can, projectAccessSelect } from '@/lib/policy'
+import { liveVersionWhere, purgeDate } from '@/lib/trash'
+import { syncTrackDuration } from '@/lib/tracks'
+import { publishTrackEvent } from '@/lib/trackEvents'
 
-const prisma = new PrismaClient()
-
-export async function DELETE(
-  request: NextRequest,
-  { params }: { params: Promise<{ id: string; versionId: string }> }
-) {
+// DELETE /api/tracks/[id]/versions/[versionId] - Move a version to the trash
+export const DELETE = requireAuth(async (request, user, { params }: { params: Promise<{ id: string; versionId: string }> }) => {
   try {
     const resolvedParams = await params
     const trackId = resolvedParams.id
@@ -16,7 +15,14 @@ export async function DELETE(
 
     // Get the version to delete
     const versionToDelete = await prisma.audioVersion.findUnique({
-      where: { id: versionId }
+      where: { id: versionId, ...liveVersionWhere },
+      include: {
+        track: {
+          select: {
+            project: { select: projectAccessSelect(user) }
+          }
+        }
+      }
     })
 
     if (!versionToDelete || versionToDelete.trackId !== trackId) {
@@ -26,11 +32,26 @@ export async function DELETE(
       )
     }
 
+    if (!can(user, 'version:delete', versionToDelete.track)) {
+      return NextResponse.json(
+        { error: 'Forbidden' },
+        { status: 403 }
+      )
+    }
+
+    if (versionToDelete.isFinal) {
+      return NextResponse.json(
+        { error: 'This version is locked as the approved final and cannot be deleted' },
+        { status: 409 }
+      )
+    }
+
     // Check if this is the only version of this type
     const sameTypeVersions = await prisma.audioVersion.findMany({
       where: {
         trackId: trackId,
-        versionType: versionToDelete.versionType
+        versionType: versionToDelete.versionType,
+        deletedAt: null
       }
     })
 
@@ -41,35 +62,20 @@ export async function DELETE(
       )
     }
 
-    // Delete associated comments first
-    await prisma.comment.deleteMany({
-      where: {
-        audioVersionId: versionId
-      }
-    })
-
-    // Delete the audio version record
-    await prisma.audioVersion.delete({
-      where: { id: versionId }
+    // The file and the version's comments stay until the trash is purged
+    const deletedVersion = await prisma.audioVersion.update({
+      where: { id: versionId },
+      data: { deletedAt: new Date(), isActive: false },
+      select: { deletedAt: true }
     })
 
-    // Delete the physical file
-    try {
-      const fullPath = path.join(process.cwd(), versionToDelete.filePath.replace(/^\//, ''))
-      if (fs.existsSync(fullPath)) {
-        fs.unlinkSync(fullPath)
-      }
-    } catch (fileError) {
-      console.error('Error deleting file:', fileError)
-      // Continue even if file deletion fails
-    }
-
     // If the deleted version was active, make the latest version of the same type active
     if (versionToDelete.isActive) {
       const latestVersion = await prisma.audioVersion.findFirst({
         where: {
           trackId: trackId,
-          versionType: versionToDelete.versionType
+          versionType: versionToDelete.versionType,
+          deletedAt: null
         },
         orderBy: {
           versionNumber: 'desc'
@@ -82,9 +88,19 @@ export async function DELETE(
           data: { isActive: true }
         })
       }
+
+      if (versionToDelete.versionType === 'STEREO') {
+        await syncTrackDuration(trackId)
+      }
     }
 
-    return NextResponse.json({ success: true })
+    await publishTrackEvent(trackId, 'VERSION_UPDATED', {
+      versionId,
+      versionType: versionToDelete.versionType,
+      actorId: user.id
+    })
+
+    return NextResponse.json({ success: true, purgeAt: purgeDate(deletedVersion.deletedAt!) })
   } catch {
     console.error('Error deleting version')
     return NextResponse.json(
@@ -92,4 +108,4 @@ export async function DELETE(
       { status: 500 }
     )
   }
-}
\ No newline at end of file
+})
\ No newline at end of file
@@ -0,0 +1,74 @@
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+import { requireAuth } from '@/lib/middleware'
+import { can, projectAccessSelect } from '@/lib/policy'
+import type { WaveformData } from '@/lib/audioProcessing'
+import { liveVersionWhere } from '@/lib/trash'
+
+// GET /api/tracks/[id]/versions/[versionId]/waveform?width=1024 - Get waveform peaks
+export const GET = requireAuth(async (request, user, { params }: { params: Promise<{ id: string; versionId: string }> }) => {
+  try {
+    const { id: trackId, versionId } = await params
+    const requestedWidth = parseInt(request.nextUrl.searchParams.get('width') || '', 10)
+
+    const version = await prisma.audioVersion.findUnique({
+      where: { id: versionId, ...liveVersionWhere },
+      select: {
+        trackId: true,
+        waveformData: true,
+        track: {
+          select: {
+            project: {
+              select: projectAccessSelect(user)
+            }
+          }
+        }
+      }
+    })
+
+    if (!version || version.trackId !== trackId) {
+      return NextResponse.json(
+        { error: 'Version not found' },
+        { status: 404 }
+      )
+    }
+
+    if (!can(user, 'version:read', version.track)) {
+      return NextResponse.json(
+        { error: 'Forbidden' },
+        { status: 403 }
+      )
+    }
+
+    const waveform = version.waveformData as WaveformData | null
+    if (!waveform?.resolutions?.length) {
+      return NextResponse.json(
+        { error: 'Waveform not available for this version' },
+        { status: 404 }
+      )
+    }
+
+    // Smallest stored resolution that covers the requested width, else the most detailed
+    const resolutions = [...waveform.resolutions].sort((a, b) => a.width - b.width)
+    const resolution = (requestedWidth > 0 && resolutions.find(r => r.width >= requestedWidth))
+      || resolutions[resolutions.length - 1]
+
+    return NextResponse.json({
+      duration: waveform.duration,
+      width: resolution.width,
+      peaks: resolution.peaks,
+      availableWidths: resolutions.map(r => r.width)
+    }, {
+      headers: {
+        // Peaks never change for a given version
+        'Cache-Control': 'private, max-age=86400'
+      }
+    })
+  } catch (error) {
+    console.error('Error fetching waveform:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch waveform' },
+      { status: 500 }
+    )
+  }
+})
@@ -1,19 +1,46 @@
-import { NextRequest, NextResponse } from 'next/server'
-import { PrismaClient } from '@prisma/client'
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+import { requireAuth } from '@/lib/middleware'
+import { can, projectAccessSelect } from '@/lib/policy'
+import { liveTrackWhere } from '@/lib/trash'
+import { withNumberFileSize } from '@/lib/uploads'
 
-const prisma = new PrismaClient()
-
-export async function GET(
-  request: NextRequest,
-  { params }: { params: Promise<{ id: string }> }
-) {
+// GET /api/tracks/[id]/versions - List every version of a track
+export const GET = requireAuth(async (request, user, { params }: { params: Promise<{ id: string }> }) => {
   try {
     const { id } = await params
     const trackId = id
 
+    const track = await prisma.track.findUnique({
+      where: { id: trackId, ...liveTrackWhere },
+      select: {
+        project: { select: projectAccessSelect(user) }
+      }
+    })
+
+    if (!track || !can(user, 'version:read', track)) {
+      return NextResponse.json(
+        { error: 'Track not found' },
+        { status: 404 }
+      )
+    }
+
     const versions = await prisma.audioVersion.findMany({
       where: {
-        trackId: trackId
+        trackId: trackId,
+        deletedAt: null
+      },
+      // Peaks are served by the waveform endpoint
+      omit: {
+        waveformData: true
+      },
+      include: {
+        analysisReports: {
+          orderBy: { stage: 'asc' }
+        },
+        finalizedBy: {
+          select: { id: true, name: true }
+        }
       },
       orderBy: [
         { versionType: 'asc' },
@@ -21,7 +48,7 @@ export async function GET(
       ]
     })
 
-    return NextResponse.json(versions)
+    return NextResponse.json(versions.map(withNumberFileSize))
   } catch (error) {
     console.error('Error fetching track versions:', error)
     return NextResponse.json(
@@ -29,4 +56,4 @@ export async function GET(
       { status: 500 }
     )
   }
-}
\ No newline at end of file
+})
\ No newline at end of file
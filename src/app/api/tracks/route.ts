@@ -1,19 +1,12 @@
-import { NextRequest, NextResponse } from 'next/server'
+import { NextResponse } from 'next/server'
 import { prisma } from '@/lib/db'
-import { getAuthUser } from '@/lib/middleware'
+import { requireAuth } from '@/lib/middleware'
+import { can, projectAccessSelect } from '@/lib/policy'
+import { liveProjectWhere } from '@/lib/trash'
 
 // POST /api/tracks - Create new track
-export async function POST(request: NextRequest) {
+export const POST = requireAuth(async (request, user) => {
   try {
-    const user = await getAuthUser(request)
-    
-    if (!user) {
-      return NextResponse.json(
-        { error: 'Unauthorized' },
-        { status: 401 }
-      )
-    }
-
     const body = await request.json()
     const { name, trackNumber, bpm, key, projectId } = body
 
@@ -25,14 +18,12 @@ export async function POST(request: NextRequest) {
     }
 
     // Verify user has access to this project
-    const project = await prisma.project.findFirst({
-      where: { 
-        id: projectId,
-        ...(user.role === 'CLIENT' ? { userId: user.id } : {})
-      }
+    const project = await prisma.project.findUnique({
+      where: { id: projectId, ...liveProjectWhere },
+      select: projectAccessSelect(user)
     })
 
-    if (!project) {
+    if (!project || !can(user, 'track:create', { project })) {
       return NextResponse.json(
         { error: 'Project not found' },
         { status: 404 }
@@ -73,4 +64,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     )
   }
-}
\ No newline at end of file
+})
\ No newline at end of file
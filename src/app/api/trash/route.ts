@@ -0,0 +1,89 @@
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+import { requireAuth } from '@/lib/middleware'
+import { can, projectAccessSelect, readableProjectsWhere } from '@/lib/policy'
+import { TRASH_RETENTION_DAYS, liveProjectWhere, liveTrackWhere, purgeDate } from '@/lib/trash'
+
+const inTrash = { deletedAt: { not: null } }
+
+// GET /api/trash - Deleted projects, tracks and versions the user can restore
+export const GET = requireAuth(async (request, user) => {
+  try {
+    const readable = readableProjectsWhere(user)
+
+    const [projects, tracks, versions] = await Promise.all([
+      prisma.project.findMany({
+        where: { ...readable, ...inTrash },
+        select: {
+          id: true,
+          name: true,
+          artist: true,
+          deletedAt: true,
+          ...projectAccessSelect(user)
+        },
+        orderBy: { deletedAt: 'desc' }
+      }),
+      // Tracks and versions inside a deleted project come back with the project
+      prisma.track.findMany({
+        where: { ...inTrash, project: { ...readable, ...liveProjectWhere } },
+        select: {
+          id: true,
+          name: true,
+          deletedAt: true,
+          project: {
+            select: {
+              id: true,
+              name: true,
+              ...projectAccessSelect(user)
+            }
+          }
+        },
+        orderBy: { deletedAt: 'desc' }
+      }),
+      prisma.audioVersion.findMany({
+        where: { ...inTrash, track: { ...liveTrackWhere, project: { ...readable, ...liveProjectWhere } } },
+        select: {
+          id: true,
+          versionType: true,
+          versionNumber: true,
+          fileName: true,
+          deletedAt: true,
+          _count: { select: { comments: { where: { deletedAt: null } } } },
+          track: {
+            select: {
+              id: true,
+              name: true,
+              project: {
+                select: {
+                  id: true,
+                  name: true,
+                  ...projectAccessSelect(user)
+                }
+              }
+            }
+          }
+        },
+        orderBy: { deletedAt: 'desc' }
+      })
+    ])
+
+    return NextResponse.json({
+      retentionDays: TRASH_RETENTION_DAYS,
+      projects: projects
+        .filter(project => can(user, 'project:delete', { project }))
+        .map(project => ({ ...project, purgeAt: purgeDate(project.deletedAt!) })),
+      tracks: tracks
+        .filter(track => can(user, 'track:delete', track))
+        .map(track => ({ ...track, purgeAt: purgeDate(track.deletedAt!) })),
+      versions: versions
+        .filter(version => can(user, 'version:delete', version.track))
+        .map(version => ({ ...version, purgeAt: purgeDate(version.deletedAt!) }))
+    })
+  } catch (error) {
+    console.error('Error fetching trash:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch trash' },
+      { status: 500 }
+    )
+  }
+})
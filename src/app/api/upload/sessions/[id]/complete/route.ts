@@ -0,0 +1,128 @@
+import { NextResponse } from 'next/server'
+import path from 'path'
+import { prisma } from '@/lib/db'
+import { requireAuth } from '@/lib/middleware'
+import { can, projectAccessSelect } from '@/lib/policy'
+import { findFinalVersion, finalVersionLockedMessage } from '@/lib/finalVersions'
+import { liveTrackWhere } from '@/lib/trash'
+import { listReceivedParts, partCount, uploadSessionInputPath } from '@/lib/uploadSessions'
+
+// POST /api/upload/sessions/[id]/complete - Queue the parts for assembly and processing
+export const POST = requireAuth(async (request, user, { params }: { params: Promise<{ id: string }> }) => {
+  try {
+    const { id } = await params
+
+    const session = await prisma.uploadSession.findUnique({
+      where: { id, userId: user.id },
+      include: {
+        job: { select: { id: true, status: true } }
+      }
+    })
+
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Upload not found' },
+        { status: 404 }
+      )
+    }
+
+    // A retried request after a lost response gets the same job back
+    if (session.completedAt) {
+      if (!session.job) {
+        return NextResponse.json(
+          { error: 'Upload is already complete' },
+          { status: 409 }
+        )
+      }
+      return NextResponse.json({
+        success: true,
+        jobId: session.job.id,
+        status: session.job.status,
+        message: `${session.versionType} upload queued for processing`
+      }, { status: 202 })
+    }
+
+    const receivedParts = await listReceivedParts(id)
+    const missingParts = Array.from({ length: partCount(session) }, (_, index) => index)
+      .filter(index => !receivedParts.includes(index))
+    if (missingParts.length > 0) {
+      return NextResponse.json(
+        { error: `Missing ${missingParts.length} part(s)`, missingParts },
+        { status: 409 }
+      )
+    }
+
+    const track = await prisma.track.findUnique({
+      where: { id: session.trackId, ...liveTrackWhere },
+      select: {
+        project: { select: projectAccessSelect(user) }
+      }
+    })
+
+    if (!track || !can(user, 'version:upload', track)) {
+      return NextResponse.json(
+        { error: 'Track not found or access denied' },
+        { status: 404 }
+      )
+    }
+
+    const finalVersion = await findFinalVersion(session.trackId, session.versionType)
+    if (finalVersion) {
+      return NextResponse.json(
+        { error: finalVersionLockedMessage(session.versionType, finalVersion.versionNumber) },
+        { status: 409 }
+      )
+    }
+
+    // Claim the session and queue its job together, so a concurrent request
+    // can't queue it twice and a failure leaves it ready to complete again.
+    // The worker assembles the parts before processing them.
+    const job = await prisma.$transaction(async (tx) => {
+      const { count } = await tx.uploadSession.updateMany({
+        where: { id, completedAt: null },
+        data: { completedAt: new Date() }
+      })
+      if (count === 0) return null
+
+      const queued = await tx.processingJob.create({
+        data: {
+          trackId: session.trackId,
+          userId: user.id,
+          versionType: session.versionType,
+          originalName: session.originalName,
+          inputPath: uploadSessionInputPath(id, path.extname(session.originalName) || '.wav'),
+          fileSize: session.fileSize,
+          carryComments: session.carryComments,
+          status: 'QUEUED'
+        }
+      })
+
+      await tx.uploadSession.update({
+        where: { id },
+        data: { jobId: queued.id }
+      })
+
+      return queued
+    })
+
+    if (!job) {
+      return NextResponse.json(
+        { error: 'Upload is already complete' },
+        { status: 409 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      jobId: job.id,
+      status: job.status,
+      message: `${session.versionType} upload queued for processing`
+    }, { status: 202 })
+  } catch (error) {
+    console.error('Error completing upload session:', error)
+    return NextResponse.json(
+      { error: 'Failed to complete upload' },
+      { status: 500 }
+    )
+  }
+})
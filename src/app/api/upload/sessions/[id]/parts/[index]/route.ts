@@ -0,0 +1,78 @@
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+import { requireAuth } from '@/lib/middleware'
+import { partCount, uploadSessionExpiry, writeUploadPart } from '@/lib/uploadSessions'
+
+const SHA256_HEX = /^[a-fA-F0-9]{64}$/
+
+// PUT /api/upload/sessions/[id]/parts/[index] - Upload one part as the raw request body
+export const PUT = requireAuth(async (request, user, { params }: { params: Promise<{ id: string; index: string }> }) => {
+  try {
+    const { id, index: indexParam } = await params
+    const index = Number(indexParam)
+
+    // Checked against the bytes received, so a corrupted part is rejected and resent
+    const sha256 = request.headers.get('x-content-sha256')
+    if (!sha256 || !SHA256_HEX.test(sha256)) {
+      return NextResponse.json(
+        { error: 'X-Content-SHA256 header with the part\'s hex SHA-256 is required' },
+        { status: 400 }
+      )
+    }
+
+    const session = await prisma.uploadSession.findUnique({
+      where: { id, userId: user.id, expiresAt: { gt: new Date() } },
+      select: { id: true, fileSize: true, chunkSize: true, completedAt: true }
+    })
+
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Upload not found' },
+        { status: 404 }
+      )
+    }
+
+    if (session.completedAt) {
+      return NextResponse.json(
+        { error: 'Upload is already complete' },
+        { status: 409 }
+      )
+    }
+
+    if (!Number.isInteger(index) || index < 0 || index >= partCount(session)) {
+      return NextResponse.json(
+        { error: `Part index must be between 0 and ${partCount(session) - 1}` },
+        { status: 400 }
+      )
+    }
+
+    if (!request.body) {
+      return NextResponse.json(
+        { error: 'Part body is required' },
+        { status: 400 }
+      )
+    }
+
+    const result = await writeUploadPart(session, index, request.body, sha256)
+    if (!result.ok) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.status }
+      )
+    }
+
+    // Keep slow uploads alive for as long as parts keep arriving
+    await prisma.uploadSession.update({
+      where: { id },
+      data: { expiresAt: uploadSessionExpiry() }
+    })
+
+    return NextResponse.json({ index, size: result.size })
+  } catch (error) {
+    console.error('Error uploading part:', error)
+    return NextResponse.json(
+      { error: 'Failed to upload part' },
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,80 @@
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+import { requireAuth } from '@/lib/middleware'
+import { listReceivedParts, partCount, removeUploadParts } from '@/lib/uploadSessions'
+
+// GET /api/upload/sessions/[id] - Which parts have arrived, for resuming
+export const GET = requireAuth(async (request, user, { params }: { params: Promise<{ id: string }> }) => {
+  try {
+    const { id } = await params
+
+    // Sessions belong to whoever started them
+    const session = await prisma.uploadSession.findUnique({
+      where: { id, userId: user.id, expiresAt: { gt: new Date() } }
+    })
+
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Upload not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      id: session.id,
+      trackId: session.trackId,
+      versionType: session.versionType,
+      fileName: session.originalName,
+      fileSize: Number(session.fileSize),
+      chunkSize: session.chunkSize,
+      partCount: partCount(session),
+      receivedParts: session.completedAt ? [] : await listReceivedParts(session.id),
+      completedAt: session.completedAt,
+      jobId: session.jobId,
+      expiresAt: session.expiresAt
+    })
+  } catch (error) {
+    console.error('Error fetching upload session:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch upload' },
+      { status: 500 }
+    )
+  }
+})
+
+// DELETE /api/upload/sessions/[id] - Abandon an upload and discard its parts
+export const DELETE = requireAuth(async (request, user, { params }: { params: Promise<{ id: string }> }) => {
+  try {
+    const { id } = await params
+
+    const session = await prisma.uploadSession.findUnique({
+      where: { id, userId: user.id },
+      select: { id: true, completedAt: true }
+    })
+
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Upload not found' },
+        { status: 404 }
+      )
+    }
+
+    if (session.completedAt) {
+      return NextResponse.json(
+        { error: 'Upload is already complete' },
+        { status: 409 }
+      )
+    }
+
+    await prisma.uploadSession.delete({ where: { id } })
+    await removeUploadParts(id)
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error cancelling upload session:', error)
+    return NextResponse.json(
+      { error: 'Failed to cancel upload' },
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,107 @@
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+import { requireAuth } from '@/lib/middleware'
+import { can, projectAccessSelect } from '@/lib/policy'
+import { findFinalVersion, finalVersionLockedMessage } from '@/lib/finalVersions'
+import { liveTrackWhere } from '@/lib/trash'
+import {
+  audioFileTypeError,
+  formatUploadLimit,
+  isUploadVersionType,
+  MAX_CHUNKED_UPLOAD_SIZE,
+  UPLOAD_CHUNK_SIZE
+} from '@/lib/uploads'
+import { partCount, uploadSessionExpiry } from '@/lib/uploadSessions'
+
+// POST /api/upload/sessions - Start a chunked, resumable audio upload
+export const POST = requireAuth(async (request, user) => {
+  try {
+    const body = await request.json()
+    const { trackId, versionType, fileName, fileSize, mimeType, carryComments } = body
+
+    if (typeof trackId !== 'string' || typeof fileName !== 'string' || !fileName.trim()) {
+      return NextResponse.json(
+        { error: 'trackId and fileName are required' },
+        { status: 400 }
+      )
+    }
+
+    if (!isUploadVersionType(versionType)) {
+      return NextResponse.json(
+        { error: 'Invalid version type' },
+        { status: 400 }
+      )
+    }
+
+    const typeError = audioFileTypeError(fileName, typeof mimeType === 'string' ? mimeType : '', versionType)
+    if (typeError) {
+      return NextResponse.json(
+        { error: typeError },
+        { status: 400 }
+      )
+    }
+
+    if (!Number.isSafeInteger(fileSize) || fileSize <= 0) {
+      return NextResponse.json(
+        { error: 'fileSize must be a positive number of bytes' },
+        { status: 400 }
+      )
+    }
+
+    if (fileSize > MAX_CHUNKED_UPLOAD_SIZE) {
+      return NextResponse.json(
+        { error: `File size too large. Maximum ${formatUploadLimit(MAX_CHUNKED_UPLOAD_SIZE)}` },
+        { status: 400 }
+      )
+    }
+
+    const track = await prisma.track.findUnique({
+      where: { id: trackId, ...liveTrackWhere },
+      select: {
+        project: { select: projectAccessSelect(user) }
+      }
+    })
+
+    if (!track || !can(user, 'version:upload', track)) {
+      return NextResponse.json(
+        { error: 'Track not found or access denied' },
+        { status: 404 }
+      )
+    }
+
+    const finalVersion = await findFinalVersion(trackId, versionType)
+    if (finalVersion) {
+      return NextResponse.json(
+        { error: finalVersionLockedMessage(versionType, finalVersion.versionNumber) },
+        { status: 409 }
+      )
+    }
+
+    const session = await prisma.uploadSession.create({
+      data: {
+        trackId,
+        userId: user.id,
+        versionType,
+        originalName: fileName.trim(),
+        fileSize,
+        chunkSize: UPLOAD_CHUNK_SIZE,
+        carryComments: carryComments === true,
+        expiresAt: uploadSessionExpiry()
+      }
+    })
+
+    return NextResponse.json({
+      id: session.id,
+      chunkSize: session.chunkSize,
+      partCount: partCount(session),
+      receivedParts: [],
+      expiresAt: session.expiresAt
+    }, { status: 201 })
+  } catch (error) {
+    console.error('Error starting upload session:', error)
+    return NextResponse.json(
+      { error: 'Failed to start upload' },
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,73 @@
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+import { requireAuth } from '@/lib/middleware'
+import { deleteStoredImage, storeImageUpload, userAvatarDir, validateImageFile } from '@/lib/images'
+
+const USER_SELECT = {
+  id: true,
+  email: true,
+  name: true,
+  phone: true,
+  profilePicture: true,
+  role: true,
+  emailPreference: true
+}
+
+// POST /api/user/avatar - Upload a new profile picture
+export const POST = requireAuth(async (request, user) => {
+  try {
+    const formData = await request.formData()
+    const file = formData.get('file') as File | null
+
+    const invalid = validateImageFile(file)
+    if (invalid) {
+      return NextResponse.json(
+        { error: invalid },
+        { status: 400 }
+      )
+    }
+
+    const profilePicture = await storeImageUpload(file!, userAvatarDir(user.id))
+    if (!profilePicture) {
+      return NextResponse.json(
+        { error: 'The file is not a readable image' },
+        { status: 400 }
+      )
+    }
+
+    const updatedUser = await prisma.user.update({
+      where: { id: user.id },
+      data: { profilePicture },
+      select: USER_SELECT
+    })
+    await deleteStoredImage(user.profilePicture, userAvatarDir(user.id))
+
+    return NextResponse.json({ user: updatedUser })
+  } catch (error) {
+    console.error('Error uploading profile picture:', error)
+    return NextResponse.json(
+      { error: 'Failed to upload profile picture' },
+      { status: 500 }
+    )
+  }
+})
+
+// DELETE /api/user/avatar - Remove the profile picture
+export const DELETE = requireAuth(async (request, user) => {
+  try {
+    const updatedUser = await prisma.user.update({
+      where: { id: user.id },
+      data: { profilePicture: null },
+      select: USER_SELECT
+    })
+    await deleteStoredImage(user.profilePicture, userAvatarDir(user.id))
+
+    return NextResponse.json({ user: updatedUser })
+  } catch (error) {
+    console.error('Error removing profile picture:', error)
+    return NextResponse.json(
+      { error: 'Failed to remove profile picture' },
+      { status: 500 }
+    )
+  }
+})
@@ -1,33 +1,7 @@
-import { NextRequest, NextResponse } from 'next/server'
-import { getUserFromSession } from '@/lib/auth'
+import { NextResponse } from 'next/server'
+import { requireAuth } from '@/lib/middleware'
 
-export async function GET(request: NextRequest) {
-  try {
-    const sessionToken = request.cookies.get('session_token')?.value
-    
-    if (!sessionToken) {
-      return NextResponse.json(
-        { error: 'No session token' },
-        { status: 401 }
-      )
-    }
-
-    const user = await getUserFromSession(sessionToken)
-    
-    if (!user) {
-      return NextResponse.json(
-        { error: 'Invalid session' },
-        { status: 401 }
-      )
-    }
-
-    return NextResponse.json(user)
-
-  } catch (error) {
-    console.error('Get user error:', error)
-    return NextResponse.json(
-      { error: 'Internal server error' },
-      { status: 500 }
-    )
-  }
-}
\ No newline at end of file
+// GET /api/user/me - Get the signed-in user
+export const GET = requireAuth(async (request, user) => {
+  return NextResponse.json(user)
+})
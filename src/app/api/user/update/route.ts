@@ -1,21 +1,15 @@
-import { NextRequest, NextResponse } from 'next/server'
+import { NextResponse } from 'next/server'
+import { EmailPreference } from '@prisma/client'
 import { prisma } from '@/lib/db'
-import { getAuthUser } from '@/lib/middleware'
+import { requireAuth } from '@/lib/middleware'
 import { verifyPassword, generateSalt, hashPassword } from '@/lib/auth'
 
-export async function PUT(request: NextRequest) {
-  try {
-    const user = await getAuthUser(request)
-    
-    if (!user) {
-      return NextResponse.json(
-        { error: 'Unauthorized' },
-        { status: 401 }
-      )
-    }
+const EMAIL_PREFERENCES: EmailPreference[] = ['IMMEDIATE', 'DAILY', 'OFF']
 
+export const PUT = requireAuth(async (request, user) => {
+  try {
     const body = await request.json()
-    const { name, phone, currentPassword, newPassword } = body
+    const { name, phone, currentPassword, newPassword, emailPreference } = body
 
     // Validate name
     if (!name || name.trim().length === 0) {
@@ -25,9 +19,17 @@ export async function PUT(request: NextRequest) {
       )
     }
 
-    const updateData: { name: string; phone: string | null; passwordHash?: string; salt?: string } = {
+    if (emailPreference !== undefined && !EMAIL_PREFERENCES.includes(emailPreference)) {
+      return NextResponse.json(
+        { error: 'Invalid email preference. Must be IMMEDIATE, DAILY, or OFF' },
+        { status: 400 }
+      )
+    }
+
+    const updateData: { name: string; phone: string | null; emailPreference?: EmailPreference; passwordHash?: string; salt?: string } = {
       name: name.trim(),
-      phone: phone || null
+      phone: phone || null,
+      emailPreference
     }
 
     // Handle password change if requested
@@ -91,7 +93,8 @@ export async function PUT(request: NextRequest) {
         name: true,
         phone: true,
         profilePicture: true,
-        role: true
+        role: true,
+        emailPreference: true
       }
     })
 
@@ -107,4 +110,4 @@ export async function PUT(request: NextRequest) {
       { status: 500 }
     )
   }
-}
\ No newline at end of file
+})
\ No newline at end of file
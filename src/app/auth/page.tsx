@@ -3,6 +3,18 @@
 import { useState } from 'react'
 import { useRouter } from 'next/navigation'
 
+// Only follow `next` within this site. Browsers read '/\host' as '//host',
+// so parse it the way they do and require the same origin.
+const sameOriginPath = (next: string | null) => {
+  if (!next) return null
+  try {
+    const url = new URL(next, window.location.origin)
+    return url.origin === window.location.origin ? `${url.pathname}${url.search}${url.hash}` : null
+  } catch {
+    return null
+  }
+}
+
 export default function AuthPage() {
   const [isLogin, setIsLogin] = useState(true)
   const [isLoading, setIsLoading] = useState(false)
@@ -40,8 +52,8 @@ export default function AuthPage() {
         return
       }
 
-      // Redirect to dashboard on success
-      router.push('/dashboard')
+      // Return to the page that sent us here (e.g. an invitation), else the dashboard
+      router.push(sameOriginPath(new URLSearchParams(window.location.search).get('next')) || '/dashboard')
 
     } catch {
       setError('Network error. Please try again.')
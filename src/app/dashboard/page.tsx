@@ -3,6 +3,8 @@
 import { useState, useEffect } from 'react'
 import Link from 'next/link'
 import { useRouter } from 'next/navigation'
+import NotificationBell from '@/components/notifications/NotificationBell'
+import { imageSrc } from '@/lib/imageUrls'
 
 interface Project {
   id: string
@@ -10,7 +12,7 @@ interface Project {
   artist: string
   description?: string
   coverImage?: string
-  status: string
+  status: ProjectStatus
   createdAt: string
   user: {
     name: string
@@ -26,6 +28,16 @@ interface Project {
   }>
 }
 
+type ProjectStatus = 'ACTIVE' | 'COMPLETED' | 'ARCHIVED'
+type StatusFilter = ProjectStatus | 'ALL'
+
+const STATUS_FILTERS: { value: StatusFilter; label: string }[] = [
+  { value: 'ALL', label: 'All' },
+  { value: 'ACTIVE', label: 'Active' },
+  { value: 'COMPLETED', label: 'Completed' },
+  { value: 'ARCHIVED', label: 'Archived' }
+]
+
 interface User {
   id: string
   name: string
@@ -45,14 +57,15 @@ export default function Dashboard() {
   const [createError, setCreateError] = useState('')
   const [deletingProject, setDeletingProject] = useState<string | null>(null)
   const [showDeleteConfirm, setShowDeleteConfirm] = useState<string | null>(null)
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('ALL')
   const router = useRouter()
 
   const [newProject, setNewProject] = useState({
     name: '',
     artist: '',
-    description: '',
-    coverImage: ''
+    description: ''
   })
+  const [coverFile, setCoverFile] = useState<File | null>(null)
 
   useEffect(() => {
     checkAuth()
@@ -110,10 +123,21 @@ export default function Dashboard() {
       const data = await response.json()
 
       if (response.ok) {
+        // The cover can only be uploaded once the project exists
+        if (coverFile) {
+          const body = new FormData()
+          body.append('file', coverFile)
+          const coverResponse = await fetch(`/api/projects/${data.id}/cover`, { method: 'POST', body })
+          if (!coverResponse.ok) {
+            const coverData = await coverResponse.json()
+            alert(`Project created, but the cover image was not saved: ${coverData.error || 'upload failed'}`)
+          }
+        }
         // Refresh projects list
         fetchProjects()
         // Reset form
-        setNewProject({ name: '', artist: '', description: '', coverImage: '' })
+        setNewProject({ name: '', artist: '', description: '' })
+        setCoverFile(null)
         setShowCreateProject(false)
       } else {
         setCreateError(data.error || 'Failed to create project')
@@ -157,6 +181,10 @@ export default function Dashboard() {
     }
   }
 
+  const visibleProjects = statusFilter === 'ALL'
+    ? projects
+    : projects.filter(project => project.status === statusFilter)
+
   const getInitials = (name: string) => {
     return name.split(' ').map(n => n[0]).join('').toUpperCase()
   }
@@ -208,15 +236,25 @@ export default function Dashboard() {
                   New Project
                 </button>
                 
+                <NotificationBell />
+
                 <div className="relative">
                   <button
                     onClick={() => setShowProfileMenu(!showProfileMenu)}
                     className="flex items-center space-x-3 p-2 rounded-lg hover:bg-white/10 transition-colors"
                   >
-                    <div className="w-8 h-8 bg-red-600 rounded-full flex items-center justify-center">
-                      <span className="text-white font-medium text-sm">
-                        {user ? getInitials(user.name) : 'U'}
-                      </span>
+                    <div className="w-8 h-8 bg-red-600 rounded-full flex items-center justify-center overflow-hidden">
+                      {user?.profilePicture ? (
+                        <img
+                          src={imageSrc(user.profilePicture, 64)}
+                          alt={user.name}
+                          className="w-full h-full object-cover"
+                        />
+                      ) : (
+                        <span className="text-white font-medium text-sm">
+                          {user ? getInitials(user.name) : 'U'}
+                        </span>
+                      )}
                     </div>
                     <span className="text-white font-medium">{user?.name}</span>
                     <svg className="w-4 h-4 text-gray-400" fill="currentColor" viewBox="0 0 24 24">
@@ -232,6 +270,12 @@ export default function Dashboard() {
                       >
                         Profile Settings
                       </Link>
+                      <Link
+                        href="/trash"
+                        className="block px-4 py-2 text-gray-700 hover:bg-gray-100 transition-colors"
+                      >
+                        Trash
+                      </Link>
                       <button
                         onClick={handleLogout}
                         className="w-full text-left px-4 py-2 text-red-600 hover:bg-red-50 transition-colors"
@@ -320,17 +364,16 @@ export default function Dashboard() {
 
                 <div>
                   <label htmlFor="coverImage" className="block text-sm font-medium text-gray-700 mb-1">
-                    Cover Image URL (Optional)
+                    Cover Image (Optional)
                   </label>
                   <input
-                    type="url"
+                    type="file"
                     id="coverImage"
-                    name="coverImage"
-                    value={newProject.coverImage}
-                    onChange={handleProjectInputChange}
-                    className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-transparent transition-colors"
-                    placeholder="https://example.com/cover.jpg"
+                    accept="image/jpeg,image/png,image/webp"
+                    onChange={(e) => setCoverFile(e.target.files?.[0] || null)}
+                    className="w-full text-sm text-gray-600 file:mr-4 file:px-4 file:py-2 file:rounded-lg file:border-0 file:bg-gray-100 file:text-gray-700 file:font-medium hover:file:bg-gray-200"
                   />
+                  <p className="text-xs text-gray-500 mt-1">JPEG, PNG or WebP up to 10MB, cropped square</p>
                 </div>
 
                 <div className="flex items-center justify-end space-x-3 pt-4">
@@ -371,7 +414,7 @@ export default function Dashboard() {
 
               <div className="p-6">
                 <p className="text-gray-700 mb-6">
-                  Are you sure you want to delete this project? This action cannot be undone and will permanently delete all tracks and audio files.
+                  Are you sure you want to delete this project? It will be moved to the trash with all of its tracks and audio files, where you can restore it until the trash is emptied.
                 </p>
 
                 <div className="flex items-center justify-end space-x-3">
@@ -409,6 +452,29 @@ export default function Dashboard() {
             <p className="text-red-200">Manage your audio projects and collaborate with your team</p>
           </div>
 
+          {projects.length > 0 && (
+            <div className="flex flex-wrap items-center gap-2 mb-6">
+              {STATUS_FILTERS.map(filter => {
+                const count = filter.value === 'ALL'
+                  ? projects.length
+                  : projects.filter(project => project.status === filter.value).length
+                return (
+                  <button
+                    key={filter.value}
+                    onClick={() => setStatusFilter(filter.value)}
+                    className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+                      statusFilter === filter.value
+                        ? 'bg-red-600 text-white'
+                        : 'bg-white/10 text-red-100 hover:bg-white/20'
+                    }`}
+                  >
+                    {filter.label} ({count})
+                  </button>
+                )
+              })}
+            </div>
+          )}
+
           {/* Projects Grid */}
           {projects.length === 0 ? (
             <div className="text-center py-16">
@@ -428,9 +494,13 @@ export default function Dashboard() {
                 </button>
               </div>
             </div>
+          ) : visibleProjects.length === 0 ? (
+            <p className="text-center text-red-200 py-16">
+              No {statusFilter.toLowerCase()} projects.
+            </p>
           ) : (
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
-              {projects.map((project) => (
+              {visibleProjects.map((project) => (
                 <div
                   key={project.id}
                   className="group bg-white/95 backdrop-blur-sm rounded-xl p-6 border border-gray-200 hover:shadow-xl transition-all duration-300"
@@ -439,7 +509,7 @@ export default function Dashboard() {
                   <div className="aspect-square bg-gradient-to-br from-red-100 to-red-200 rounded-lg mb-4 flex items-center justify-center overflow-hidden">
                     {project.coverImage ? (
                       <img 
-                        src={project.coverImage} 
+                        src={imageSrc(project.coverImage, 600)} 
                         alt={project.name}
                         className="w-full h-full object-cover"
                       />
@@ -0,0 +1,173 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import Link from 'next/link'
+import { useParams, useRouter } from 'next/navigation'
+
+interface Invitation {
+  email: string
+  role: 'OWNER' | 'COLLABORATOR' | 'VIEWER'
+  expiresAt: string
+  acceptedAt?: string
+  expired: boolean
+  project: {
+    id: string
+    name: string
+    artist: string
+  }
+  invitedBy: {
+    name: string
+  }
+}
+
+interface User {
+  id: string
+  email: string
+  name: string
+}
+
+export default function InvitationPage() {
+  const params = useParams()
+  const router = useRouter()
+  const token = params.token as string
+
+  const [invitation, setInvitation] = useState<Invitation | null>(null)
+  const [user, setUser] = useState<User | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [accepting, setAccepting] = useState(false)
+  const [error, setError] = useState('')
+
+  useEffect(() => {
+    if (!token) return
+
+    const fetchInvitation = async () => {
+      try {
+        const [invitationResponse, userResponse] = await Promise.all([
+          fetch(`/api/invitations/${token}`),
+          fetch('/api/user/me')
+        ])
+
+        if (invitationResponse.ok) {
+          setInvitation(await invitationResponse.json())
+        } else {
+          setError('This invitation link is not valid')
+        }
+
+        if (userResponse.ok) {
+          setUser(await userResponse.json())
+        }
+      } catch (error) {
+        console.error('Error fetching invitation:', error)
+        setError('Network error')
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchInvitation()
+  }, [token])
+
+  const handleAccept = async () => {
+    setAccepting(true)
+    setError('')
+
+    try {
+      const response = await fetch(`/api/invitations/${token}`, { method: 'POST' })
+      const data = await response.json()
+
+      if (response.ok) {
+        router.push(`/project/${data.projectId}`)
+      } else {
+        setError(data.error || 'Failed to accept invitation')
+      }
+    } catch {
+      setError('Network error. Please try again.')
+    } finally {
+      setAccepting(false)
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-gray-900 via-gray-800 to-red-900 flex items-center justify-center">
+        <div className="text-white text-xl flex items-center space-x-3">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-red-500"></div>
+          <span>Loading invitation...</span>
+        </div>
+      </div>
+    )
+  }
+
+  const unavailable = invitation && (invitation.acceptedAt || invitation.expired)
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-900 via-gray-800 to-red-900 flex items-center justify-center p-4">
+      <div className="bg-white/95 backdrop-blur-sm rounded-2xl shadow-2xl border border-gray-200 w-full max-w-md overflow-hidden">
+        <div className="bg-gradient-to-r from-red-600 to-red-800 px-6 py-4">
+          <h1 className="text-xl font-bold text-white">Project Invitation</h1>
+        </div>
+
+        <div className="p-6 space-y-4">
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-3">
+              <p className="text-red-600 text-sm">{error}</p>
+            </div>
+          )}
+
+          {invitation && (
+            <>
+              <p className="text-gray-700">
+                <span className="font-semibold">{invitation.invitedBy.name}</span> invited{' '}
+                <span className="font-semibold">{invitation.email}</span> to join
+              </p>
+              <div>
+                <h2 className="text-2xl font-bold text-gray-800">{invitation.project.name}</h2>
+                <p className="text-gray-600">{invitation.project.artist}</p>
+              </div>
+              <p className="text-sm text-gray-600">
+                Role: <span className="px-2 py-1 rounded bg-red-100 text-red-700 text-xs font-medium">{invitation.role.toLowerCase()}</span>
+              </p>
+
+              {invitation.acceptedAt && (
+                <p className="text-sm text-gray-600">This invitation has already been accepted.</p>
+              )}
+              {!invitation.acceptedAt && invitation.expired && (
+                <p className="text-sm text-gray-600">This invitation has expired. Ask for a new one.</p>
+              )}
+
+              {!unavailable && (
+                user ? (
+                  <div className="space-y-3 pt-2">
+                    {user.email.toLowerCase() !== invitation.email && (
+                      <p className="text-sm text-amber-700">
+                        You are signed in as {user.email}. Sign in with {invitation.email} to accept.
+                      </p>
+                    )}
+                    <button
+                      onClick={handleAccept}
+                      disabled={accepting}
+                      className="w-full px-6 py-3 bg-red-600 hover:bg-red-700 disabled:bg-gray-400 text-white rounded-lg transition-colors font-medium"
+                    >
+                      {accepting ? 'Accepting...' : 'Accept Invitation'}
+                    </button>
+                  </div>
+                ) : (
+                  <Link
+                    href={`/auth?next=${encodeURIComponent(`/invitations/${token}`)}`}
+                    className="block w-full text-center px-6 py-3 bg-red-600 hover:bg-red-700 text-white rounded-lg transition-colors font-medium"
+                  >
+                    Sign in or create an account to accept
+                  </Link>
+                )
+              )}
+            </>
+          )}
+
+          <Link href="/dashboard" className="block text-center text-sm text-gray-500 hover:text-gray-700">
+            Go to Dashboard
+          </Link>
+        </div>
+      </div>
+    </div>
+  )
+}
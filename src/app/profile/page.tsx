@@ -1,8 +1,9 @@
 'use client'
 
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useRef } from 'react'
 import { useRouter } from 'next/navigation'
 import Link from 'next/link'
+import { imageSrc } from '@/lib/imageUrls'
 
 interface User {
   id: string
@@ -11,14 +12,19 @@ interface User {
   phone?: string
   profilePicture?: string
   role: string
+  emailPreference: EmailPreference
 }
 
+type EmailPreference = 'IMMEDIATE' | 'DAILY' | 'OFF'
+
 export default function ProfilePage() {
   const [user, setUser] = useState<User | null>(null)
   const [loading, setLoading] = useState(true)
   const [saving, setSaving] = useState(false)
   const [message, setMessage] = useState('')
   const [error, setError] = useState('')
+  const [uploadingAvatar, setUploadingAvatar] = useState(false)
+  const avatarInputRef = useRef<HTMLInputElement>(null)
   const router = useRouter()
 
   const [formData, setFormData] = useState({
@@ -27,7 +33,8 @@ export default function ProfilePage() {
     phone: '',
     currentPassword: '',
     newPassword: '',
-    confirmPassword: ''
+    confirmPassword: '',
+    emailPreference: 'IMMEDIATE' as EmailPreference
   })
 
   useEffect(() => {
@@ -46,7 +53,8 @@ export default function ProfilePage() {
           phone: userData.phone || '',
           currentPassword: '',
           newPassword: '',
-          confirmPassword: ''
+          confirmPassword: '',
+          emailPreference: userData.emailPreference || 'IMMEDIATE'
         })
       } else {
         router.push('/auth')
@@ -59,7 +67,7 @@ export default function ProfilePage() {
     }
   }
 
-  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
     setFormData(prev => ({
       ...prev,
       [e.target.name]: e.target.value
@@ -73,9 +81,10 @@ export default function ProfilePage() {
     setMessage('')
 
     try {
-      const updateData: { name: string; phone: string; currentPassword?: string; newPassword?: string } = {
+      const updateData: { name: string; phone: string; emailPreference: EmailPreference; currentPassword?: string; newPassword?: string } = {
         name: formData.name,
-        phone: formData.phone
+        phone: formData.phone,
+        emailPreference: formData.emailPreference
       }
 
       // Only include password change if provided
@@ -125,6 +134,56 @@ export default function ProfilePage() {
     }
   }
 
+  const handleAvatarChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file) return
+
+    setUploadingAvatar(true)
+    setError('')
+    setMessage('')
+
+    try {
+      const body = new FormData()
+      body.append('file', file)
+      const response = await fetch('/api/user/avatar', { method: 'POST', body })
+      const data = await response.json()
+
+      if (response.ok) {
+        setMessage('Profile picture updated')
+        setUser(data.user)
+      } else {
+        setError(data.error || 'Failed to upload profile picture')
+      }
+    } catch {
+      setError('Network error. Please try again.')
+    } finally {
+      setUploadingAvatar(false)
+    }
+  }
+
+  const handleAvatarRemove = async () => {
+    setUploadingAvatar(true)
+    setError('')
+    setMessage('')
+
+    try {
+      const response = await fetch('/api/user/avatar', { method: 'DELETE' })
+      const data = await response.json()
+
+      if (response.ok) {
+        setMessage('Profile picture removed')
+        setUser(data.user)
+      } else {
+        setError(data.error || 'Failed to remove profile picture')
+      }
+    } catch {
+      setError('Network error. Please try again.')
+    } finally {
+      setUploadingAvatar(false)
+    }
+  }
+
   const getInitials = (name: string) => {
     return name.split(' ').map(n => n[0]).join('').toUpperCase()
   }
@@ -184,18 +243,46 @@ export default function ProfilePage() {
             {/* Profile Header */}
             <div className="bg-gradient-to-r from-red-600 to-red-800 px-8 py-6 text-white">
               <div className="flex items-center space-x-6">
-                <div className="w-20 h-20 bg-white/20 rounded-full flex items-center justify-center">
-                  {user?.profilePicture ? (
-                    <img 
-                      src={user.profilePicture} 
-                      alt={user.name}
-                      className="w-full h-full object-cover rounded-full"
-                    />
-                  ) : (
-                    <span className="text-white text-2xl font-bold">
-                      {user ? getInitials(user.name) : 'U'}
-                    </span>
-                  )}
+                <div className="flex flex-col items-center space-y-2">
+                  <div className="w-20 h-20 bg-white/20 rounded-full flex items-center justify-center">
+                    {user?.profilePicture ? (
+                      <img 
+                        src={imageSrc(user.profilePicture, 256)} 
+                        alt={user.name}
+                        className="w-full h-full object-cover rounded-full"
+                      />
+                    ) : (
+                      <span className="text-white text-2xl font-bold">
+                        {user ? getInitials(user.name) : 'U'}
+                      </span>
+                    )}
+                  </div>
+                  <input
+                    ref={avatarInputRef}
+                    type="file"
+                    accept="image/jpeg,image/png,image/webp"
+                    onChange={handleAvatarChange}
+                    className="hidden"
+                  />
+                  <div className="flex items-center space-x-2 text-xs">
+                    <button
+                      type="button"
+                      onClick={() => avatarInputRef.current?.click()}
+                      disabled={uploadingAvatar}
+                      className="text-red-100 hover:text-white disabled:opacity-50 transition-colors"
+                    >
+                      {uploadingAvatar ? 'Uploading...' : 'Change'}
+                    </button>
+                    {user?.profilePicture && !uploadingAvatar && (
+                      <button
+                        type="button"
+                        onClick={handleAvatarRemove}
+                        className="text-red-100 hover:text-white transition-colors"
+                      >
+                        Remove
+                      </button>
+                    )}
+                  </div>
                 </div>
                 <div>
                   <h2 className="text-2xl font-bold">{user?.name}</h2>
@@ -273,6 +360,25 @@ export default function ProfilePage() {
                   </div>
                 </div>
 
+                {/* Email Notifications */}
+                <div>
+                  <h3 className="text-lg font-semibold text-gray-800 mb-4">Email Notifications</h3>
+                  <label htmlFor="emailPreference" className="block text-sm font-medium text-gray-700 mb-1">
+                    Email me about new versions, comments, replies and approvals
+                  </label>
+                  <select
+                    id="emailPreference"
+                    name="emailPreference"
+                    value={formData.emailPreference}
+                    onChange={handleInputChange}
+                    className="w-full md:w-1/2 px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-transparent transition-colors"
+                  >
+                    <option value="IMMEDIATE">Right away</option>
+                    <option value="DAILY">Once a day, in a digest</option>
+                    <option value="OFF">Never</option>
+                  </select>
+                </div>
+
                 {/* Password Change */}
                 <div>
                   <h3 className="text-lg font-semibold text-gray-800 mb-4">Change Password</h3>
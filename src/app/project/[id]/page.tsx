@@ -3,6 +3,10 @@
 import { useState, useEffect } from 'react'
 import Link from 'next/link'
 import { useParams } from 'next/navigation'
+import ProjectMembers, { ProjectMember } from '@/components/project/ProjectMembers'
+import ProjectSettings, { ProjectStatus } from '@/components/project/ProjectSettings'
+import { formatIsrc } from '@/components/track/TrackSettings'
+import { imageSrc } from '@/lib/imageUrls'
 
 interface Track {
   id: string
@@ -11,6 +15,8 @@ interface Track {
   duration?: number
   bpm?: number
   key?: string
+  isrc?: string | null
+  explicit: boolean
   audioVersions: Array<{
     id: string
     versionType: 'STEREO' | 'ATMOS' | 'REFERENCE'
@@ -28,9 +34,15 @@ interface Project {
   artist: string
   description?: string
   coverImage?: string
-  status: string
+  status: ProjectStatus
   createdAt: string
   tracks: Track[]
+  members: ProjectMember[]
+  canUpdate: boolean
+  canChangeStatus: boolean
+  canEditTracks: boolean
+  // Completed or archived, and the user isn't studio staff
+  readOnly: boolean
   user: {
     name: string
     email: string
@@ -45,6 +57,7 @@ export default function ProjectPage() {
   const [showCreateTrack, setShowCreateTrack] = useState(false)
   const [creating, setCreating] = useState(false)
   const [createError, setCreateError] = useState('')
+  const [showEditProject, setShowEditProject] = useState(false)
 
   const [newTrack, setNewTrack] = useState({
     name: '',
@@ -56,6 +69,11 @@ export default function ProjectPage() {
   const [removingTrackId, setRemovingTrackId] = useState<string | null>(null)
   const [removeError, setRemoveError] = useState<string | null>(null)
 
+  // Drag-to-reorder: the list is rearranged locally and saved on drop
+  const [draggedTrackId, setDraggedTrackId] = useState<string | null>(null)
+  const [orderBeforeDrag, setOrderBeforeDrag] = useState('')
+  const [reorderError, setReorderError] = useState('')
+
   useEffect(() => {
     if (params.id) {
       fetchProject()
@@ -165,6 +183,50 @@ export default function ProjectPage() {
     }
   }
 
+  const startTrackDrag = (trackId: string) => {
+    if (!project) return
+    setDraggedTrackId(trackId)
+    setOrderBeforeDrag(project.tracks.map(track => track.id).join(','))
+    setReorderError('')
+  }
+
+  const moveDraggedTrack = (targetId: string) => {
+    if (!project || !draggedTrackId || draggedTrackId === targetId) return
+    const tracks = [...project.tracks]
+    const from = tracks.findIndex(track => track.id === draggedTrackId)
+    const to = tracks.findIndex(track => track.id === targetId)
+    const [moved] = tracks.splice(from, 1)
+    tracks.splice(to, 0, moved)
+    setProject({ ...project, tracks })
+  }
+
+  const saveTrackOrder = async () => {
+    if (!project || !draggedTrackId) return
+    setDraggedTrackId(null)
+
+    const trackIds = project.tracks.map(track => track.id)
+    if (trackIds.join(',') === orderBeforeDrag) return
+
+    try {
+      const response = await fetch(`/api/projects/${project.id}/tracks/order`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ trackIds })
+      })
+      if (!response.ok) {
+        const data = await response.json()
+        setReorderError(data.error || 'Failed to reorder tracks')
+      }
+    } catch {
+      setReorderError('Network error. Please try again.')
+    } finally {
+      // Picks up the new numbers, or puts the old order back
+      fetchProject()
+    }
+  }
+
+  const canReorder = project?.canEditTracks && !project.readOnly && project.tracks.length > 1
+
   if (loading) {
     return (
       <div className="min-h-screen bg-gradient-to-br from-gray-900 via-gray-800 to-red-900 flex items-center justify-center">
@@ -224,12 +286,22 @@ export default function ProjectPage() {
               </div>
               
               <div className="flex items-center space-x-4">
-                <button 
-                  onClick={() => setShowCreateTrack(true)}
-                  className="px-4 py-2 bg-red-600 hover:bg-red-700 text-white rounded-lg transition-colors font-medium"
-                >
-                  Add Track
-                </button>
+                {(project.canUpdate || project.canChangeStatus) && (
+                  <button
+                    onClick={() => setShowEditProject(true)}
+                    className="px-4 py-2 text-red-300 hover:text-white border border-red-900/50 rounded-lg transition-colors font-medium"
+                  >
+                    Edit Project
+                  </button>
+                )}
+                {!project.readOnly && (
+                  <button 
+                    onClick={() => setShowCreateTrack(true)}
+                    className="px-4 py-2 bg-red-600 hover:bg-red-700 text-white rounded-lg transition-colors font-medium"
+                  >
+                    Add Track
+                  </button>
+                )}
               </div>
             </div>
           </div>
@@ -245,7 +317,7 @@ export default function ProjectPage() {
                   <div className="w-32 h-32 bg-white/20 rounded-xl flex items-center justify-center">
                     {project.coverImage ? (
                       <img 
-                        src={project.coverImage} 
+                        src={imageSrc(project.coverImage, 256)} 
                         alt={project.name}
                         className="w-full h-full object-cover rounded-xl"
                       />
@@ -272,7 +344,9 @@ export default function ProjectPage() {
                       <span className={`px-2 py-1 rounded ${
                         project.status === 'ACTIVE' 
                           ? 'bg-green-500 text-white' 
-                          : 'bg-gray-500 text-white'
+                          : project.status === 'COMPLETED'
+                            ? 'bg-blue-500 text-white'
+                            : 'bg-gray-500 text-white'
                       }`}>
                         {project.status.toLowerCase()}
                       </span>
@@ -283,6 +357,29 @@ export default function ProjectPage() {
             </div>
           </div>
 
+          {project.status !== 'ACTIVE' && (
+            <div className="bg-gray-100 border border-gray-300 rounded-lg px-6 py-4 mb-8 text-gray-700">
+              This project is {project.status.toLowerCase()}.{' '}
+              {project.readOnly
+                ? 'Tracks, versions and comments are read-only.'
+                : 'Clients can only listen and read comments until it is made active again.'}
+            </div>
+          )}
+
+          {showEditProject && (
+            <ProjectSettings
+              project={project}
+              onClose={() => setShowEditProject(false)}
+              onSaved={fetchProject}
+            />
+          )}
+
+          <ProjectMembers
+            projectId={project.id}
+            members={project.members}
+            onMembersChange={fetchProject}
+          />
+
           {/* Create Track Modal */}
           {showCreateTrack && (
             <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center p-4 z-50">
@@ -406,6 +503,14 @@ export default function ProjectPage() {
           <div className="bg-white/95 backdrop-blur-sm rounded-2xl shadow-2xl border border-gray-200 overflow-hidden">
             <div className="px-8 py-6 border-b border-gray-200">
               <h2 className="text-2xl font-bold text-gray-800">Tracks</h2>
+              {canReorder && (
+                <p className="text-sm text-gray-500 mt-1">Drag tracks to change their order</p>
+              )}
+              {reorderError && (
+                <div className="bg-red-50 border border-red-200 rounded-lg p-3 mt-3">
+                  <p className="text-red-600 text-sm">{reorderError}</p>
+                </div>
+              )}
             </div>
 
             {project.tracks.length === 0 ? (
@@ -416,20 +521,37 @@ export default function ProjectPage() {
                   </svg>
                 </div>
                 <h3 className="text-xl font-semibold text-gray-800 mb-2">No tracks yet</h3>
-                <p className="text-gray-600 mb-6">Add your first track to start collaborating</p>
-                <button 
-                  onClick={() => setShowCreateTrack(true)}
-                  className="bg-red-600 hover:bg-red-700 text-white px-6 py-3 rounded-lg font-medium transition-colors"
-                >
-                  Add First Track
-                </button>
+                {!project.readOnly && (
+                  <>
+                    <p className="text-gray-600 mb-6">Add your first track to start collaborating</p>
+                    <button 
+                      onClick={() => setShowCreateTrack(true)}
+                      className="bg-red-600 hover:bg-red-700 text-white px-6 py-3 rounded-lg font-medium transition-colors"
+                    >
+                      Add First Track
+                    </button>
+                  </>
+                )}
               </div>
             ) : (
               <div className="divide-y divide-gray-200">
                 {project.tracks.map((track, index) => {
                   const versions = getVersionCounts(track)
                   return (
-                    <div key={track.id} className="flex items-center justify-between px-8 py-6 hover:bg-gray-50 transition-colors group">
+                    <div
+                      key={track.id}
+                      draggable={canReorder}
+                      onDragStart={() => startTrackDrag(track.id)}
+                      onDragOver={(e) => {
+                        if (!draggedTrackId) return
+                        e.preventDefault()
+                        moveDraggedTrack(track.id)
+                      }}
+                      onDragEnd={saveTrackOrder}
+                      className={`flex items-center justify-between px-8 py-6 hover:bg-gray-50 transition-colors group ${
+                        canReorder ? 'cursor-move' : ''
+                      } ${draggedTrackId === track.id ? 'opacity-50' : ''}`}
+                    >
                       <Link
                         href={`/track/${track.id}`}
                         className="flex items-center space-x-4 flex-1"
@@ -445,11 +567,15 @@ export default function ProjectPage() {
                         <div className="flex-1">
                           <h3 className="text-lg font-semibold text-gray-800 group-hover:text-red-600 transition-colors">
                             {track.name}
+                            {track.explicit && (
+                              <span className="ml-2 px-1.5 py-0.5 bg-gray-700 text-white rounded text-xs align-middle" title="Explicit">E</span>
+                            )}
                           </h3>
                           <div className="flex items-center space-x-4 text-sm text-gray-600">
                             <span>{formatDuration(track.duration)}</span>
                             {track.bpm && <span>{track.bpm} BPM</span>}
                             {track.key && <span>Key: {track.key}</span>}
+                            {track.isrc && <span>ISRC {formatIsrc(track.isrc)}</span>}
                             {track._count?.comments && (
                               <span>{track._count.comments} comment{track._count.comments !== 1 ? 's' : ''}</span>
                             )}
@@ -464,7 +590,7 @@ export default function ProjectPage() {
                           <div className={`w-3 h-3 rounded-full ${versions.atmos ? 'bg-blue-500' : 'bg-gray-300'}`} title="Atmos"></div>
                           <div className={`w-3 h-3 rounded-full ${versions.reference ? 'bg-purple-500' : 'bg-gray-300'}`} title="Reference"></div>
                         </div>
-                        {track.audioVersions.length === 0 && (
+                        {track.audioVersions.length === 0 && !project.readOnly && (
                           <Link
                             href={`/track/${track.id}/upload`}
                             className="text-xs px-2 py-1 bg-green-600 hover:bg-green-700 text-white rounded transition-colors"
@@ -473,18 +599,20 @@ export default function ProjectPage() {
                             Upload Audio
                           </Link>
                         )}
-                        <button
-                          onClick={() => handleRemoveTrack(track.id)}
-                          disabled={removingTrackId === track.id}
-                          className="ml-2 p-2 rounded-full hover:bg-red-100 text-red-600 hover:text-red-800 transition-colors disabled:opacity-60"
-                          title="Remove Track"
-                        >
-                          {removingTrackId === track.id ? (
-                            <span className="animate-spin w-4 h-4 inline-block border-b-2 border-red-600 rounded-full"></span>
-                          ) : (
-                            <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 20 20"><path d="M6 8a1 1 0 012 0v6a1 1 0 11-2 0V8zm4 0a1 1 0 012 0v6a1 1 0 11-2 0V8z"/><path fillRule="evenodd" d="M4 6a1 1 0 011-1h10a1 1 0 011 1v10a2 2 0 01-2 2H6a2 2 0 01-2-2V6zm2 0v10h8V6H6zM9 2a1 1 0 00-1 1v1H6a1 1 0 000 2h8a1 1 0 100-2h-2V3a1 1 0 00-1-1H9z" clipRule="evenodd"/></svg>
-                          )}
-                        </button>
+                        {!project.readOnly && (
+                          <button
+                            onClick={() => handleRemoveTrack(track.id)}
+                            disabled={removingTrackId === track.id}
+                            className="ml-2 p-2 rounded-full hover:bg-red-100 text-red-600 hover:text-red-800 transition-colors disabled:opacity-60"
+                            title="Remove Track"
+                          >
+                            {removingTrackId === track.id ? (
+                              <span className="animate-spin w-4 h-4 inline-block border-b-2 border-red-600 rounded-full"></span>
+                            ) : (
+                              <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 20 20"><path d="M6 8a1 1 0 012 0v6a1 1 0 11-2 0V8zm4 0a1 1 0 012 0v6a1 1 0 11-2 0V8z"/><path fillRule="evenodd" d="M4 6a1 1 0 011-1h10a1 1 0 011 1v10a2 2 0 01-2 2H6a2 2 0 01-2-2V6zm2 0v10h8V6H6zM9 2a1 1 0 00-1 1v1H6a1 1 0 000 2h8a1 1 0 100-2h-2V3a1 1 0 00-1-1H9z" clipRule="evenodd"/></svg>
+                            )}
+                          </button>
+                        )}
                       </div>
                     </div>
                   )
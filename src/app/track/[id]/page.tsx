@@ -6,6 +6,10 @@ import Link from 'next/link';
 import { useParams } from 'next/navigation';
 import SimpleAudioPlayer from '@/components/audio/SimpleAudioPlayer';
 import VersionManager from '@/components/audio/VersionManager';
+import ApprovalPanel from '@/components/audio/ApprovalPanel';
+import { useTrackEvents, VERSION_EVENT_TYPES } from '@/components/audio/useTrackEvents';
+import TrackSettings, { formatIsrc } from '@/components/track/TrackSettings';
+import { imageSrc } from '@/lib/imageUrls';
 
 interface AudioVersion {
   id: string;
@@ -13,6 +17,7 @@ interface AudioVersion {
   versionNumber: number;
   fileName: string;
   filePath: string;
+  streamUrl: string;
   isNormalized: boolean;
   isActive: boolean;
   lufsLevel?: number;
@@ -25,13 +30,21 @@ interface Track {
   duration?: number;
   bpm?: number;
   key?: string;
+  isrc?: string;
+  writers: string[];
+  producers: string[];
+  explicit: boolean;
   audioVersions: AudioVersion[];
   project: {
     id: string;
     name: string;
     artist: string;
     coverImage?: string;
+    status: 'ACTIVE' | 'COMPLETED' | 'ARCHIVED';
   };
+  canUpdate: boolean;
+  // The project is completed or archived and the user isn't studio staff
+  readOnly: boolean;
 }
 
 export default function TrackPage() {
@@ -40,6 +53,7 @@ export default function TrackPage() {
   const [error, setError] = useState<string | null>(null);
   const [selectedVersionType, setSelectedVersionType] = useState<'STEREO' | 'ATMOS' | 'REFERENCE'>('STEREO');
   const [showVersionManager, setShowVersionManager] = useState(false);
+  const [showSettings, setShowSettings] = useState(false);
 
   const params = useParams();
   const trackId = params.id as string;
@@ -51,9 +65,10 @@ export default function TrackPage() {
   }, [trackId]);
 
 
-  const fetchTrack = async () => {
+  // Background refreshes keep the page on screen instead of showing the loader
+  const fetchTrack = async (background = false) => {
     try {
-      setLoading(true);
+      if (!background) setLoading(true);
       const response = await fetch(`/api/tracks/${trackId}`);
       if (!response.ok) {
         throw new Error(`Failed to fetch track: ${response.statusText}`);
@@ -68,6 +83,11 @@ export default function TrackPage() {
     }
   };
 
+  // New, activated or unlocked versions change the player's sources
+  useTrackEvents(trackId, VERSION_EVENT_TYPES, () => {
+    fetchTrack(true);
+  });
+
 
 
   const getAvailableMixes = (): ('STEREO' | 'ATMOS' | 'REFERENCE')[] => {
@@ -81,19 +101,8 @@ export default function TrackPage() {
     return track.audioVersions
       .filter(version => version.isActive)
       .map(version => {
-        let cleanedFilePath = version.filePath;
-        
-        // Remove /uploads/ prefix if it exists to get the relative path
-        if (cleanedFilePath.startsWith('/uploads/')) {
-          cleanedFilePath = cleanedFilePath.substring('/uploads/'.length);
-        }
-        // Also handle case where path doesn't have /uploads/ prefix
-        else if (cleanedFilePath.startsWith('uploads/')) {
-          cleanedFilePath = cleanedFilePath.substring('uploads/'.length);
-        }
-        
         return {
-          url: `/api/audio-stream/${cleanedFilePath}`,
+          url: version.streamUrl,
           type: version.versionType.toLowerCase() as 'stereo' | 'atmos' | 'reference',
           audioVersionId: version.id,
           versionNumber: version.versionNumber,
@@ -188,21 +197,54 @@ export default function TrackPage() {
           {/* Track Header */}
           <div className="bg-white/95 backdrop-blur-sm rounded-2xl shadow-xl border border-gray-200 p-8 mb-6">
             <div className="flex items-center justify-between">
-              <div>
-                <h1 className="text-3xl font-bold text-gray-900 mb-2">{track.name}</h1>
-                <p className="text-lg text-gray-600">{track.project.artist}</p>
-                <p className="text-sm text-gray-500">{track.project.name}</p>
+              <div className="flex items-start space-x-6">
+                {track.project.coverImage && (
+                  <img
+                    src={imageSrc(track.project.coverImage, 256)}
+                    alt={track.project.name}
+                    className="w-24 h-24 rounded-xl object-cover shadow-md flex-shrink-0"
+                  />
+                )}
+                <div>
+                  <h1 className="text-3xl font-bold text-gray-900 mb-2">{track.name}</h1>
+                  <p className="text-lg text-gray-600">{track.project.artist}</p>
+                  <p className="text-sm text-gray-500">{track.project.name}</p>
+                  {(track.isrc || track.explicit || track.writers.length > 0 || track.producers.length > 0) && (
+                    <div className="mt-3 space-y-1 text-sm text-gray-600">
+                      {(track.isrc || track.explicit) && (
+                        <p className="flex items-center space-x-2">
+                          {track.explicit && (
+                            <span className="px-1.5 py-0.5 bg-gray-800 text-white rounded text-xs font-bold" title="Explicit">E</span>
+                          )}
+                          {track.isrc && <span>ISRC {formatIsrc(track.isrc)}</span>}
+                        </p>
+                      )}
+                      {track.writers.length > 0 && <p>Written by {track.writers.join(', ')}</p>}
+                      {track.producers.length > 0 && <p>Produced by {track.producers.join(', ')}</p>}
+                    </div>
+                  )}
+                </div>
               </div>
               <div className="flex items-center space-x-3">
-                <Link 
-                  href={`/track/${track.id}/upload`}
-                  className="px-6 py-3 bg-green-600 hover:bg-green-700 text-white rounded-lg transition-colors font-medium flex items-center space-x-2"
-                >
-                  <svg className="w-5 h-5" fill="none" stroke="currentColor" strokeWidth="2" viewBox="0 0 24 24">
-                    <path d="M7 16a4 4 0 01-.88-7.903A5 5 0 1115.9 6L16 6a5 5 0 011 9.9M15 13l-3-3m0 0l-3 3m3-3v12"/>
-                  </svg>
-                  <span>Upload Audio</span>
-                </Link>
+                {track.canUpdate && !track.readOnly && (
+                  <button
+                    onClick={() => setShowSettings(true)}
+                    className="px-4 py-2 bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-lg transition-colors font-medium"
+                  >
+                    Edit Details
+                  </button>
+                )}
+                {!track.readOnly && (
+                  <Link 
+                    href={`/track/${track.id}/upload`}
+                    className="px-6 py-3 bg-green-600 hover:bg-green-700 text-white rounded-lg transition-colors font-medium flex items-center space-x-2"
+                  >
+                    <svg className="w-5 h-5" fill="none" stroke="currentColor" strokeWidth="2" viewBox="0 0 24 24">
+                      <path d="M7 16a4 4 0 01-.88-7.903A5 5 0 1115.9 6L16 6a5 5 0 011 9.9M15 13l-3-3m0 0l-3 3m3-3v12"/>
+                    </svg>
+                    <span>Upload Audio</span>
+                  </Link>
+                )}
                 <button
                   onClick={() => setShowVersionManager(!showVersionManager)}
                   className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors font-medium"
@@ -223,6 +265,15 @@ export default function TrackPage() {
             </div>
           </div>
 
+          {track.project.status !== 'ACTIVE' && (
+            <div className="bg-white/95 backdrop-blur-sm rounded-2xl shadow-xl border border-gray-200 px-8 py-4 mb-6 text-gray-700">
+              This project is {track.project.status.toLowerCase()}.{' '}
+              {track.readOnly
+                ? 'You can listen and read comments, but not change anything.'
+                : 'Clients can only listen and read comments until it is made active again.'}
+            </div>
+          )}
+
           {/* Version Manager */}
           {showVersionManager && (
             <div className="bg-white/95 backdrop-blur-sm rounded-2xl shadow-xl border border-gray-200 p-8 mb-6">
@@ -230,7 +281,7 @@ export default function TrackPage() {
                 trackId={track.id}
                 onVersionChange={() => {
                   // Refresh the track data when versions change
-                  fetchTrack()
+                  fetchTrack(true)
                 }}
               />
             </div>
@@ -401,7 +452,26 @@ export default function TrackPage() {
               </div>
             )}
           </div>
+
+          {/* Sign-off */}
+          {track.audioVersions.length > 0 && (
+            <div className="bg-white/95 backdrop-blur-sm rounded-2xl shadow-xl border border-gray-200 p-8 mt-6">
+              <ApprovalPanel
+                trackId={track.id}
+                versionType={selectedVersionType}
+                refreshKey={track.audioVersions.map(v => `${v.id}:${v.isActive}`).join(',')}
+              />
+            </div>
+          )}
         </main>
+
+        {showSettings && (
+          <TrackSettings
+            track={track}
+            onClose={() => setShowSettings(false)}
+            onSaved={() => fetchTrack(true)}
+          />
+        )}
       </div>
     </div>
   );
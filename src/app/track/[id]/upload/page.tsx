@@ -122,7 +122,7 @@ export default function TrackUploadPage() {
             <div className="flex items-center justify-between">
               <div>
                 <h3 className="text-lg font-medium text-red-200 mb-1">Danger Zone</h3>
-                <p className="text-red-300/80 text-sm">Remove this track from the album permanently.</p>
+                <p className="text-red-300/80 text-sm">Move this track to the trash. It can be restored until the trash is emptied.</p>
               </div>
               <button
                 onClick={handleRemoveTrack}
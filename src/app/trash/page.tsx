@@ -0,0 +1,232 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { useRouter } from 'next/navigation'
+import Link from 'next/link'
+
+interface TrashedProject {
+  id: string
+  name: string
+  artist: string
+  deletedAt: string
+  purgeAt: string
+}
+
+interface TrashedTrack {
+  id: string
+  name: string
+  deletedAt: string
+  purgeAt: string
+  project: {
+    id: string
+    name: string
+  }
+}
+
+interface TrashedVersion {
+  id: string
+  versionType: 'STEREO' | 'ATMOS' | 'REFERENCE'
+  versionNumber: number
+  fileName: string
+  deletedAt: string
+  purgeAt: string
+  _count: {
+    comments: number
+  }
+  track: {
+    id: string
+    name: string
+    project: {
+      id: string
+      name: string
+    }
+  }
+}
+
+interface Trash {
+  retentionDays: number
+  projects: TrashedProject[]
+  tracks: TrashedTrack[]
+  versions: TrashedVersion[]
+}
+
+const formatDate = (date: string) => new Date(date).toLocaleDateString()
+
+export default function TrashPage() {
+  const [trash, setTrash] = useState<Trash | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [restoring, setRestoring] = useState<string | null>(null)
+  const [error, setError] = useState('')
+  const router = useRouter()
+
+  const fetchTrash = useCallback(async () => {
+    try {
+      const response = await fetch('/api/trash')
+      if (response.status === 401) {
+        router.push('/auth')
+        return
+      }
+      if (response.ok) {
+        setTrash(await response.json())
+      } else {
+        setError('Failed to load the trash')
+      }
+    } catch (error) {
+      console.error('Error fetching trash:', error)
+      setError('Network error')
+    } finally {
+      setLoading(false)
+    }
+  }, [router])
+
+  useEffect(() => {
+    fetchTrash()
+  }, [fetchTrash])
+
+  const restore = async (id: string, url: string) => {
+    setRestoring(id)
+    setError('')
+
+    try {
+      const response = await fetch(url, { method: 'POST' })
+      if (response.ok) {
+        fetchTrash()
+      } else {
+        const data = await response.json()
+        setError(data.error || 'Failed to restore')
+      }
+    } catch {
+      setError('Network error. Please try again.')
+    } finally {
+      setRestoring(null)
+    }
+  }
+
+  const restoreButton = (id: string, url: string) => (
+    <button
+      onClick={() => restore(id, url)}
+      disabled={restoring !== null}
+      className="px-4 py-2 bg-red-600 hover:bg-red-700 disabled:bg-gray-400 text-white rounded-lg transition-colors text-sm font-medium"
+    >
+      {restoring === id ? 'Restoring...' : 'Restore'}
+    </button>
+  )
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-gray-900 via-gray-800 to-red-900 flex items-center justify-center">
+        <div className="text-white text-xl flex items-center space-x-3">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-red-500"></div>
+          <span>Loading trash...</span>
+        </div>
+      </div>
+    )
+  }
+
+  const isEmpty = !trash || (trash.projects.length === 0 && trash.tracks.length === 0 && trash.versions.length === 0)
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-900 via-gray-800 to-red-900">
+      <div className="relative z-10">
+        {/* Header */}
+        <header className="bg-black/80 backdrop-blur-sm border-b border-red-900/30">
+          <div className="max-w-7xl mx-auto px-6 py-4">
+            <div className="flex items-center space-x-4">
+              <Link 
+                href="/dashboard"
+                className="flex items-center space-x-3 text-red-300 hover:text-white transition-colors"
+              >
+                <svg className="w-5 h-5" fill="currentColor" viewBox="0 0 24 24">
+                  <path d="M20 11H7.83l5.59-5.59L12 4l-8 8 8 8 1.42-1.41L7.83 13H20v-2z"/>
+                </svg>
+                <span>Back to Dashboard</span>
+              </Link>
+              <div>
+                <h1 className="text-2xl font-bold text-white">Trash</h1>
+                {trash && (
+                  <p className="text-red-300 text-sm">
+                    Deleted items are purged for good after {trash.retentionDays} days
+                  </p>
+                )}
+              </div>
+            </div>
+          </div>
+        </header>
+
+        {/* Main Content */}
+        <main className="max-w-4xl mx-auto px-6 py-8 space-y-6">
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-3">
+              <p className="text-red-600 text-sm">{error}</p>
+            </div>
+          )}
+
+          {isEmpty && !error && (
+            <div className="bg-white/95 backdrop-blur-sm rounded-2xl shadow-2xl border border-gray-200 px-8 py-12 text-center">
+              <p className="text-gray-500">The trash is empty.</p>
+            </div>
+          )}
+
+          {trash && trash.projects.length > 0 && (
+            <section className="bg-white/95 backdrop-blur-sm rounded-2xl shadow-2xl border border-gray-200 overflow-hidden">
+              <h2 className="px-8 py-4 border-b border-gray-200 text-lg font-semibold text-gray-800">Projects</h2>
+              <ul className="divide-y divide-gray-200">
+                {trash.projects.map(project => (
+                  <li key={project.id} className="flex items-center justify-between px-8 py-4">
+                    <div>
+                      <p className="font-medium text-gray-800">{project.name}</p>
+                      <p className="text-sm text-gray-500">
+                        {project.artist} · deleted {formatDate(project.deletedAt)}, purged {formatDate(project.purgeAt)}
+                      </p>
+                    </div>
+                    {restoreButton(project.id, `/api/projects/${project.id}/restore`)}
+                  </li>
+                ))}
+              </ul>
+            </section>
+          )}
+
+          {trash && trash.tracks.length > 0 && (
+            <section className="bg-white/95 backdrop-blur-sm rounded-2xl shadow-2xl border border-gray-200 overflow-hidden">
+              <h2 className="px-8 py-4 border-b border-gray-200 text-lg font-semibold text-gray-800">Tracks</h2>
+              <ul className="divide-y divide-gray-200">
+                {trash.tracks.map(track => (
+                  <li key={track.id} className="flex items-center justify-between px-8 py-4">
+                    <div>
+                      <p className="font-medium text-gray-800">{track.name}</p>
+                      <p className="text-sm text-gray-500">
+                        {track.project.name} · deleted {formatDate(track.deletedAt)}, purged {formatDate(track.purgeAt)}
+                      </p>
+                    </div>
+                    {restoreButton(track.id, `/api/tracks/${track.id}/restore`)}
+                  </li>
+                ))}
+              </ul>
+            </section>
+          )}
+
+          {trash && trash.versions.length > 0 && (
+            <section className="bg-white/95 backdrop-blur-sm rounded-2xl shadow-2xl border border-gray-200 overflow-hidden">
+              <h2 className="px-8 py-4 border-b border-gray-200 text-lg font-semibold text-gray-800">Versions</h2>
+              <ul className="divide-y divide-gray-200">
+                {trash.versions.map(version => (
+                  <li key={version.id} className="flex items-center justify-between px-8 py-4">
+                    <div>
+                      <p className="font-medium text-gray-800">
+                        {version.track.name} – {version.versionType.toLowerCase()} v{version.versionNumber}
+                      </p>
+                      <p className="text-sm text-gray-500">
+                        {version.track.project.name} · {version._count.comments} comment{version._count.comments === 1 ? '' : 's'} · deleted {formatDate(version.deletedAt)}, purged {formatDate(version.purgeAt)}
+                      </p>
+                    </div>
+                    {restoreButton(version.id, `/api/tracks/${version.track.id}/versions/${version.id}/restore`)}
+                  </li>
+                ))}
+              </ul>
+            </section>
+          )}
+        </main>
+      </div>
+    </div>
+  )
+}
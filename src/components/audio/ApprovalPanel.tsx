@@ -0,0 +1,243 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { useTrackEvents, VERSION_EVENT_TYPES } from './useTrackEvents'
+
+type ApprovalStatus = 'APPROVED' | 'REJECTED' | 'NEEDS_REVISION'
+type SignOffState = ApprovalStatus | 'PENDING'
+type VersionType = 'STEREO' | 'ATMOS' | 'REFERENCE'
+
+interface Approval {
+  id: string
+  status: ApprovalStatus
+  notes?: string | null
+  updatedAt: string
+  projectRole: 'OWNER' | 'COLLABORATOR' | 'VIEWER' | null
+  user: {
+    id: string
+    name: string
+    role: string
+  }
+}
+
+interface VersionSignOff {
+  audioVersionId: string
+  versionType: VersionType
+  versionNumber: number
+  isActive: boolean
+  isFinal: boolean
+  signOff: SignOffState
+  approvals: Approval[]
+}
+
+interface ApprovalPanelProps {
+  trackId: string
+  versionType: VersionType
+  // Changes whenever the track's versions change, to refetch
+  refreshKey?: string
+}
+
+const STATE_STYLES: Record<SignOffState, { label: string; className: string }> = {
+  APPROVED: { label: 'Approved', className: 'bg-green-100 text-green-800' },
+  REJECTED: { label: 'Rejected', className: 'bg-red-100 text-red-800' },
+  NEEDS_REVISION: { label: 'Needs revision', className: 'bg-yellow-100 text-yellow-800' },
+  PENDING: { label: 'Awaiting sign-off', className: 'bg-gray-100 text-gray-700' }
+}
+
+const ApprovalPanel = ({ trackId, versionType, refreshKey }: ApprovalPanelProps) => {
+  const [versions, setVersions] = useState<VersionSignOff[]>([])
+  const [currentUserId, setCurrentUserId] = useState<string | null>(null)
+  const [notes, setNotes] = useState('')
+  const [submitting, setSubmitting] = useState(false)
+  const [error, setError] = useState('')
+
+  const fetchApprovals = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/tracks/${trackId}/approvals`)
+      if (response.ok) {
+        setVersions(await response.json())
+      }
+    } catch (error) {
+      console.error('Error fetching approvals:', error)
+    }
+  }, [trackId])
+
+  useEffect(() => {
+    fetchApprovals()
+  }, [fetchApprovals, refreshKey])
+
+  // A version being locked or unlocked elsewhere changes what can be signed off
+  useTrackEvents(trackId, VERSION_EVENT_TYPES, () => {
+    fetchApprovals()
+  })
+
+  useEffect(() => {
+    fetch('/api/user/me')
+      .then(response => response.ok ? response.json() : null)
+      .then(user => setCurrentUserId(user?.id ?? null))
+      .catch(() => setCurrentUserId(null))
+  }, [])
+
+  const activeVersion = versions.find(v => v.versionType === versionType && v.isActive)
+  const myApproval = activeVersion?.approvals.find(a => a.user.id === currentUserId)
+
+  const submitSignOff = async (status: ApprovalStatus) => {
+    if (!activeVersion) return
+    setSubmitting(true)
+    setError('')
+
+    try {
+      const response = await fetch(`/api/tracks/${trackId}/approvals`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ audioVersionId: activeVersion.audioVersionId, status, notes })
+      })
+
+      if (response.ok) {
+        setNotes('')
+        fetchApprovals()
+      } else {
+        const data = await response.json()
+        setError(data.error || 'Failed to record sign-off')
+      }
+    } catch {
+      setError('Network error. Please try again.')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  const withdrawSignOff = async () => {
+    if (!activeVersion) return
+    setSubmitting(true)
+    setError('')
+
+    try {
+      const response = await fetch(
+        `/api/tracks/${trackId}/approvals?audioVersionId=${activeVersion.audioVersionId}`,
+        { method: 'DELETE' }
+      )
+      if (response.ok) {
+        fetchApprovals()
+      } else {
+        const data = await response.json()
+        setError(data.error || 'Failed to withdraw sign-off')
+      }
+    } catch {
+      setError('Network error. Please try again.')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  // Versions someone has signed off, plus every active version
+  const visibleVersions = versions.filter(v => v.isActive || v.approvals.length > 0)
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-semibold text-gray-800">Sign-off</h3>
+        {activeVersion && (
+          <span className={`px-3 py-1 rounded-full text-sm font-medium ${STATE_STYLES[activeVersion.signOff].className}`}>
+            {versionType.toLowerCase()} v{activeVersion.versionNumber}: {STATE_STYLES[activeVersion.signOff].label}
+          </span>
+        )}
+      </div>
+
+      {visibleVersions.length === 0 ? (
+        <p className="text-sm text-gray-500">No versions to sign off yet.</p>
+      ) : (
+        <ul className="divide-y divide-gray-200 border border-gray-200 rounded-lg">
+          {visibleVersions.map(version => (
+            <li key={version.audioVersionId} className="px-4 py-3">
+              <div className="flex items-center justify-between">
+                <span className="font-medium text-gray-800">
+                  {version.versionType.toLowerCase()} v{version.versionNumber}
+                  {version.isActive && <span className="ml-2 text-xs text-gray-500">(active)</span>}
+                  {version.isFinal && <span className="ml-2 text-xs text-gray-500">(final)</span>}
+                </span>
+                <span className={`px-2 py-1 rounded text-xs font-medium ${STATE_STYLES[version.signOff].className}`}>
+                  {STATE_STYLES[version.signOff].label}
+                </span>
+              </div>
+              {version.approvals.length > 0 && (
+                <ul className="mt-2 space-y-1">
+                  {version.approvals.map(approval => (
+                    <li key={approval.id} className="text-sm text-gray-600">
+                      <span className="font-medium text-gray-800">{approval.user.name}</span>
+                      <span className="text-gray-400"> ({(approval.projectRole || approval.user.role).toLowerCase()})</span>
+                      {' '}
+                      <span className={`px-1.5 py-0.5 rounded text-xs ${STATE_STYLES[approval.status].className}`}>
+                        {STATE_STYLES[approval.status].label}
+                      </span>
+                      {' '}
+                      <span className="text-gray-400 text-xs">{new Date(approval.updatedAt).toLocaleDateString()}</span>
+                      {approval.notes && <p className="text-gray-600 ml-4 italic">&ldquo;{approval.notes}&rdquo;</p>}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {activeVersion?.isFinal && (
+        <p className="text-sm text-gray-500">
+          {versionType.toLowerCase()} v{activeVersion.versionNumber} is locked as the approved final.
+        </p>
+      )}
+
+      {activeVersion && !activeVersion.isFinal && (
+        <div className="space-y-3">
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-3">
+              <p className="text-red-600 text-sm">{error}</p>
+            </div>
+          )}
+          <textarea
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            placeholder={`Notes for ${versionType.toLowerCase()} v${activeVersion.versionNumber} (optional)`}
+            rows={2}
+            className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-transparent text-sm"
+          />
+          <div className="flex flex-wrap items-center gap-2">
+            <button
+              onClick={() => submitSignOff('APPROVED')}
+              disabled={submitting}
+              className="px-4 py-2 bg-green-600 hover:bg-green-700 disabled:bg-gray-400 text-white rounded-lg transition-colors text-sm font-medium"
+            >
+              Approve
+            </button>
+            <button
+              onClick={() => submitSignOff('NEEDS_REVISION')}
+              disabled={submitting}
+              className="px-4 py-2 bg-yellow-500 hover:bg-yellow-600 disabled:bg-gray-400 text-white rounded-lg transition-colors text-sm font-medium"
+            >
+              Needs Revision
+            </button>
+            <button
+              onClick={() => submitSignOff('REJECTED')}
+              disabled={submitting}
+              className="px-4 py-2 bg-red-600 hover:bg-red-700 disabled:bg-gray-400 text-white rounded-lg transition-colors text-sm font-medium"
+            >
+              Reject
+            </button>
+            {myApproval && (
+              <button
+                onClick={withdrawSignOff}
+                disabled={submitting}
+                className="px-4 py-2 text-gray-600 hover:text-gray-800 text-sm font-medium"
+              >
+                Withdraw my sign-off
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default ApprovalPanel
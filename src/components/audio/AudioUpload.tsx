@@ -1,6 +1,8 @@
 'use client'
 
-import { useState, useRef, useCallback } from 'react'
+import { useState, useRef, useCallback, useEffect } from 'react'
+import { audioFileTypeError, formatUploadLimit, MAX_CHUNKED_UPLOAD_SIZE } from '@/lib/uploads'
+import { sha256Hex as sha256HexFallback } from '@/lib/sha256'
 
 interface AudioVersion {
   id: string
@@ -13,6 +15,49 @@ interface AudioVersion {
   updatedAt: string
 }
 
+type JobStatus = 'QUEUED' | 'ANALYZING' | 'NORMALIZING' | 'DONE' | 'FAILED'
+
+interface ProcessingJob {
+  id: string
+  status: JobStatus
+  error?: string | null
+  audioVersion?: AudioVersion | null
+}
+
+const JOB_POLL_INTERVAL_MS = 2000
+
+// Each part is retried with a growing delay before the upload gives up
+const PART_ATTEMPTS = 4
+const PART_RETRY_DELAY_MS = 1000
+
+interface UploadSession {
+  id: string
+  chunkSize: number
+  partCount: number
+  receivedParts: number[]
+  completedAt?: string | null
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+// Remembers unfinished sessions so dropping the same file again resumes it
+const sessionStorageKey = (trackId: string, versionType: string, file: File) =>
+  `upload-session:${trackId}:${versionType}:${file.name}:${file.size}:${file.lastModified}`
+
+// crypto.subtle is missing outside secure contexts (plain HTTP other than localhost)
+const sha256Hex = async (data: ArrayBuffer) => {
+  if (!globalThis.crypto?.subtle) return sha256HexFallback(new Uint8Array(data))
+  const digest = await crypto.subtle.digest('SHA-256', data)
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('')
+}
+
+const JOB_STAGES: { status: JobStatus; label: string }[] = [
+  { status: 'QUEUED', label: 'Queued' },
+  { status: 'ANALYZING', label: 'Analyzing' },
+  { status: 'NORMALIZING', label: 'Normalizing' },
+  { status: 'DONE', label: 'Done' }
+]
+
 interface AudioUploadProps {
   trackId: string
   versionType: 'STEREO' | 'ATMOS' | 'REFERENCE'
@@ -31,28 +76,116 @@ export default function AudioUpload({
   const [uploadProgress, setUploadProgress] = useState(0)
   const [error, setError] = useState('')
   const [success, setSuccess] = useState('')
+  const [jobStatus, setJobStatus] = useState<JobStatus | null>(null)
+  const [carryComments, setCarryComments] = useState(true)
   const fileInputRef = useRef<HTMLInputElement>(null)
+  const unmountedRef = useRef(false)
+
+  useEffect(() => {
+    unmountedRef.current = false
+    return () => {
+      unmountedRef.current = true
+    }
+  }, [])
+
+  const isProcessing = jobStatus !== null && jobStatus !== 'DONE' && jobStatus !== 'FAILED'
+  const isBusy = uploading || isProcessing
 
   const validateFile = (file: File) => {
-    const maxSize = 500 * 1024 * 1024 // 500MB
-    let allowedTypes = ['audio/wav', 'audio/mpeg', 'audio/mp3', 'audio/flac', 'audio/aiff']
-    let allowedExtensions = ['.wav', '.mp3', '.flac', '.aiff']
-    if (versionType === 'ATMOS') {
-      allowedTypes = ['application/octet-stream', 'audio/wav']
-      allowedExtensions = ['.bin', '.wav']
+    if (file.size === 0) {
+      throw new Error('File is empty')
+    }
+    if (file.size > MAX_CHUNKED_UPLOAD_SIZE) {
+      throw new Error(`File size must be less than ${formatUploadLimit(MAX_CHUNKED_UPLOAD_SIZE)}`)
     }
-    if (file.size > maxSize) {
-      throw new Error('File size must be less than 500MB')
+    const typeError = audioFileTypeError(file.name, file.type, versionType)
+    if (typeError) {
+      throw new Error(typeError)
     }
-    // Check by MIME type or extension
-    const fileExt = file.name.slice(file.name.lastIndexOf('.')).toLowerCase()
-    if (!allowedTypes.includes(file.type) && !allowedExtensions.includes(fileExt)) {
-      if (versionType === 'ATMOS') {
-        throw new Error('Only BIN or WAV files are allowed for Atmos')
-      } else {
-        throw new Error('Only WAV, MP3, FLAC, and AIFF files are allowed')
+  }
+
+  // Pick up an unfinished session for this exact file, or start a new one
+  const openSession = async (file: File, storageKey: string): Promise<UploadSession> => {
+    const savedId = localStorage.getItem(storageKey)
+    if (savedId) {
+      const response = await fetch(`/api/upload/sessions/${savedId}`)
+      if (response.ok) {
+        const session: UploadSession = await response.json()
+        if (!session.completedAt) return session
       }
+      localStorage.removeItem(storageKey)
     }
+
+    const response = await fetch('/api/upload/sessions', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        trackId,
+        versionType,
+        fileName: file.name,
+        fileSize: file.size,
+        mimeType: file.type,
+        carryComments: Boolean(existingFile && carryComments)
+      })
+    })
+    const session = await response.json()
+    if (!response.ok) {
+      throw new Error(session.error || 'Failed to start upload')
+    }
+
+    localStorage.setItem(storageKey, session.id)
+    return session
+  }
+
+  const uploadPart = async (sessionId: string, index: number, chunk: Blob) => {
+    const data = await chunk.arrayBuffer()
+    const checksum = await sha256Hex(data)
+
+    for (let attempt = 1; attempt <= PART_ATTEMPTS; attempt++) {
+      let response: Response
+      try {
+        response = await fetch(`/api/upload/sessions/${sessionId}/parts/${index}`, {
+          method: 'PUT',
+          headers: { 'Content-Type': 'application/octet-stream', 'X-Content-SHA256': checksum },
+          body: data
+        })
+      } catch {
+        if (attempt === PART_ATTEMPTS) {
+          throw new Error('Connection lost. Drop the same file again to resume the upload.')
+        }
+        await sleep(PART_RETRY_DELAY_MS * attempt)
+        continue
+      }
+
+      if (response.ok) return
+
+      const result = await response.json().catch(() => ({}))
+      // Only server errors and parts corrupted on the way are worth resending
+      if ((response.status < 500 && response.status !== 422) || attempt === PART_ATTEMPTS) {
+        throw new Error(result.error || 'Upload failed')
+      }
+      await sleep(PART_RETRY_DELAY_MS * attempt)
+    }
+  }
+
+  // Poll the processing job until the worker finishes or fails it
+  const waitForJob = async (jobId: string): Promise<ProcessingJob> => {
+    while (!unmountedRef.current) {
+      const response = await fetch(`/api/jobs/${jobId}`)
+      const job = await response.json()
+
+      if (!response.ok) {
+        throw new Error(job.error || 'Failed to check processing status')
+      }
+
+      setJobStatus(job.status)
+      if (job.status === 'DONE' || job.status === 'FAILED') {
+        return job
+      }
+
+      await new Promise(resolve => setTimeout(resolve, JOB_POLL_INTERVAL_MS))
+    }
+    throw new Error('Upload cancelled')
   }
 
   const uploadFile = async (file: File) => {
@@ -61,48 +194,50 @@ export default function AudioUpload({
       setError('')
       setSuccess('')
       setUploadProgress(0)
+      setJobStatus(null)
 
       validateFile(file)
 
-      const formData = new FormData()
-      formData.append('file', file)
-      formData.append('trackId', trackId)
-      formData.append('versionType', versionType)
-
-      const xhr = new XMLHttpRequest()
-      
-      // Track upload progress
-      xhr.upload.addEventListener('progress', (e) => {
-        if (e.lengthComputable) {
-          const progress = Math.round((e.loaded / e.total) * 100)
-          setUploadProgress(progress)
-        }
-      })
+      const storageKey = sessionStorageKey(trackId, versionType, file)
+      const session = await openSession(file, storageKey)
 
-      // Handle response
-      const response = await new Promise<Response>((resolve, reject) => {
-        xhr.onload = () => {
-          const response = new Response(xhr.response, {
-            status: xhr.status,
-            statusText: xhr.statusText
-          })
-          resolve(response)
-        }
-        xhr.onerror = () => reject(new Error('Upload failed'))
-        
-        xhr.open('POST', '/api/upload/audio')
-        xhr.send(formData)
-      })
+      // Progress only counts parts the server has confirmed
+      const partBytes = (index: number) => Math.min(session.chunkSize, file.size - index * session.chunkSize)
+      let receivedBytes = session.receivedParts.reduce((total, index) => total + partBytes(index), 0)
+      setUploadProgress(Math.round((receivedBytes / file.size) * 100))
+
+      for (let index = 0; index < session.partCount; index++) {
+        if (session.receivedParts.includes(index)) continue
+        if (unmountedRef.current) throw new Error('Upload cancelled')
 
+        const start = index * session.chunkSize
+        await uploadPart(session.id, index, file.slice(start, start + session.chunkSize))
+
+        receivedBytes += partBytes(index)
+        setUploadProgress(Math.round((receivedBytes / file.size) * 100))
+      }
+
+      const response = await fetch(`/api/upload/sessions/${session.id}/complete`, { method: 'POST' })
       const result = await response.json()
 
-      if (response.ok) {
-        setSuccess(`${versionType} version uploaded successfully!`)
-        setUploadProgress(100)
-        onUploadComplete?.(result.audioVersion)
-      } else {
+      if (!response.ok) {
         throw new Error(result.error || 'Upload failed')
       }
+      localStorage.removeItem(storageKey)
+
+      setUploadProgress(100)
+      setUploading(false)
+      setJobStatus(result.status)
+
+      const job = await waitForJob(result.jobId)
+      if (job.status === 'FAILED') {
+        throw new Error(job.error || 'Audio processing failed')
+      }
+
+      setSuccess(`${versionType} version uploaded successfully!`)
+      if (job.audioVersion) {
+        onUploadComplete?.(job.audioVersion)
+      }
 
     } catch (error: unknown) {
       const errorMessage = error instanceof Error ? error.message : 'Upload failed'
@@ -144,7 +279,7 @@ export default function AudioUpload({
   return (
     <div>
 
-      {existingFile && !uploading && (
+      {existingFile && !isBusy && (
         <div className="mb-4 p-3 bg-green-900/20 border border-green-600/30 rounded-lg">
           <div className="flex items-center justify-between">
             <div>
@@ -156,19 +291,31 @@ export default function AudioUpload({
         </div>
       )}
 
+      {existingFile && !isBusy && (
+        <label className="mb-4 flex items-center space-x-2 text-sm text-gray-300 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={carryComments}
+            onChange={(e) => setCarryComments(e.target.checked)}
+            className="rounded border-red-900/50 text-red-600 focus:ring-red-500"
+          />
+          <span>Carry open comments over to the new version</span>
+        </label>
+      )}
+
       {/* Upload Area */}
       <div
         className={`border-2 border-dashed rounded-lg p-8 text-center transition-all ${
           isDragging
             ? 'border-red-400 bg-red-900/20'
-            : uploading
+            : isBusy
             ? 'border-red-600/50 bg-red-900/10'
             : 'border-red-900/50 hover:border-red-400 hover:bg-red-900/20 cursor-pointer'
         }`}
         onDragOver={handleDragOver}
         onDragLeave={handleDragLeave}
         onDrop={handleDrop}
-        onClick={() => !uploading && fileInputRef.current?.click()}
+        onClick={() => !isBusy && fileInputRef.current?.click()}
       >
         <input
           ref={fileInputRef}
@@ -176,10 +323,36 @@ export default function AudioUpload({
           accept={versionType === 'ATMOS' ? '.bin,.wav' : '.wav,.mp3,.flac,.aiff'}
           onChange={handleFileSelect}
           className="hidden"
-          disabled={uploading}
+          disabled={isBusy}
         />
 
-        {uploading ? (
+        {isProcessing ? (
+          <div className="space-y-4">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-red-400 mx-auto"></div>
+            <div className="text-sm font-medium text-white">
+              Processing audio...
+            </div>
+            <div className="flex items-center justify-center space-x-2">
+              {JOB_STAGES.map((stage, index) => {
+                const currentIndex = JOB_STAGES.findIndex(s => s.status === jobStatus)
+                return (
+                  <div key={stage.status} className="flex items-center space-x-2">
+                    {index > 0 && <div className="w-6 h-px bg-red-900/50"></div>}
+                    <span className={`px-2 py-1 rounded text-xs font-medium ${
+                      index === currentIndex
+                        ? 'bg-red-600 text-white'
+                        : index < currentIndex
+                        ? 'bg-red-900/40 text-red-300'
+                        : 'bg-black/30 text-gray-500'
+                    }`}>
+                      {stage.label}
+                    </span>
+                  </div>
+                )
+              })}
+            </div>
+          </div>
+        ) : uploading ? (
           <div className="space-y-4">
             <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-red-400 mx-auto"></div>
             <div>
@@ -211,7 +384,7 @@ export default function AudioUpload({
               </div>
             </div>
             <div className="text-xs text-gray-400">
-              {versionType === 'ATMOS' ? 'BIN or WAV (Dolby Atmos ADM BWF) • Max 500MB' : 'WAV, MP3, FLAC, AIFF • Max 500MB'}
+              {versionType === 'ATMOS' ? 'BIN or WAV (Dolby Atmos ADM BWF)' : 'WAV, MP3, FLAC, AIFF'} • Max {formatUploadLimit(MAX_CHUNKED_UPLOAD_SIZE)}
             </div>
           </div>
         )}
@@ -220,8 +393,10 @@ export default function AudioUpload({
       {/* Status Messages */}
       {error && (
         <div className="mt-4 p-3 bg-red-900/20 border border-red-600/50 rounded-lg">
-          <div className="text-red-300 text-sm font-medium">Upload Error</div>
-          <div className="text-red-400 text-sm">{error}</div>
+          <div className="text-red-300 text-sm font-medium">
+            {jobStatus === 'FAILED' ? 'Processing Failed' : 'Upload Error'}
+          </div>
+          <div className="text-red-400 text-sm whitespace-pre-wrap break-words max-h-48 overflow-y-auto">{error}</div>
         </div>
       )}
 
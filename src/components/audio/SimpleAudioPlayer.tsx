@@ -1,6 +1,8 @@
 'use client'
 
 import { useEffect, useRef, useState } from 'react'
+import Waveform, { WaveformMarker, WaveformRegion } from './Waveform'
+import { COMMENT_EVENT_TYPES, useTrackEvents } from './useTrackEvents'
 
 interface AudioSource {
   url: string
@@ -23,6 +25,7 @@ interface SimpleAudioPlayerProps {
 interface Comment {
   id: string
   timestampMs: number
+  endMs?: number | null
   content: string
   user: {
     id: string
@@ -30,22 +33,42 @@ interface Comment {
     email: string
     role: string
   }
-  status: 'PENDING' | 'APPROVED' | 'RESOLVED'
+  status: 'PENDING' | 'APPROVED' | 'RESOLVED' | 'REJECTED'
   audioVersionId: string
   versionType: 'STEREO' | 'ATMOS' | 'REFERENCE'
   replies?: CommentReply[]
+  carriedFrom?: {
+    id: string
+    audioVersion: {
+      versionNumber: number
+    }
+  } | null
+}
+
+interface CommentEvent {
+  id: string
+  type: 'CONTENT_EDITED' | 'STATUS_CHANGED' | 'DELETED'
+  fromStatus: Comment['status'] | null
+  toStatus: Comment['status'] | null
+  previousContent: string | null
+  createdAt: string
+  user: {
+    id: string
+    name: string
+  }
 }
 
 interface CommentReply {
   id: string
   content: string
   createdAt: string
-  comment: {
-    user: {
-      id: string
-      name: string
-      role: string
-    }
+  updatedAt: string
+  deletedAt: string | null
+  parentReplyId: string | null
+  user: {
+    id: string
+    name: string
+    role: string
   }
 }
 
@@ -71,10 +94,27 @@ const SimpleAudioPlayer = ({
   const [newComment, setNewComment] = useState('')
   const [isAddingComment, setIsAddingComment] = useState(false)
   const [commentTimestamp, setCommentTimestamp] = useState(0)
+  const [commentEndMs, setCommentEndMs] = useState<number | null>(null)
+
+  // Region state: the current drag selection and the region being looped
+  const [selection, setSelection] = useState<WaveformRegion | null>(null)
+  const [loopRegion, setLoopRegion] = useState<WaveformRegion | null>(null)
+  const loopRegionRef = useRef<WaveformRegion | null>(null)
   
   // Reply state
   const [replyingTo, setReplyingTo] = useState<string | null>(null)
+  const [replyParent, setReplyParent] = useState<CommentReply | null>(null)
   const [replyContent, setReplyContent] = useState('')
+  const [editingReplyId, setEditingReplyId] = useState<string | null>(null)
+  const [editContent, setEditContent] = useState('')
+  const [currentUserId, setCurrentUserId] = useState<string | null>(null)
+
+  // Comment editing and history state
+  const [editingCommentId, setEditingCommentId] = useState<string | null>(null)
+  const [editCommentText, setEditCommentText] = useState('')
+  const [historyCommentId, setHistoryCommentId] = useState<string | null>(null)
+  const [commentHistory, setCommentHistory] = useState<CommentEvent[]>([])
+  const [commentError, setCommentError] = useState('')
 
   const getCurrentAudioSource = () => {
     return audioSources.find(source => source.type === currentMix && source.isActive !== false)
@@ -130,6 +170,10 @@ const SimpleAudioPlayer = ({
     }
 
     const handleTimeUpdate = () => {
+      const loop = loopRegionRef.current
+      if (loop && audio.currentTime >= loop.endMs / 1000) {
+        audio.currentTime = loop.startMs / 1000
+      }
       setCurrentTime(audio.currentTime)
     }
 
@@ -154,6 +198,23 @@ const SimpleAudioPlayer = ({
     }
   }, [currentMix, audioSources, volume])
 
+  useEffect(() => {
+    loopRegionRef.current = loopRegion
+  }, [loopRegion])
+
+  const playRegionLoop = (region: WaveformRegion) => {
+    const audio = audioRef.current
+    if (!audio) return
+
+    setLoopRegion(region)
+    audio.currentTime = region.startMs / 1000
+    setCurrentTime(region.startMs / 1000)
+    audio.play().catch(err => console.error('Play failed:', err))
+  }
+
+  const isLooping = (region: WaveformRegion) =>
+    loopRegion?.startMs === region.startMs && loopRegion?.endMs === region.endMs
+
   const togglePlayPause = () => {
     const audio = audioRef.current
     if (!audio) return
@@ -218,6 +279,18 @@ const SimpleAudioPlayer = ({
     fetchComments()
   }, [trackId])
 
+  // Keep the comment list live while others review the same track
+  useTrackEvents(trackId, COMMENT_EVENT_TYPES, () => {
+    fetchComments()
+  })
+
+  useEffect(() => {
+    fetch('/api/user/me')
+      .then(response => response.ok ? response.json() : null)
+      .then(user => setCurrentUserId(user?.id ?? null))
+      .catch(() => setCurrentUserId(null))
+  }, [])
+
   const addComment = async () => {
     if (!newComment.trim() || !trackId) return
 
@@ -231,6 +304,7 @@ const SimpleAudioPlayer = ({
         body: JSON.stringify({
           content: newComment.trim(),
           timestampMs: commentTimestamp,
+          endMs: commentEndMs,
           trackId,
           audioVersionId: currentSource.audioVersionId,
           versionType: currentMix.toUpperCase()
@@ -242,6 +316,7 @@ const SimpleAudioPlayer = ({
         setComments([...comments, newCommentData])
         setNewComment('')
         setIsAddingComment(false)
+        setSelection(null)
       }
     } catch (error) {
       console.error('Error adding comment:', error)
@@ -252,16 +327,15 @@ const SimpleAudioPlayer = ({
     const currentSource = getCurrentAudioSource()
     if (!currentSource?.audioVersionId) return []
     
-    return comments.filter(comment => 
-      comment.audioVersionId === currentSource.audioVersionId ||
-      comment.versionType === currentMix.toUpperCase()
-    )
+    // Notes from earlier versions appear here once carried forward
+    return comments.filter(comment => comment.audioVersionId === currentSource.audioVersionId)
   }
 
   const getStatusColor = (status: Comment['status']) => {
     switch (status) {
       case 'APPROVED': return 'text-green-700 bg-green-100'
       case 'RESOLVED': return 'text-blue-700 bg-blue-100'
+      case 'REJECTED': return 'text-gray-600 bg-gray-200'
       default: return 'text-amber-700 bg-amber-100'
     }
   }
@@ -277,6 +351,7 @@ const SimpleAudioPlayer = ({
 
   const updateCommentStatus = async (commentId: string, newStatus: Comment['status']) => {
     if (!trackId) return
+    setCommentError('')
 
     try {
       const response = await fetch('/api/comments', {
@@ -299,13 +374,42 @@ const SimpleAudioPlayer = ({
         )
       } else {
         const errorData = await response.json()
-        console.error('Failed to update comment status:', errorData)
+        setCommentError(errorData.error || 'Failed to update comment status')
       }
     } catch (error) {
       console.error('Error updating comment status:', error)
     }
   }
 
+  // Resolve every open comment on the version being played
+  const resolveAllComments = async () => {
+    const currentSource = getCurrentAudioSource()
+    if (!trackId || !currentSource) return
+    if (!confirm('Mark every open comment on this version as resolved?')) return
+    setCommentError('')
+
+    try {
+      const response = await fetch(`/api/tracks/${trackId}/comments/status`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          status: 'RESOLVED',
+          audioVersionId: currentSource.audioVersionId
+        })
+      })
+
+      const result = await response.json()
+      if (!response.ok) {
+        setCommentError(result.error || 'Failed to resolve comments')
+      } else if (result.skipped.length > 0) {
+        setCommentError(`${result.skipped.length} comment${result.skipped.length !== 1 ? 's' : ''} could not be resolved`)
+      }
+      fetchComments()
+    } catch (error) {
+      console.error('Error resolving comments:', error)
+    }
+  }
+
   const addReply = async (commentId: string) => {
     if (!replyContent.trim() || !trackId) return
 
@@ -315,7 +419,8 @@ const SimpleAudioPlayer = ({
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           commentId,
-          content: replyContent.trim()
+          content: replyContent.trim(),
+          parentReplyId: replyParent?.id
         })
       })
 
@@ -333,6 +438,7 @@ const SimpleAudioPlayer = ({
         
         setReplyContent('')
         setReplyingTo(null)
+        setReplyParent(null)
       } else {
         const errorData = await response.json()
         console.error('Failed to add reply:', errorData)
@@ -342,6 +448,261 @@ const SimpleAudioPlayer = ({
     }
   }
 
+  const updateCommentContent = async (commentId: string) => {
+    if (!editCommentText.trim()) return
+
+    try {
+      const response = await fetch(`/api/comments/${commentId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ content: editCommentText.trim() })
+      })
+
+      if (response.ok) {
+        const updatedComment = await response.json()
+        setComments(prevComments =>
+          prevComments.map(comment => comment.id === commentId ? updatedComment : comment)
+        )
+        setEditingCommentId(null)
+        setEditCommentText('')
+        if (historyCommentId === commentId) {
+          setHistoryCommentId(null)
+        }
+      } else {
+        const errorData = await response.json()
+        console.error('Failed to edit comment:', errorData)
+      }
+    } catch (error) {
+      console.error('Error editing comment:', error)
+    }
+  }
+
+  const toggleHistory = async (commentId: string) => {
+    if (historyCommentId === commentId) {
+      setHistoryCommentId(null)
+      return
+    }
+
+    try {
+      const response = await fetch(`/api/comments/${commentId}/history`)
+      if (response.ok) {
+        const history = await response.json()
+        setCommentHistory(history.events)
+        setHistoryCommentId(commentId)
+      }
+    } catch (error) {
+      console.error('Error fetching comment history:', error)
+    }
+  }
+
+  const startReply = (commentId: string, parent: CommentReply | null) => {
+    setReplyingTo(commentId)
+    setReplyParent(parent)
+  }
+
+  const cancelReply = () => {
+    setReplyingTo(null)
+    setReplyParent(null)
+    setReplyContent('')
+  }
+
+  const updateReply = async (commentId: string, replyId: string) => {
+    if (!editContent.trim()) return
+
+    try {
+      const response = await fetch(`/api/comments/${commentId}/replies/${replyId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ content: editContent.trim() })
+      })
+
+      if (response.ok) {
+        const updatedReply = await response.json()
+        setComments(prevComments =>
+          prevComments.map(comment =>
+            comment.id === commentId
+              ? { ...comment, replies: comment.replies?.map(reply => reply.id === replyId ? updatedReply : reply) }
+              : comment
+          )
+        )
+        setEditingReplyId(null)
+        setEditContent('')
+      } else {
+        const errorData = await response.json()
+        console.error('Failed to update reply:', errorData)
+      }
+    } catch (error) {
+      console.error('Error updating reply:', error)
+    }
+  }
+
+  const deleteReply = async (commentId: string, replyId: string) => {
+    if (!confirm('Delete this reply?')) return
+
+    try {
+      const response = await fetch(`/api/comments/${commentId}/replies/${replyId}`, {
+        method: 'DELETE'
+      })
+
+      if (response.ok) {
+        // A reply others answered stays behind as a placeholder
+        const { removedReplyIds }: { removedReplyIds: string[] } = await response.json()
+        const removed = new Set(removedReplyIds)
+        setComments(prevComments =>
+          prevComments.map(comment => {
+            if (comment.id !== commentId) return comment
+            const remaining = (comment.replies || [])
+              .filter(reply => !removed.has(reply.id))
+              .map(reply => reply.id === replyId ? { ...reply, content: '', deletedAt: new Date().toISOString() } : reply)
+            return { ...comment, replies: remaining }
+          })
+        )
+      } else {
+        const errorData = await response.json()
+        console.error('Failed to delete reply:', errorData)
+      }
+    } catch (error) {
+      console.error('Error deleting reply:', error)
+    }
+  }
+
+  // Replies arrive in posting order, so a child always follows its parent
+  const renderReplies = (comment: Comment, parentReplyId: string | null) => {
+    const replies = (comment.replies || []).filter(reply => reply.parentReplyId === parentReplyId)
+    if (replies.length === 0) return null
+
+    return (
+      <div className="mt-3 space-y-2 pl-4 border-l-2 border-gray-200">
+        {replies.map((reply) => reply.deletedAt ? (
+          <div key={reply.id}>
+            <div className="bg-gray-50 rounded p-3">
+              <p className="text-xs italic text-gray-400">Reply deleted</p>
+            </div>
+            {renderReplies(comment, reply.id)}
+          </div>
+        ) : (
+          <div key={reply.id}>
+            <div className="bg-gray-50 rounded p-3">
+              <div className="flex items-center space-x-2 mb-1">
+                <span className="text-xs font-medium text-gray-700">{reply.user.name}</span>
+                <span className="text-xs text-gray-500">{new Date(reply.createdAt).toLocaleDateString()}</span>
+                {reply.updatedAt !== reply.createdAt && (
+                  <span className="text-xs text-gray-400">(edited)</span>
+                )}
+              </div>
+              {editingReplyId === reply.id ? (
+                <div>
+                  <textarea
+                    value={editContent}
+                    onChange={(e) => setEditContent(e.target.value)}
+                    className="w-full p-2 bg-white border border-gray-300 rounded text-xs resize-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    rows={2}
+                    autoFocus
+                  />
+                  <div className="flex items-center justify-end space-x-2 mt-1">
+                    <button
+                      onClick={() => setEditingReplyId(null)}
+                      className="px-2 py-1 text-xs text-gray-600 hover:text-gray-800 transition-colors"
+                    >
+                      Cancel
+                    </button>
+                    <button
+                      onClick={() => updateReply(comment.id, reply.id)}
+                      disabled={!editContent.trim()}
+                      className="px-2 py-1 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 text-white rounded text-xs transition-colors"
+                    >
+                      Save
+                    </button>
+                  </div>
+                </div>
+              ) : (
+                <p className="text-xs text-gray-800">{reply.content}</p>
+              )}
+              <div className="flex items-center space-x-3 mt-1">
+                <button
+                  onClick={() => startReply(comment.id, reply)}
+                  className="text-xs text-blue-600 hover:text-blue-800 transition-colors"
+                >
+                  Reply
+                </button>
+                {reply.user.id === currentUserId && editingReplyId !== reply.id && (
+                  <>
+                    <button
+                      onClick={() => {
+                        setEditingReplyId(reply.id)
+                        setEditContent(reply.content)
+                      }}
+                      className="text-xs text-gray-500 hover:text-gray-700 transition-colors"
+                    >
+                      Edit
+                    </button>
+                    <button
+                      onClick={() => deleteReply(comment.id, reply.id)}
+                      className="text-xs text-gray-500 hover:text-red-600 transition-colors"
+                    >
+                      Delete
+                    </button>
+                  </>
+                )}
+              </div>
+            </div>
+            {renderReplies(comment, reply.id)}
+          </div>
+        ))}
+      </div>
+    )
+  }
+
+  const formatRange = (startMs: number, endMs?: number | null) =>
+    endMs ? `${formatTime(startMs / 1000)}–${formatTime(endMs / 1000)}` : formatTime(startMs / 1000)
+
+  const commentMarkers: WaveformMarker[] = getCurrentVersionComments().map((comment) => ({
+    id: comment.id,
+    timeMs: comment.timestampMs,
+    endMs: comment.endMs,
+    colorClass: comment.status === 'APPROVED' ? 'bg-green-400' :
+                comment.status === 'RESOLVED' ? 'bg-blue-400' :
+                comment.status === 'REJECTED' ? 'bg-gray-400' : 'bg-amber-400',
+    title: `${formatRange(comment.timestampMs, comment.endMs)} - ${comment.content.substring(0, 40)}${comment.content.length > 40 ? '...' : ''}`
+  }))
+
+  // Plain slider used when no waveform has been generated for the version
+  const renderSeekSlider = () => (
+    <div className="relative">
+      <input
+        type="range"
+        min="0"
+        max="100"
+        value={duration > 0 ? (currentTime / duration) * 100 : 0}
+        onChange={handleSeek}
+        className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer relative z-10"
+      />
+      
+      {/* Comment Regions */}
+      {duration > 0 && commentMarkers.filter(marker => marker.endMs).map((marker) => (
+        <div
+          key={`${marker.id}-region`}
+          className={`absolute top-1/2 h-2 -translate-y-1/2 rounded opacity-40 pointer-events-none z-20 ${marker.colorClass}`}
+          style={{
+            left: `${(marker.timeMs / 1000) / duration * 100}%`,
+            width: `${((marker.endMs as number) - marker.timeMs) / 1000 / duration * 100}%`
+          }}
+        />
+      ))}
+
+      {/* Comment Markers */}
+      {duration > 0 && commentMarkers.map((marker) => (
+        <div
+          key={marker.id}
+          className={`absolute top-1/2 w-2 h-2 rounded-full cursor-pointer transform -translate-x-1/2 -translate-y-1/2 border border-white shadow-sm hover:w-2.5 hover:h-2.5 transition-all z-20 ${marker.colorClass}`}
+          style={{ left: `${(marker.timeMs / 1000) / duration * 100}%` }}
+          onClick={() => seekToTime(marker.timeMs)}
+          title={marker.title}
+        />
+      ))}
+    </div>
+  )
+
   if (error) {
     return (
       <div className="bg-red-50 border-2 border-red-200 p-6 rounded-xl">
@@ -353,6 +714,8 @@ const SimpleAudioPlayer = ({
     )
   }
 
+  const currentSource = getCurrentAudioSource()
+
   return (
     <div className="bg-white rounded-xl p-6 border border-gray-200">
       <audio ref={audioRef} />
@@ -402,35 +765,53 @@ const SimpleAudioPlayer = ({
         </div>
       </div>
 
-      {/* Progress Bar with Comment Markers */}
+      {/* Waveform / Progress Bar with Comment Markers */}
       <div className="mb-4">
-        <div className="relative">
-          <input
-            type="range"
-            min="0"
-            max="100"
-            value={duration > 0 ? (currentTime / duration) * 100 : 0}
-            onChange={handleSeek}
-            className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer relative z-10"
+        {currentSource && trackId ? (
+          <Waveform
+            trackId={trackId}
+            audioVersionId={currentSource.audioVersionId}
+            currentTime={currentTime}
+            duration={duration}
+            markers={commentMarkers}
+            onSeek={(time) => seekToTime(time * 1000)}
+            selection={selection}
+            onSelect={setSelection}
+            fallback={renderSeekSlider()}
           />
-          
-          {/* Comment Markers */}
-          {duration > 0 && getCurrentVersionComments().map((comment) => {
-            const position = (comment.timestampMs / 1000) / duration * 100
-            const colorClass = comment.status === 'APPROVED' ? 'bg-green-400' : 
-                              comment.status === 'RESOLVED' ? 'bg-blue-400' : 'bg-amber-400'
-            
-            return (
-              <div
-                key={comment.id}
-                className={`absolute top-1/2 w-2 h-2 rounded-full cursor-pointer transform -translate-x-1/2 -translate-y-1/2 border border-white shadow-sm hover:w-2.5 hover:h-2.5 transition-all z-20 ${colorClass}`}
-                style={{ left: `${position}%` }}
-                onClick={() => seekToTime(comment.timestampMs)}
-                title={`${formatTime(comment.timestampMs / 1000)} - ${comment.content.substring(0, 40)}${comment.content.length > 40 ? '...' : ''}`}
-              />
-            )
-          })}
-        </div>
+        ) : renderSeekSlider()}
+        {selection && (
+          <div className="flex items-center justify-between mt-2 px-3 py-2 bg-blue-50 border border-blue-200 rounded-lg text-sm">
+            <span className="text-blue-800 font-mono">{formatRange(selection.startMs, selection.endMs)}</span>
+            <div className="flex items-center space-x-3">
+              <button
+                onClick={() => isLooping(selection) ? setLoopRegion(null) : playRegionLoop(selection)}
+                className="text-blue-700 hover:text-blue-900 transition-colors"
+              >
+                {isLooping(selection) ? 'Stop Loop' : 'Loop'}
+              </button>
+              <button
+                onClick={() => {
+                  setIsAddingComment(true)
+                  setCommentTimestamp(selection.startMs)
+                  setCommentEndMs(selection.endMs)
+                }}
+                className="text-blue-700 hover:text-blue-900 transition-colors"
+              >
+                Comment on Region
+              </button>
+              <button
+                onClick={() => {
+                  if (isLooping(selection)) setLoopRegion(null)
+                  setSelection(null)
+                }}
+                className="text-gray-500 hover:text-gray-700 transition-colors"
+              >
+                Clear
+              </button>
+            </div>
+          </div>
+        )}
         <div className="flex justify-between items-center text-sm text-gray-500 mt-1">
           <span>{formatTime(currentTime)}</span>
           {getCurrentVersionComments().length > 0 && (
@@ -447,6 +828,10 @@ const SimpleAudioPlayer = ({
                 <div className="w-2 h-2 bg-blue-500 rounded-full"></div>
                 <span>Resolved</span>
               </div>
+              <div className="flex items-center space-x-1">
+                <div className="w-2 h-2 bg-gray-400 rounded-full"></div>
+                <span>Rejected</span>
+              </div>
             </div>
           )}
           <span>{formatTime(duration)}</span>
@@ -492,7 +877,8 @@ const SimpleAudioPlayer = ({
         <button
           onClick={() => {
             setIsAddingComment(true)
-            setCommentTimestamp(currentTime * 1000)
+            setCommentTimestamp(Math.round(currentTime * 1000))
+            setCommentEndMs(null)
           }}
           className="flex items-center space-x-2 px-4 py-2 bg-red-600 hover:bg-red-700 text-white rounded-lg transition-colors font-medium"
         >
@@ -508,7 +894,7 @@ const SimpleAudioPlayer = ({
         <div className="mt-6 p-4 bg-gray-50 rounded-lg border border-gray-200">
           <div className="flex items-center justify-between mb-3">
             <div className="text-sm text-gray-600 font-medium">
-              Adding comment at {formatTime(commentTimestamp / 1000)}
+              Adding comment at {formatRange(commentTimestamp, commentEndMs)}
             </div>
             <button
               onClick={() => setIsAddingComment(false)}
@@ -551,11 +937,27 @@ const SimpleAudioPlayer = ({
           <h4 className="text-lg font-bold text-gray-800">
             Comments ({getCurrentVersionComments().length})
           </h4>
-          <div className="text-xs text-gray-500">
-            Click timeline markers to jump to comments
+          <div className="flex items-center space-x-4">
+            <div className="text-xs text-gray-500">
+              Click timeline markers to jump to comments
+            </div>
+            {getCurrentVersionComments().some(comment => comment.status === 'PENDING' || comment.status === 'APPROVED') && (
+              <button
+                onClick={resolveAllComments}
+                className="text-xs text-blue-600 hover:text-blue-800 transition-colors"
+              >
+                Resolve all
+              </button>
+            )}
           </div>
         </div>
 
+        {commentError && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-3">
+            <p className="text-red-600 text-sm">{commentError}</p>
+          </div>
+        )}
+
         {getCurrentVersionComments().map((comment) => (
           <div key={comment.id} className="bg-white rounded-lg p-4 border border-gray-200 shadow-sm">
             <div className="flex items-start justify-between mb-3">
@@ -565,20 +967,98 @@ const SimpleAudioPlayer = ({
                     onClick={() => seekToTime(comment.timestampMs)}
                     className="bg-red-600 hover:bg-red-700 text-white px-2 py-1 rounded text-xs font-mono transition-colors"
                   >
-                    {formatTime(comment.timestampMs / 1000)}
+                    {formatRange(comment.timestampMs, comment.endMs)}
                   </button>
+                  {comment.endMs && (
+                    <button
+                      onClick={() => {
+                        const region = { startMs: comment.timestampMs, endMs: comment.endMs as number }
+                        if (isLooping(region)) {
+                          setLoopRegion(null)
+                        } else {
+                          playRegionLoop(region)
+                        }
+                      }}
+                      className="text-xs text-gray-500 hover:text-gray-800 transition-colors"
+                      title="Loop this region"
+                    >
+                      {isLooping({ startMs: comment.timestampMs, endMs: comment.endMs }) ? 'Stop Loop' : 'Loop'}
+                    </button>
+                  )}
                   <span className="text-gray-700 font-medium text-sm">{comment.user.name}</span>
                   <span className={`px-2 py-1 rounded-full text-xs font-medium ${getStatusColor(comment.status)}`}>
                     {comment.status.charAt(0).toUpperCase() + comment.status.slice(1)}
                   </span>
                 </div>
-                <p className="text-gray-800 text-sm leading-relaxed mb-3">{comment.content}</p>
+                {editingCommentId === comment.id ? (
+                  <div className="mb-3">
+                    <textarea
+                      value={editCommentText}
+                      onChange={(e) => setEditCommentText(e.target.value)}
+                      className="w-full p-2 bg-white border border-gray-300 rounded text-sm resize-none focus:ring-2 focus:ring-red-500 focus:border-transparent"
+                      rows={2}
+                      autoFocus
+                    />
+                    <div className="flex items-center justify-end space-x-2 mt-1">
+                      <button
+                        onClick={() => setEditingCommentId(null)}
+                        className="px-3 py-1 text-xs text-gray-600 hover:text-gray-800 transition-colors"
+                      >
+                        Cancel
+                      </button>
+                      <button
+                        onClick={() => updateCommentContent(comment.id)}
+                        disabled={!editCommentText.trim()}
+                        className="px-3 py-1 bg-red-600 hover:bg-red-700 disabled:bg-gray-400 text-white rounded text-xs transition-colors"
+                      >
+                        Save
+                      </button>
+                    </div>
+                  </div>
+                ) : (
+                  <p className="text-gray-800 text-sm leading-relaxed mb-3">{comment.content}</p>
+                )}
+
+                {/* History */}
+                {historyCommentId === comment.id && (
+                  <div className="mb-3 px-3 py-2 bg-gray-50 border border-gray-200 rounded text-xs text-gray-600 space-y-1">
+                    {commentHistory.length === 0 ? (
+                      <p>No edits or status changes yet.</p>
+                    ) : commentHistory.map(event => (
+                      <p key={event.id}>
+                        <span className="text-gray-400">{new Date(event.createdAt).toLocaleString()}</span>{' '}
+                        <span className="font-medium text-gray-700">{event.user.name}</span>{' '}
+                        {event.type === 'STATUS_CHANGED'
+                          ? `changed status from ${event.fromStatus?.toLowerCase()} to ${event.toStatus?.toLowerCase()}`
+                          : <>edited the comment (was &ldquo;{event.previousContent}&rdquo;)</>}
+                      </p>
+                    ))}
+                  </div>
+                )}
+
+                {/* Carried Forward */}
+                {comment.carriedFrom && (
+                  <div className="flex items-center justify-between mb-3 px-3 py-2 bg-amber-50 border border-amber-200 rounded text-xs">
+                    <span className="text-amber-800">
+                      Carried from v{comment.carriedFrom.audioVersion.versionNumber}
+                      {comment.status !== 'RESOLVED' && ` — addressed in v${currentSource?.versionNumber ?? '?'}?`}
+                    </span>
+                    {comment.status !== 'RESOLVED' && (
+                      <button
+                        onClick={() => updateCommentStatus(comment.id, 'RESOLVED')}
+                        className="px-2 py-1 bg-blue-100 text-blue-700 hover:bg-blue-200 rounded transition-colors"
+                      >
+                        Yes, resolve
+                      </button>
+                    )}
+                  </div>
+                )}
                 
                 {/* Status Controls */}
                 <div className="flex items-center justify-between">
                   <div className="flex items-center space-x-2">
                     <span className="text-xs text-gray-500">Mark as:</span>
-                    {(['PENDING', 'APPROVED', 'RESOLVED'] as const).map((status) => (
+                    {(['PENDING', 'APPROVED', 'RESOLVED', 'REJECTED'] as const).map((status) => (
                       <button
                         key={status}
                         onClick={() => updateCommentStatus(comment.id, status)}
@@ -590,7 +1070,9 @@ const SimpleAudioPlayer = ({
                               ? 'bg-green-100 text-green-700 hover:bg-green-200'
                               : status === 'RESOLVED'
                                 ? 'bg-blue-100 text-blue-700 hover:bg-blue-200'
-                                : 'bg-amber-100 text-amber-700 hover:bg-amber-200'
+                                : status === 'REJECTED'
+                                  ? 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+                                  : 'bg-amber-100 text-amber-700 hover:bg-amber-200'
                         }`}
                       >
                         {status.charAt(0) + status.slice(1).toLowerCase()}
@@ -598,32 +1080,42 @@ const SimpleAudioPlayer = ({
                     ))}
                   </div>
                   
-                  <button
-                    onClick={() => setReplyingTo(replyingTo === comment.id ? null : comment.id)}
-                    className="text-xs text-blue-600 hover:text-blue-800 transition-colors"
-                  >
-                    {replyingTo === comment.id ? 'Cancel' : 'Reply'}
-                  </button>
+                  <div className="flex items-center space-x-3">
+                    {comment.user.id === currentUserId && editingCommentId !== comment.id && (
+                      <button
+                        onClick={() => {
+                          setEditingCommentId(comment.id)
+                          setEditCommentText(comment.content)
+                        }}
+                        className="text-xs text-gray-500 hover:text-gray-700 transition-colors"
+                      >
+                        Edit
+                      </button>
+                    )}
+                    <button
+                      onClick={() => toggleHistory(comment.id)}
+                      className="text-xs text-gray-500 hover:text-gray-700 transition-colors"
+                    >
+                      {historyCommentId === comment.id ? 'Hide History' : 'History'}
+                    </button>
+                    <button
+                      onClick={() => replyingTo === comment.id ? cancelReply() : startReply(comment.id, null)}
+                      className="text-xs text-blue-600 hover:text-blue-800 transition-colors"
+                    >
+                      {replyingTo === comment.id ? 'Cancel' : 'Reply'}
+                    </button>
+                  </div>
                 </div>
 
                 {/* Replies */}
-                {comment.replies && comment.replies.length > 0 && (
-                  <div className="mt-3 space-y-2 pl-4 border-l-2 border-gray-200">
-                    {comment.replies.map((reply) => (
-                      <div key={reply.id} className="bg-gray-50 rounded p-3">
-                        <div className="flex items-center space-x-2 mb-1">
-                          <span className="text-xs font-medium text-gray-700">{reply.comment.user.name}</span>
-                          <span className="text-xs text-gray-500">{new Date(reply.createdAt).toLocaleDateString()}</span>
-                        </div>
-                        <p className="text-xs text-gray-800">{reply.content}</p>
-                      </div>
-                    ))}
-                  </div>
-                )}
+                {renderReplies(comment, null)}
 
                 {/* Reply Form */}
                 {replyingTo === comment.id && (
                   <div className="mt-3 p-3 bg-blue-50 rounded-lg border border-blue-200">
+                    {replyParent && (
+                      <p className="text-xs text-blue-700 mb-2">Replying to {replyParent.user.name}</p>
+                    )}
                     <textarea
                       value={replyContent}
                       onChange={(e) => setReplyContent(e.target.value)}
@@ -634,10 +1126,7 @@ const SimpleAudioPlayer = ({
                     />
                     <div className="flex items-center justify-end space-x-2 mt-2">
                       <button
-                        onClick={() => {
-                          setReplyingTo(null)
-                          setReplyContent('')
-                        }}
+                        onClick={cancelReply}
                         className="px-3 py-1 text-xs text-gray-600 hover:text-gray-800 transition-colors"
                       >
                         Cancel
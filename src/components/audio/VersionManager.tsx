@@ -1,6 +1,20 @@
 'use client'
 
 import { useState, useEffect } from 'react'
+import { useTrackEvents, VERSION_EVENT_TYPES } from './useTrackEvents'
+
+interface AnalysisReport {
+  stage: 'ORIGINAL' | 'NORMALIZED'
+  duration: number
+  sampleRate: number
+  bitDepth: number
+  channels: number
+  codec: string
+  integratedLufs: number
+  peakLevel: number
+  truePeak: number
+  dynamicRange: number
+}
 
 interface AudioVersion {
   id: string
@@ -9,11 +23,31 @@ interface AudioVersion {
   fileName: string
   filePath: string
   isActive: boolean
+  isFinal: boolean
+  finalizedAt?: string | null
+  finalizedBy?: { id: string; name: string } | null
   fileSize: number
   lufsLevel?: number
+  normalizationMode?: 'LINEAR' | 'DYNAMIC' | null
+  analysisReports?: AnalysisReport[]
   createdAt: string
 }
 
+// Apple Music delivery ceiling
+const MAX_TRUE_PEAK = -1.0
+
+const REPORT_ROWS: { label: string; format: (report: AnalysisReport) => string; exceeds?: (report: AnalysisReport) => boolean }[] = [
+  { label: 'Codec', format: r => r.codec },
+  { label: 'Sample Rate', format: r => `${(r.sampleRate / 1000).toFixed(1)} kHz` },
+  { label: 'Bit Depth', format: r => `${r.bitDepth}-bit` },
+  { label: 'Channels', format: r => r.channels.toString() },
+  { label: 'Duration', format: r => `${Math.floor(r.duration / 60)}:${Math.floor(r.duration % 60).toString().padStart(2, '0')}` },
+  { label: 'Integrated Loudness', format: r => `${r.integratedLufs.toFixed(1)} LUFS` },
+  { label: 'True Peak', format: r => `${r.truePeak.toFixed(1)} dBTP`, exceeds: r => r.truePeak > MAX_TRUE_PEAK },
+  { label: 'Momentary Max', format: r => `${r.peakLevel.toFixed(1)} LUFS` },
+  { label: 'Loudness Range', format: r => `${r.dynamicRange.toFixed(1)} LU` }
+]
+
 interface VersionManagerProps {
   trackId: string
   onVersionChange?: () => void
@@ -23,10 +57,13 @@ const VersionManager = ({ trackId, onVersionChange }: VersionManagerProps) => {
   const [versions, setVersions] = useState<AudioVersion[]>([])
   const [isLoading, setIsLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
+  const [expandedReport, setExpandedReport] = useState<string | null>(null)
+  const [actionError, setActionError] = useState('')
+  const [isAdmin, setIsAdmin] = useState(false)
 
+  // Refetches quietly; the loading state only covers the first load
   const fetchVersions = async () => {
     try {
-      setIsLoading(true)
       const response = await fetch(`/api/tracks/${trackId}/versions`)
       if (response.ok) {
         const data = await response.json()
@@ -45,6 +82,19 @@ const VersionManager = ({ trackId, onVersionChange }: VersionManagerProps) => {
     fetchVersions()
   }, [trackId])
 
+  // Uploads, activations and final locks made elsewhere
+  useTrackEvents(trackId, VERSION_EVENT_TYPES, () => {
+    fetchVersions()
+  })
+
+  // Only admins can unlock a final version
+  useEffect(() => {
+    fetch('/api/user/me')
+      .then(response => response.ok ? response.json() : null)
+      .then(user => setIsAdmin(user?.role === 'ADMIN'))
+      .catch(() => setIsAdmin(false))
+  }, [])
+
   const setActiveVersion = async (versionId: string, versionType: string) => {
     try {
       const response = await fetch(`/api/tracks/${trackId}/versions/${versionId}/activate`, {
@@ -65,7 +115,7 @@ const VersionManager = ({ trackId, onVersionChange }: VersionManagerProps) => {
   }
 
   const deleteVersion = async (versionId: string) => {
-    if (!confirm('Are you sure you want to delete this version?')) return
+    if (!confirm('Move this version and its comments to the trash?')) return
 
     try {
       const response = await fetch(`/api/tracks/${trackId}/versions/${versionId}`, {
@@ -80,6 +130,51 @@ const VersionManager = ({ trackId, onVersionChange }: VersionManagerProps) => {
     }
   }
 
+  const markFinal = async (versionId: string) => {
+    if (!confirm('Lock this version as the approved final? It can then only be unlocked by an admin.')) return
+    setActionError('')
+
+    try {
+      const response = await fetch(`/api/tracks/${trackId}/versions/${versionId}/final`, {
+        method: 'POST'
+      })
+
+      if (response.ok) {
+        fetchVersions()
+        onVersionChange?.()
+      } else {
+        const data = await response.json()
+        setActionError(data.error || 'Failed to mark version final')
+      }
+    } catch (err) {
+      console.error('Error marking version final:', err)
+    }
+  }
+
+  const unlockFinal = async (versionId: string) => {
+    const reason = prompt('Reason for unlocking this final version:')
+    if (!reason?.trim()) return
+    setActionError('')
+
+    try {
+      const response = await fetch(`/api/tracks/${trackId}/versions/${versionId}/final`, {
+        method: 'DELETE',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ reason })
+      })
+
+      if (response.ok) {
+        fetchVersions()
+        onVersionChange?.()
+      } else {
+        const data = await response.json()
+        setActionError(data.error || 'Failed to unlock version')
+      }
+    } catch (err) {
+      console.error('Error unlocking version:', err)
+    }
+  }
+
   const formatFileSize = (bytes: number) => {
     if (bytes === 0) return '0 Bytes'
     const k = 1024
@@ -137,82 +232,174 @@ const VersionManager = ({ trackId, onVersionChange }: VersionManagerProps) => {
         </div>
       </div>
 
-      {Object.entries(groupedVersions).map(([type, typeVersions]) => (
-        <div key={type} className="bg-white rounded-xl border border-gray-200 overflow-hidden">
-          <div className="bg-gray-50 px-4 py-3 border-b border-gray-200">
-            <div className="flex items-center justify-between">
-              <div className="flex items-center space-x-3">
-                <span className={`px-3 py-1 rounded-lg text-xs font-medium border ${getVersionTypeColor(type)}`}>
-                  {type}
-                </span>
-                <span className="text-sm text-gray-600">
-                  {typeVersions.length} version{typeVersions.length !== 1 ? 's' : ''}
-                </span>
+      {actionError && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-3">
+          <p className="text-red-600 text-sm">{actionError}</p>
+        </div>
+      )}
+
+      {Object.entries(groupedVersions).map(([type, typeVersions]) => {
+        // A final version freezes every version of its type
+        const isLocked = typeVersions.some(v => v.isFinal)
+
+        return (
+          <div key={type} className="bg-white rounded-xl border border-gray-200 overflow-hidden">
+            <div className="bg-gray-50 px-4 py-3 border-b border-gray-200">
+              <div className="flex items-center justify-between">
+                <div className="flex items-center space-x-3">
+                  <span className={`px-3 py-1 rounded-lg text-xs font-medium border ${getVersionTypeColor(type)}`}>
+                    {type}
+                  </span>
+                  <span className="text-sm text-gray-600">
+                    {typeVersions.length} version{typeVersions.length !== 1 ? 's' : ''}
+                  </span>
+                </div>
+                {isLocked && (
+                  <span className="text-xs text-gray-500">Locked</span>
+                )}
               </div>
             </div>
-          </div>
 
-          <div className="divide-y divide-gray-200">
-            {typeVersions
-              .sort((a, b) => b.versionNumber - a.versionNumber)
-              .map((version) => (
-                <div
-                  key={version.id}
-                  className="p-4 hover:bg-gray-50 transition-colors"
-                >
-                  <div className="flex items-center justify-between">
-                    <div className="flex-1">
-                      <div className="flex items-center space-x-3 mb-2">
-                        <span className="font-medium text-gray-900">
-                          Version {version.versionNumber}
-                        </span>
-                        {version.isActive && (
-                          <span className="px-2 py-1 bg-green-100 text-green-800 text-xs font-medium rounded-full">
-                            Active
+            <div className="divide-y divide-gray-200">
+              {typeVersions
+                .sort((a, b) => b.versionNumber - a.versionNumber)
+                .map((version) => (
+                  <div
+                    key={version.id}
+                    className="p-4 hover:bg-gray-50 transition-colors"
+                  >
+                    <div className="flex items-center justify-between">
+                      <div className="flex-1">
+                        <div className="flex items-center space-x-3 mb-2">
+                          <span className="font-medium text-gray-900">
+                            Version {version.versionNumber}
                           </span>
-                        )}
-                        <span className="text-sm text-gray-500">
-                          {new Date(version.createdAt).toLocaleDateString()}
-                        </span>
+                          {version.isActive && (
+                            <span className="px-2 py-1 bg-green-100 text-green-800 text-xs font-medium rounded-full">
+                              Active
+                            </span>
+                          )}
+                          {version.isFinal && (
+                            <span
+                              className="inline-flex items-center space-x-1 px-2 py-1 bg-gray-900 text-white text-xs font-medium rounded-full"
+                              title={`Locked${version.finalizedBy ? ` by ${version.finalizedBy.name}` : ''}${version.finalizedAt ? ` on ${new Date(version.finalizedAt).toLocaleDateString()}` : ''}`}
+                            >
+                              <svg className="w-3 h-3" fill="currentColor" viewBox="0 0 24 24">
+                                <path d="M18 8h-1V6c0-2.76-2.24-5-5-5S7 3.24 7 6v2H6c-1.1 0-2 .9-2 2v10c0 1.1.9 2 2 2h12c1.1 0 2-.9 2-2V10c0-1.1-.9-2-2-2zM9 6c0-1.66 1.34-3 3-3s3 1.34 3 3v2H9V6z"/>
+                              </svg>
+                              <span>Final</span>
+                            </span>
+                          )}
+                          <span className="text-sm text-gray-500">
+                            {new Date(version.createdAt).toLocaleDateString()}
+                          </span>
+                        </div>
+                        
+                        <div className="flex items-center space-x-4 text-sm text-gray-600">
+                          <span>{version.fileName}</span>
+                          <span>{formatFileSize(version.fileSize)}</span>
+                          {version.lufsLevel && (
+                            <span>{version.lufsLevel.toFixed(1)} LUFS</span>
+                          )}
+                          {version.normalizationMode && (
+                            <span
+                              className="px-2 py-0.5 bg-gray-100 text-gray-600 text-xs rounded"
+                              title={version.normalizationMode === 'LINEAR' ? 'Two-pass linear gain normalization' : 'Dynamic loudnorm (linear would exceed the true-peak ceiling)'}
+                            >
+                              {version.normalizationMode.toLowerCase()}
+                            </span>
+                          )}
+                        </div>
                       </div>
-                      
-                      <div className="flex items-center space-x-4 text-sm text-gray-600">
-                        <span>{version.fileName}</span>
-                        <span>{formatFileSize(version.fileSize)}</span>
-                        {version.lufsLevel && (
-                          <span>{version.lufsLevel.toFixed(1)} LUFS</span>
+
+                      <div className="flex items-center space-x-2">
+                        {version.analysisReports && version.analysisReports.length > 0 && (
+                          <button
+                            onClick={() => setExpandedReport(expandedReport === version.id ? null : version.id)}
+                            className="px-3 py-2 text-gray-600 hover:text-gray-800 hover:bg-gray-100 text-sm font-medium rounded-lg transition-colors"
+                          >
+                            {expandedReport === version.id ? 'Hide Report' : 'Report'}
+                          </button>
+                        )}
+                        {version.isActive && !version.isFinal && (
+                          <button
+                            onClick={() => markFinal(version.id)}
+                            className="px-3 py-2 text-gray-700 hover:text-gray-900 hover:bg-gray-100 text-sm font-medium rounded-lg transition-colors"
+                          >
+                            Mark Final
+                          </button>
+                        )}
+                        {version.isFinal && isAdmin && (
+                          <button
+                            onClick={() => unlockFinal(version.id)}
+                            className="px-3 py-2 text-gray-700 hover:text-gray-900 hover:bg-gray-100 text-sm font-medium rounded-lg transition-colors"
+                          >
+                            Unlock
+                          </button>
+                        )}
+                        {!version.isActive && !isLocked && (
+                          <button
+                            onClick={() => setActiveVersion(version.id, version.versionType)}
+                            className="px-4 py-2 bg-red-600 hover:bg-red-700 text-white text-sm font-medium rounded-lg transition-colors"
+                          >
+                            Set Active
+                          </button>
+                        )}
+                        
+                        {typeVersions.length > 1 && !version.isFinal && (
+                          <button
+                            onClick={() => deleteVersion(version.id)}
+                            className="p-2 text-red-600 hover:text-red-700 hover:bg-red-50 rounded-lg transition-colors"
+                            title="Delete version"
+                          >
+                            <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 24 24">
+                              <path d="M19 6.41L17.59 5 12 10.59 6.41 5 5 6.41 10.59 12 5 17.59 6.41 19 12 13.41 17.59 19 19 17.59 13.41 12z"/>
+                            </svg>
+                          </button>
                         )}
                       </div>
                     </div>
 
-                    <div className="flex items-center space-x-2">
-                      {!version.isActive && (
-                        <button
-                          onClick={() => setActiveVersion(version.id, version.versionType)}
-                          className="px-4 py-2 bg-red-600 hover:bg-red-700 text-white text-sm font-medium rounded-lg transition-colors"
-                        >
-                          Set Active
-                        </button>
-                      )}
-                      
-                      {typeVersions.length > 1 && (
-                        <button
-                          onClick={() => deleteVersion(version.id)}
-                          className="p-2 text-red-600 hover:text-red-700 hover:bg-red-50 rounded-lg transition-colors"
-                          title="Delete version"
-                        >
-                          <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 24 24">
-                            <path d="M19 6.41L17.59 5 12 10.59 6.41 5 5 6.41 10.59 12 5 17.59 6.41 19 12 13.41 17.59 19 19 17.59 13.41 12z"/>
-                          </svg>
-                        </button>
-                      )}
-                    </div>
+                    {expandedReport === version.id && version.analysisReports && (
+                      <div className="mt-4 overflow-x-auto">
+                        <table className="w-full text-sm">
+                          <thead>
+                            <tr className="text-left text-xs uppercase tracking-wide text-gray-500 border-b border-gray-200">
+                              <th className="py-2 pr-4 font-medium">Technical Report</th>
+                              {(['ORIGINAL', 'NORMALIZED'] as const).map(stage => (
+                                <th key={stage} className="py-2 pr-4 font-medium">
+                                  {stage === 'ORIGINAL' ? 'Original Upload' : 'Normalized'}
+                                </th>
+                              ))}
+                            </tr>
+                          </thead>
+                          <tbody className="divide-y divide-gray-100">
+                            {REPORT_ROWS.map(row => (
+                              <tr key={row.label}>
+                                <td className="py-2 pr-4 text-gray-600">{row.label}</td>
+                                {(['ORIGINAL', 'NORMALIZED'] as const).map(stage => {
+                                  const report = version.analysisReports?.find(r => r.stage === stage)
+                                  return (
+                                    <td
+                                      key={stage}
+                                      className={`py-2 pr-4 font-mono ${report && row.exceeds?.(report) ? 'text-red-600 font-semibold' : 'text-gray-900'}`}
+                                    >
+                                      {report ? row.format(report) : '—'}
+                                    </td>
+                                  )
+                                })}
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      </div>
+                    )}
                   </div>
-                </div>
-              ))}
+                ))}
+            </div>
           </div>
-        </div>
-      ))}
+        )
+      })}
 
       {versions.length === 0 && (
         <div className="text-center py-8 bg-gray-50 rounded-xl border-2 border-dashed border-gray-300">
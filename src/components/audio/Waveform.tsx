@@ -0,0 +1,250 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+
+export interface WaveformMarker {
+  id: string
+  timeMs: number
+  // Set for region comments; the marker then spans timeMs..endMs
+  endMs?: number | null
+  colorClass: string
+  title: string
+}
+
+export interface WaveformRegion {
+  startMs: number
+  endMs: number
+}
+
+interface WaveformProps {
+  trackId: string
+  audioVersionId: string
+  currentTime: number
+  duration: number
+  markers?: WaveformMarker[]
+  onSeek: (timeSeconds: number) => void
+  onMarkerClick?: (markerId: string) => void
+  // Region picked by dragging across the waveform
+  selection?: WaveformRegion | null
+  onSelect?: (region: WaveformRegion) => void
+  fallback?: React.ReactNode
+}
+
+interface WaveformPeaks {
+  duration: number
+  width: number
+  peaks: number[] // interleaved [min, max]
+}
+
+const WAVEFORM_HEIGHT = 80
+const PLAYED_COLOR = '#dc2626' // red-600
+const UNPLAYED_COLOR = '#d1d5db' // gray-300
+// Pointer travel below this is a click, not a drag
+const DRAG_THRESHOLD_PX = 4
+
+const Waveform = ({
+  trackId,
+  audioVersionId,
+  currentTime,
+  duration,
+  markers = [],
+  onSeek,
+  onMarkerClick,
+  selection = null,
+  onSelect,
+  fallback = null
+}: WaveformProps) => {
+  const containerRef = useRef<HTMLDivElement>(null)
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+  const [waveform, setWaveform] = useState<WaveformPeaks | null>(null)
+  const [unavailable, setUnavailable] = useState(false)
+  const [canvasWidth, setCanvasWidth] = useState(0)
+  const dragStartRef = useRef<number | null>(null)
+  const [dragRegion, setDragRegion] = useState<WaveformRegion | null>(null)
+
+  // Keep the canvas sized to its container
+  useEffect(() => {
+    const container = containerRef.current
+    if (!container) return
+
+    const observer = new ResizeObserver(entries => {
+      setCanvasWidth(Math.floor(entries[0].contentRect.width))
+    })
+    observer.observe(container)
+    return () => observer.disconnect()
+  }, [unavailable])
+
+  useEffect(() => {
+    let cancelled = false
+    const pixelWidth = Math.ceil((containerRef.current?.clientWidth || 1024) * window.devicePixelRatio)
+
+    setWaveform(null)
+    setUnavailable(false)
+
+    fetch(`/api/tracks/${trackId}/versions/${audioVersionId}/waveform?width=${pixelWidth}`)
+      .then(async response => {
+        if (cancelled) return
+        if (!response.ok) {
+          setUnavailable(true)
+          return
+        }
+        setWaveform(await response.json())
+      })
+      .catch(error => {
+        console.error('Error fetching waveform:', error)
+        if (!cancelled) setUnavailable(true)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [trackId, audioVersionId])
+
+  const totalDuration = duration > 0 ? duration : waveform?.duration || 0
+
+  useEffect(() => {
+    const canvas = canvasRef.current
+    if (!canvas || !waveform || canvasWidth === 0) return
+
+    const dpr = window.devicePixelRatio || 1
+    canvas.width = canvasWidth * dpr
+    canvas.height = WAVEFORM_HEIGHT * dpr
+
+    const ctx = canvas.getContext('2d')
+    if (!ctx) return
+
+    ctx.scale(dpr, dpr)
+    ctx.clearRect(0, 0, canvasWidth, WAVEFORM_HEIGHT)
+
+    const buckets = waveform.peaks.length / 2
+    const mid = WAVEFORM_HEIGHT / 2
+    const progressX = totalDuration > 0 ? (currentTime / totalDuration) * canvasWidth : 0
+
+    for (let x = 0; x < canvasWidth; x++) {
+      // Combine every bucket that falls under this pixel column
+      const start = Math.floor((x * buckets) / canvasWidth)
+      const end = Math.max(start + 1, Math.floor(((x + 1) * buckets) / canvasWidth))
+
+      let min = 0
+      let max = 0
+      for (let i = start; i < end && i < buckets; i++) {
+        min = Math.min(min, waveform.peaks[i * 2])
+        max = Math.max(max, waveform.peaks[i * 2 + 1])
+      }
+
+      const top = mid - max * mid
+      const height = Math.max(1, (max - min) * mid)
+      ctx.fillStyle = x < progressX ? PLAYED_COLOR : UNPLAYED_COLOR
+      ctx.fillRect(x, top, 1, height)
+    }
+  }, [waveform, canvasWidth, currentTime, totalDuration])
+
+  const timeAtPointer = (e: React.PointerEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect()
+    const fraction = Math.min(1, Math.max(0, (e.clientX - rect.left) / rect.width))
+    return fraction * totalDuration
+  }
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (totalDuration <= 0 || e.button !== 0) return
+    e.currentTarget.setPointerCapture(e.pointerId)
+    dragStartRef.current = e.clientX
+  }
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const startX = dragStartRef.current
+    if (startX === null || !onSelect || Math.abs(e.clientX - startX) < DRAG_THRESHOLD_PX) return
+
+    const rect = e.currentTarget.getBoundingClientRect()
+    const startTime = Math.min(1, Math.max(0, (startX - rect.left) / rect.width)) * totalDuration
+    const time = timeAtPointer(e)
+    setDragRegion({
+      startMs: Math.round(Math.min(startTime, time) * 1000),
+      endMs: Math.round(Math.max(startTime, time) * 1000)
+    })
+  }
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (dragStartRef.current === null) return
+    dragStartRef.current = null
+
+    if (dragRegion && dragRegion.endMs > dragRegion.startMs) {
+      onSelect?.(dragRegion)
+      onSeek(dragRegion.startMs / 1000)
+    } else {
+      onSeek(timeAtPointer(e))
+    }
+    setDragRegion(null)
+  }
+
+  const regionStyle = (startMs: number, endMs: number) => ({
+    left: `${Math.min(100, (startMs / 1000 / totalDuration) * 100)}%`,
+    width: `${Math.max(0, Math.min(100, (endMs / 1000 / totalDuration) * 100) - Math.min(100, (startMs / 1000 / totalDuration) * 100))}%`
+  })
+
+  const visibleSelection = dragRegion || selection
+
+  if (unavailable) {
+    return <>{fallback}</>
+  }
+
+  return (
+    <div
+      ref={containerRef}
+      className="relative w-full cursor-pointer select-none"
+      style={{ height: WAVEFORM_HEIGHT }}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+    >
+      {waveform ? (
+        <canvas
+          ref={canvasRef}
+          className="absolute inset-0"
+          style={{ width: canvasWidth, height: WAVEFORM_HEIGHT }}
+        />
+      ) : (
+        <div className="absolute inset-0 bg-gray-100 rounded animate-pulse" />
+      )}
+
+      {/* Comment Regions */}
+      {totalDuration > 0 && markers.filter(marker => marker.endMs).map(marker => (
+        <div
+          key={`${marker.id}-region`}
+          className={`absolute top-0 h-full opacity-20 pointer-events-none ${marker.colorClass}`}
+          style={regionStyle(marker.timeMs, marker.endMs as number)}
+        />
+      ))}
+
+      {/* Selected Region */}
+      {totalDuration > 0 && visibleSelection && (
+        <div
+          className="absolute top-0 h-full bg-blue-500/20 border-x-2 border-blue-500 pointer-events-none"
+          style={regionStyle(visibleSelection.startMs, visibleSelection.endMs)}
+        />
+      )}
+
+      {/* Comment Markers */}
+      {totalDuration > 0 && markers.map(marker => (
+        <div
+          key={marker.id}
+          className="absolute top-0 h-full -translate-x-1/2 flex flex-col items-center group z-10"
+          style={{ left: `${Math.min(100, (marker.timeMs / 1000 / totalDuration) * 100)}%` }}
+          onPointerDown={(e) => e.stopPropagation()}
+          onPointerUp={(e) => e.stopPropagation()}
+          onClick={(e) => {
+            e.stopPropagation()
+            onSeek(marker.timeMs / 1000)
+            onMarkerClick?.(marker.id)
+          }}
+          title={marker.title}
+        >
+          <div className={`w-2.5 h-2.5 rounded-full border border-white shadow-sm group-hover:scale-125 transition-transform ${marker.colorClass}`} />
+          <div className={`w-px flex-1 opacity-60 ${marker.colorClass}`} />
+        </div>
+      ))}
+    </div>
+  )
+}
+
+export default Waveform
@@ -0,0 +1,99 @@
+'use client'
+
+import { useEffect, useRef } from 'react'
+
+export type TrackEventType =
+  | 'COMMENT_CREATED'
+  | 'COMMENT_UPDATED'
+  | 'COMMENT_DELETED'
+  | 'REPLY_ADDED'
+  | 'VERSION_UPLOADED'
+  | 'VERSION_ACTIVATED'
+  | 'VERSION_UPDATED'
+
+export const COMMENT_EVENT_TYPES: TrackEventType[] = ['COMMENT_CREATED', 'COMMENT_UPDATED', 'COMMENT_DELETED', 'REPLY_ADDED']
+export const VERSION_EVENT_TYPES: TrackEventType[] = ['VERSION_UPLOADED', 'VERSION_ACTIVATED', 'VERSION_UPDATED']
+
+export interface TrackEventMessage {
+  type: TrackEventType
+  data: {
+    actorId?: string
+    commentId?: string
+    replyId?: string
+    versionId?: string
+    audioVersionId?: string
+    createdAt: string
+  }
+}
+
+type Listener = (event: TrackEventMessage) => void
+
+interface Connection {
+  source: EventSource
+  listeners: Set<Listener>
+}
+
+// Components on the same track share one stream instead of opening their own
+const connections = new Map<string, Connection>()
+
+const ALL_EVENT_TYPES: TrackEventType[] = [...COMMENT_EVENT_TYPES, ...VERSION_EVENT_TYPES]
+
+function subscribe(trackId: string, listener: Listener) {
+  let connection = connections.get(trackId)
+
+  if (!connection) {
+    const source = new EventSource(`/api/tracks/${trackId}/events`)
+    const listeners = new Set<Listener>()
+    ALL_EVENT_TYPES.forEach(type => {
+      source.addEventListener(type, (event: MessageEvent) => {
+        let data: TrackEventMessage['data']
+        try {
+          data = JSON.parse(event.data)
+        } catch {
+          return
+        }
+        listeners.forEach(notify => notify({ type, data }))
+      })
+    })
+    connection = { source, listeners }
+    connections.set(trackId, connection)
+  }
+
+  connection.listeners.add(listener)
+
+  return () => {
+    const current = connections.get(trackId)
+    if (!current) return
+    current.listeners.delete(listener)
+    if (current.listeners.size === 0) {
+      current.source.close()
+      connections.delete(trackId)
+    }
+  }
+}
+
+/**
+ * Call `onEvent` whenever someone else (or another tab) changes the track.
+ * EventSource reconnects by itself and resumes from the last event it saw.
+ */
+export function useTrackEvents(
+  trackId: string | undefined,
+  types: TrackEventType[],
+  onEvent: (event: TrackEventMessage) => void
+) {
+  // Latest handler and types, so callers needn't memoize them
+  const onEventRef = useRef(onEvent)
+  const typesRef = useRef(types)
+  onEventRef.current = onEvent
+  typesRef.current = types
+
+  useEffect(() => {
+    if (!trackId || typeof EventSource === 'undefined') return
+
+    return subscribe(trackId, event => {
+      if (typesRef.current.includes(event.type)) {
+        onEventRef.current(event)
+      }
+    })
+  }, [trackId])
+}
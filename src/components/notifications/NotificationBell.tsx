@@ -0,0 +1,151 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import Link from 'next/link'
+
+type NotificationType = 'MENTION' | 'COMMENT' | 'REPLY' | 'UPLOAD' | 'APPROVAL'
+
+interface Notification {
+  id: string
+  type: NotificationType
+  message: string
+  link?: string | null
+  readAt?: string | null
+  createdAt: string
+  project: {
+    id: string
+    name: string
+  }
+}
+
+const POLL_INTERVAL_MS = 60000
+
+const TYPE_STYLES: Record<NotificationType, string> = {
+  MENTION: 'bg-red-100 text-red-700',
+  COMMENT: 'bg-amber-100 text-amber-700',
+  REPLY: 'bg-blue-100 text-blue-700',
+  UPLOAD: 'bg-green-100 text-green-700',
+  APPROVAL: 'bg-purple-100 text-purple-700'
+}
+
+const NotificationBell = () => {
+  const [notifications, setNotifications] = useState<Notification[]>([])
+  const [unreadCount, setUnreadCount] = useState(0)
+  const [open, setOpen] = useState(false)
+
+  const fetchNotifications = useCallback(async () => {
+    try {
+      const response = await fetch('/api/notifications')
+      if (response.ok) {
+        const data = await response.json()
+        setNotifications(data.notifications)
+        setUnreadCount(data.unreadCount)
+      }
+    } catch (error) {
+      console.error('Error fetching notifications:', error)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchNotifications()
+    const interval = setInterval(fetchNotifications, POLL_INTERVAL_MS)
+    return () => clearInterval(interval)
+  }, [fetchNotifications])
+
+  const markRead = async (body: { ids: string[] } | { all: true }) => {
+    try {
+      const response = await fetch('/api/notifications', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body)
+      })
+      if (response.ok) {
+        fetchNotifications()
+      }
+    } catch (error) {
+      console.error('Error marking notifications read:', error)
+    }
+  }
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        className="relative p-2 rounded-lg hover:bg-white/10 transition-colors"
+        title="Notifications"
+      >
+        <svg className="w-6 h-6 text-white" fill="currentColor" viewBox="0 0 24 24">
+          <path d="M12 22c1.1 0 2-.9 2-2h-4c0 1.1.89 2 2 2zm6-6v-5c0-3.07-1.64-5.64-4.5-6.32V4c0-.83-.67-1.5-1.5-1.5s-1.5.67-1.5 1.5v.68C7.63 5.36 6 7.92 6 11v5l-2 2v1h16v-1l-2-2z"/>
+        </svg>
+        {unreadCount > 0 && (
+          <span className="absolute -top-0.5 -right-0.5 min-w-[1.25rem] h-5 px-1 bg-red-600 text-white text-xs font-bold rounded-full flex items-center justify-center">
+            {unreadCount > 99 ? '99+' : unreadCount}
+          </span>
+        )}
+      </button>
+
+      {open && (
+        <div className="absolute right-0 mt-2 w-96 bg-white rounded-lg shadow-lg border border-gray-200 z-50">
+          <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200">
+            <h3 className="font-semibold text-gray-800">Notifications</h3>
+            {unreadCount > 0 && (
+              <button
+                onClick={() => markRead({ all: true })}
+                className="text-xs text-red-600 hover:text-red-700 transition-colors"
+              >
+                Mark all read
+              </button>
+            )}
+          </div>
+
+          {notifications.length === 0 ? (
+            <p className="px-4 py-6 text-sm text-gray-500 text-center">You&apos;re all caught up.</p>
+          ) : (
+            <ul className="max-h-96 overflow-y-auto divide-y divide-gray-100">
+              {notifications.map(notification => {
+                const content = (
+                  <div className="flex items-start space-x-3">
+                    <span className={`mt-0.5 px-1.5 py-0.5 rounded text-xs font-medium ${TYPE_STYLES[notification.type]}`}>
+                      {notification.type.toLowerCase()}
+                    </span>
+                    <div className="flex-1 min-w-0">
+                      <p className={`text-sm ${notification.readAt ? 'text-gray-500' : 'text-gray-800 font-medium'}`}>
+                        {notification.message}
+                      </p>
+                      <p className="text-xs text-gray-400">
+                        {notification.project.name} · {new Date(notification.createdAt).toLocaleString()}
+                      </p>
+                    </div>
+                  </div>
+                )
+
+                return (
+                  <li key={notification.id} className={notification.readAt ? '' : 'bg-red-50/50'}>
+                    {notification.link ? (
+                      <Link
+                        href={notification.link}
+                        onClick={() => !notification.readAt && markRead({ ids: [notification.id] })}
+                        className="block px-4 py-3 hover:bg-gray-50 transition-colors"
+                      >
+                        {content}
+                      </Link>
+                    ) : (
+                      <button
+                        onClick={() => !notification.readAt && markRead({ ids: [notification.id] })}
+                        className="block w-full text-left px-4 py-3 hover:bg-gray-50 transition-colors"
+                      >
+                        {content}
+                      </button>
+                    )}
+                  </li>
+                )
+              })}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default NotificationBell
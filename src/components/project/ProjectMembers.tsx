@@ -0,0 +1,193 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+
+type ProjectRole = 'OWNER' | 'COLLABORATOR' | 'VIEWER'
+
+export interface ProjectMember {
+  id: string
+  role: ProjectRole
+  user: {
+    id: string
+    name: string
+    email: string
+  }
+}
+
+interface PendingInvitation {
+  id: string
+  email: string
+  role: ProjectRole
+  expiresAt: string
+}
+
+interface ProjectMembersProps {
+  projectId: string
+  members: ProjectMember[]
+  onMembersChange: () => void
+}
+
+const ROLE_STYLES: Record<ProjectRole, string> = {
+  OWNER: 'bg-red-100 text-red-700',
+  COLLABORATOR: 'bg-blue-100 text-blue-700',
+  VIEWER: 'bg-gray-100 text-gray-700'
+}
+
+const ProjectMembers = ({ projectId, members, onMembersChange }: ProjectMembersProps) => {
+  const [invitations, setInvitations] = useState<PendingInvitation[]>([])
+  const [canManage, setCanManage] = useState(false)
+  const [email, setEmail] = useState('')
+  const [role, setRole] = useState<ProjectRole>('COLLABORATOR')
+  const [sending, setSending] = useState(false)
+  const [error, setError] = useState('')
+  const [notice, setNotice] = useState('')
+
+  // Only people who can manage members get the invitation list back
+  const fetchInvitations = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/projects/${projectId}/invitations`)
+      setCanManage(response.ok)
+      if (response.ok) {
+        setInvitations(await response.json())
+      }
+    } catch (error) {
+      console.error('Error fetching invitations:', error)
+    }
+  }, [projectId])
+
+  useEffect(() => {
+    fetchInvitations()
+  }, [fetchInvitations])
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setSending(true)
+    setError('')
+    setNotice('')
+
+    try {
+      const response = await fetch(`/api/projects/${projectId}/invitations`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email, role })
+      })
+      const data = await response.json()
+
+      if (response.ok) {
+        setNotice(`Invitation sent to ${data.email}`)
+        setEmail('')
+        fetchInvitations()
+      } else {
+        setError(data.error || 'Failed to send invitation')
+      }
+    } catch {
+      setError('Network error. Please try again.')
+    } finally {
+      setSending(false)
+    }
+  }
+
+  const handleRemove = async (memberId: string) => {
+    setError('')
+    try {
+      const response = await fetch(`/api/projects/${projectId}/members/${memberId}`, { method: 'DELETE' })
+      if (response.ok) {
+        onMembersChange()
+      } else {
+        const data = await response.json()
+        setError(data.error || 'Failed to remove member')
+      }
+    } catch {
+      setError('Network error. Please try again.')
+    }
+  }
+
+  return (
+    <div className="bg-white/95 backdrop-blur-sm rounded-2xl shadow-2xl border border-gray-200 overflow-hidden mb-8">
+      <div className="px-8 py-6 border-b border-gray-200">
+        <h2 className="text-2xl font-bold text-gray-800">Members</h2>
+      </div>
+
+      <div className="px-8 py-6 space-y-6">
+        <ul className="divide-y divide-gray-200">
+          {members.map(member => (
+            <li key={member.id} className="flex items-center justify-between py-3">
+              <div>
+                <p className="font-medium text-gray-800">{member.user.name}</p>
+                <p className="text-sm text-gray-500">{member.user.email}</p>
+              </div>
+              <div className="flex items-center space-x-3">
+                <span className={`px-2 py-1 rounded text-xs font-medium ${ROLE_STYLES[member.role]}`}>
+                  {member.role.toLowerCase()}
+                </span>
+                {canManage && (
+                  <button
+                    onClick={() => handleRemove(member.id)}
+                    className="text-xs text-gray-500 hover:text-red-600 transition-colors"
+                  >
+                    Remove
+                  </button>
+                )}
+              </div>
+            </li>
+          ))}
+          {invitations.map(invitation => (
+            <li key={invitation.id} className="flex items-center justify-between py-3">
+              <div>
+                <p className="font-medium text-gray-500">{invitation.email}</p>
+                <p className="text-sm text-gray-400">
+                  Invited, expires {new Date(invitation.expiresAt).toLocaleDateString()}
+                </p>
+              </div>
+              <span className={`px-2 py-1 rounded text-xs font-medium opacity-60 ${ROLE_STYLES[invitation.role]}`}>
+                {invitation.role.toLowerCase()}
+              </span>
+            </li>
+          ))}
+        </ul>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-3">
+            <p className="text-red-600 text-sm">{error}</p>
+          </div>
+        )}
+        {notice && (
+          <div className="bg-green-50 border border-green-200 rounded-lg p-3">
+            <p className="text-green-700 text-sm">{notice}</p>
+          </div>
+        )}
+
+        {canManage && (
+          <form onSubmit={handleInvite} className="flex flex-col sm:flex-row gap-3">
+            <input
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              required
+              placeholder="name@example.com"
+              className="flex-1 px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-transparent transition-colors"
+            />
+            <select
+              value={role}
+              onChange={(e) => setRole(e.target.value as ProjectRole)}
+              className="px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-transparent"
+            >
+              <option value="COLLABORATOR">Collaborator</option>
+              <option value="VIEWER">Viewer</option>
+              <option value="OWNER">Owner</option>
+            </select>
+            <button
+              type="submit"
+              disabled={sending || !email.trim()}
+              className="px-6 py-2 bg-red-600 hover:bg-red-700 disabled:bg-gray-400 text-white rounded-lg transition-colors font-medium"
+            >
+              {sending ? 'Sending...' : 'Invite'}
+            </button>
+          </form>
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default ProjectMembers
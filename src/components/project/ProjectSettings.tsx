@@ -0,0 +1,286 @@
+'use client'
+
+import { useRef, useState } from 'react'
+import { imageSrc } from '@/lib/imageUrls'
+
+export type ProjectStatus = 'ACTIVE' | 'COMPLETED' | 'ARCHIVED'
+
+interface ProjectDetails {
+  id: string
+  name: string
+  artist: string
+  description?: string | null
+  coverImage?: string | null
+  status: ProjectStatus
+  // Completed or archived for this user: only the status can change
+  readOnly?: boolean
+}
+
+interface ProjectSettingsProps {
+  project: ProjectDetails
+  onClose: () => void
+  onSaved: () => void
+}
+
+const STATUS_OPTIONS: { value: ProjectStatus; label: string; description: string }[] = [
+  { value: 'ACTIVE', label: 'Active', description: 'Open for uploads, comments and sign-off' },
+  { value: 'COMPLETED', label: 'Completed', description: 'Delivered; read-only for clients' },
+  { value: 'ARCHIVED', label: 'Archived', description: 'Shelved; read-only for clients' }
+]
+
+const ProjectSettings = ({ project, onClose, onSaved }: ProjectSettingsProps) => {
+  const [form, setForm] = useState({
+    name: project.name,
+    artist: project.artist,
+    description: project.description || '',
+    status: project.status
+  })
+  const [coverImage, setCoverImage] = useState(project.coverImage || null)
+  const [uploadingCover, setUploadingCover] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState('')
+  const coverInputRef = useRef<HTMLInputElement>(null)
+  const detailsLocked = !!project.readOnly
+
+  // The cover is stored as soon as it's picked, separately from the form
+  const handleCoverChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file) return
+
+    setUploadingCover(true)
+    setError('')
+
+    try {
+      const body = new FormData()
+      body.append('file', file)
+      const response = await fetch(`/api/projects/${project.id}/cover`, { method: 'POST', body })
+      const data = await response.json()
+
+      if (response.ok) {
+        setCoverImage(data.coverImage)
+        onSaved()
+      } else {
+        setError(data.error || 'Failed to upload cover image')
+      }
+    } catch {
+      setError('Network error. Please try again.')
+    } finally {
+      setUploadingCover(false)
+    }
+  }
+
+  const handleCoverRemove = async () => {
+    setUploadingCover(true)
+    setError('')
+
+    try {
+      const response = await fetch(`/api/projects/${project.id}/cover`, { method: 'DELETE' })
+      if (response.ok) {
+        setCoverImage(null)
+        onSaved()
+      } else {
+        const data = await response.json()
+        setError(data.error || 'Failed to remove cover image')
+      }
+    } catch {
+      setError('Network error. Please try again.')
+    } finally {
+      setUploadingCover(false)
+    }
+  }
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
+    setForm(prev => ({
+      ...prev,
+      [e.target.name]: e.target.value
+    }))
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setSaving(true)
+    setError('')
+
+    try {
+      const response = await fetch(`/api/projects/${project.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(detailsLocked ? { status: form.status } : form)
+      })
+
+      if (response.ok) {
+        onSaved()
+        onClose()
+      } else {
+        const data = await response.json()
+        setError(data.error || 'Failed to update project')
+      }
+    } catch {
+      setError('Network error. Please try again.')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const inputClassName = 'w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-transparent transition-colors disabled:bg-gray-100 disabled:text-gray-500'
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-md">
+        <div className="bg-gradient-to-r from-red-600 to-red-800 px-6 py-4 rounded-t-2xl">
+          <div className="flex items-center justify-between">
+            <h3 className="text-xl font-bold text-white">Edit Project</h3>
+            <button
+              onClick={onClose}
+              className="text-white hover:text-red-200 transition-colors"
+            >
+              <svg className="w-6 h-6" fill="currentColor" viewBox="0 0 24 24">
+                <path d="M19 6.41L17.59 5 12 10.59 6.41 5 5 6.41 10.59 12 5 17.59 6.41 19 12 13.41 17.59 19 19 17.59 13.41 12z"/>
+              </svg>
+            </button>
+          </div>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6 space-y-4">
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-3">
+              <p className="text-red-600 text-sm">{error}</p>
+            </div>
+          )}
+
+          {detailsLocked && (
+            <p className="text-sm text-gray-600">This project is read-only. Reopen it to edit its details.</p>
+          )}
+
+          <div>
+            <label htmlFor="projectName" className="block text-sm font-medium text-gray-700 mb-1">
+              Project Name *
+            </label>
+            <input
+              type="text"
+              id="projectName"
+              name="name"
+              value={form.name}
+              onChange={handleChange}
+              required
+              disabled={detailsLocked}
+              className={inputClassName}
+            />
+          </div>
+
+          <div>
+            <label htmlFor="projectArtist" className="block text-sm font-medium text-gray-700 mb-1">
+              Artist *
+            </label>
+            <input
+              type="text"
+              id="projectArtist"
+              name="artist"
+              value={form.artist}
+              onChange={handleChange}
+              required
+              disabled={detailsLocked}
+              className={inputClassName}
+            />
+          </div>
+
+          <div>
+            <label htmlFor="projectDescription" className="block text-sm font-medium text-gray-700 mb-1">
+              Description
+            </label>
+            <textarea
+              id="projectDescription"
+              name="description"
+              value={form.description}
+              onChange={handleChange}
+              rows={3}
+              disabled={detailsLocked}
+              className={inputClassName}
+            />
+          </div>
+
+          <div>
+            <span className="block text-sm font-medium text-gray-700 mb-1">Cover Image</span>
+            <div className="flex items-center space-x-4">
+              <div className="w-20 h-20 bg-gradient-to-br from-red-500 to-red-700 rounded-lg overflow-hidden flex-shrink-0">
+                {coverImage && (
+                  <img src={imageSrc(coverImage, 256)} alt="" className="w-full h-full object-cover" />
+                )}
+              </div>
+              <div className="space-y-2">
+                <input
+                  ref={coverInputRef}
+                  type="file"
+                  accept="image/jpeg,image/png,image/webp"
+                  onChange={handleCoverChange}
+                  className="hidden"
+                />
+                <div className="flex items-center space-x-3">
+                  <button
+                    type="button"
+                    onClick={() => coverInputRef.current?.click()}
+                    disabled={uploadingCover || detailsLocked}
+                    className="px-4 py-2 bg-gray-100 hover:bg-gray-200 disabled:opacity-50 text-gray-700 rounded-lg transition-colors text-sm font-medium"
+                  >
+                    {uploadingCover ? 'Uploading...' : coverImage ? 'Replace' : 'Upload'}
+                  </button>
+                  {coverImage && (
+                    <button
+                      type="button"
+                      onClick={handleCoverRemove}
+                      disabled={uploadingCover || detailsLocked}
+                      className="text-sm text-gray-500 hover:text-red-600 transition-colors"
+                    >
+                      Remove
+                    </button>
+                  )}
+                </div>
+                <p className="text-xs text-gray-500">JPEG, PNG or WebP up to 10MB, cropped square</p>
+              </div>
+            </div>
+          </div>
+
+          <div>
+            <label htmlFor="projectStatus" className="block text-sm font-medium text-gray-700 mb-1">
+              Status
+            </label>
+            <select
+              id="projectStatus"
+              name="status"
+              value={form.status}
+              onChange={handleChange}
+              className={inputClassName}
+            >
+              {STATUS_OPTIONS.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+            <p className="text-xs text-gray-500 mt-1">
+              {STATUS_OPTIONS.find(option => option.value === form.status)?.description}
+            </p>
+          </div>
+
+          <div className="flex items-center justify-end space-x-3 pt-4">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-gray-600 hover:text-gray-800 transition-colors font-medium"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={saving || !form.name.trim() || !form.artist.trim()}
+              className="px-6 py-2 bg-red-600 hover:bg-red-700 disabled:bg-gray-400 text-white rounded-lg transition-colors font-medium"
+            >
+              {saving ? 'Saving...' : 'Save Changes'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  )
+}
+
+export default ProjectSettings
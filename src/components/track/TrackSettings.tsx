@@ -0,0 +1,253 @@
+'use client'
+
+import { useState } from 'react'
+
+interface TrackDetails {
+  id: string
+  name: string
+  trackNumber?: number | null
+  bpm?: number | null
+  key?: string | null
+  isrc?: string | null
+  writers: string[]
+  producers: string[]
+  explicit: boolean
+}
+
+interface TrackSettingsProps {
+  track: TrackDetails
+  onClose: () => void
+  onSaved: () => void
+}
+
+// Credits are edited as comma-separated names
+const joinNames = (names: string[]) => names.join(', ')
+const splitNames = (value: string) => value.split(',').map(name => name.trim()).filter(Boolean)
+
+// Shown as CC-XXX-YY-NNNNN
+const formatIsrc = (isrc: string) =>
+  isrc.length === 12 ? `${isrc.slice(0, 2)}-${isrc.slice(2, 5)}-${isrc.slice(5, 7)}-${isrc.slice(7)}` : isrc
+
+const TrackSettings = ({ track, onClose, onSaved }: TrackSettingsProps) => {
+  const [form, setForm] = useState({
+    name: track.name,
+    trackNumber: track.trackNumber?.toString() || '',
+    bpm: track.bpm?.toString() || '',
+    key: track.key || '',
+    isrc: track.isrc ? formatIsrc(track.isrc) : '',
+    writers: joinNames(track.writers),
+    producers: joinNames(track.producers),
+    explicit: track.explicit
+  })
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState('')
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value, type, checked } = e.target
+    setForm(prev => ({
+      ...prev,
+      [name]: type === 'checkbox' ? checked : value
+    }))
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setSaving(true)
+    setError('')
+
+    try {
+      const response = await fetch(`/api/tracks/${track.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name: form.name,
+          trackNumber: form.trackNumber ? parseInt(form.trackNumber) : null,
+          bpm: form.bpm ? parseInt(form.bpm) : null,
+          key: form.key,
+          isrc: form.isrc,
+          writers: splitNames(form.writers),
+          producers: splitNames(form.producers),
+          explicit: form.explicit
+        })
+      })
+
+      if (response.ok) {
+        onSaved()
+        onClose()
+      } else {
+        const data = await response.json()
+        setError(data.error || 'Failed to update track')
+      }
+    } catch {
+      setError('Network error. Please try again.')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const inputClassName = 'w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-transparent transition-colors'
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-lg max-h-full overflow-y-auto">
+        <div className="bg-gradient-to-r from-red-600 to-red-800 px-6 py-4 rounded-t-2xl">
+          <div className="flex items-center justify-between">
+            <h3 className="text-xl font-bold text-white">Track Details</h3>
+            <button
+              onClick={onClose}
+              className="text-white hover:text-red-200 transition-colors"
+            >
+              <svg className="w-6 h-6" fill="currentColor" viewBox="0 0 24 24">
+                <path d="M19 6.41L17.59 5 12 10.59 6.41 5 5 6.41 10.59 12 5 17.59 6.41 19 12 13.41 17.59 19 19 17.59 13.41 12z"/>
+              </svg>
+            </button>
+          </div>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6 space-y-4">
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-3">
+              <p className="text-red-600 text-sm">{error}</p>
+            </div>
+          )}
+
+          <div>
+            <label htmlFor="trackName" className="block text-sm font-medium text-gray-700 mb-1">
+              Track Name *
+            </label>
+            <input
+              type="text"
+              id="trackName"
+              name="name"
+              value={form.name}
+              onChange={handleChange}
+              required
+              className={inputClassName}
+            />
+          </div>
+
+          <div className="grid grid-cols-3 gap-4">
+            <div>
+              <label htmlFor="trackNumber" className="block text-sm font-medium text-gray-700 mb-1">
+                Track Number
+              </label>
+              <input
+                type="number"
+                id="trackNumber"
+                name="trackNumber"
+                value={form.trackNumber}
+                onChange={handleChange}
+                min="1"
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label htmlFor="bpm" className="block text-sm font-medium text-gray-700 mb-1">
+                BPM
+              </label>
+              <input
+                type="number"
+                id="bpm"
+                name="bpm"
+                value={form.bpm}
+                onChange={handleChange}
+                min="1"
+                max="300"
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label htmlFor="key" className="block text-sm font-medium text-gray-700 mb-1">
+                Key
+              </label>
+              <input
+                type="text"
+                id="key"
+                name="key"
+                value={form.key}
+                onChange={handleChange}
+                className={inputClassName}
+              />
+            </div>
+          </div>
+
+          <div>
+            <label htmlFor="isrc" className="block text-sm font-medium text-gray-700 mb-1">
+              ISRC
+            </label>
+            <input
+              type="text"
+              id="isrc"
+              name="isrc"
+              value={form.isrc}
+              onChange={handleChange}
+              className={inputClassName}
+              placeholder="US-ABC-25-00001"
+            />
+          </div>
+
+          <div>
+            <label htmlFor="writers" className="block text-sm font-medium text-gray-700 mb-1">
+              Writers
+            </label>
+            <input
+              type="text"
+              id="writers"
+              name="writers"
+              value={form.writers}
+              onChange={handleChange}
+              className={inputClassName}
+              placeholder="Separate names with commas"
+            />
+          </div>
+
+          <div>
+            <label htmlFor="producers" className="block text-sm font-medium text-gray-700 mb-1">
+              Producers
+            </label>
+            <input
+              type="text"
+              id="producers"
+              name="producers"
+              value={form.producers}
+              onChange={handleChange}
+              className={inputClassName}
+              placeholder="Separate names with commas"
+            />
+          </div>
+
+          <label className="flex items-center space-x-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              name="explicit"
+              checked={form.explicit}
+              onChange={handleChange}
+              className="rounded border-gray-300 text-red-600 focus:ring-red-500"
+            />
+            <span>Explicit lyrics</span>
+          </label>
+
+          <div className="flex items-center justify-end space-x-3 pt-4">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-gray-600 hover:text-gray-800 transition-colors font-medium"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={saving || !form.name.trim()}
+              className="px-6 py-2 bg-red-600 hover:bg-red-700 disabled:bg-gray-400 text-white rounded-lg transition-colors font-medium"
+            >
+              {saving ? 'Saving...' : 'Save Changes'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  )
+}
+
+export { formatIsrc }
+export default TrackSettings
@@ -0,0 +1,16 @@
+import { ApprovalStatus } from '@prisma/client'
+
+export type SignOffState = ApprovalStatus | 'PENDING'
+
+export const APPROVAL_STATUSES: ApprovalStatus[] = ['APPROVED', 'REJECTED', 'NEEDS_REVISION']
+
+/**
+ * Overall state of a version from its individual sign-offs. Any rejection or
+ * revision request outweighs approvals; no sign-offs at all is PENDING.
+ */
+export function getSignOffState(approvals: { status: ApprovalStatus }[]): SignOffState {
+  if (approvals.length === 0) return 'PENDING'
+  if (approvals.some(approval => approval.status === 'REJECTED')) return 'REJECTED'
+  if (approvals.some(approval => approval.status === 'NEEDS_REVISION')) return 'NEEDS_REVISION'
+  return 'APPROVED'
+}
@@ -0,0 +1,331 @@
+import { promises as fs } from 'fs'
+import path from 'path'
+import { prisma } from './db'
+import { getStorage, filePathFromStorageKey, contentTypeForKey } from './storage'
+import { findFinalVersion, finalVersionLockedMessage } from './finalVersions'
+import { carryForwardComments } from './comments'
+import { notifyProjectMembers } from './notifications'
+import { publishTrackEvent } from './trackEvents'
+import { syncTrackDuration } from './tracks'
+import { assembleUploadParts, removeUploadParts } from './uploadSessions'
+import {
+  analyzeAudioFile,
+  normalizeAudioFile,
+  generateWaveformData,
+  NORMALIZATION_TARGETS,
+  AudioAnalysis,
+  NormalizationMode,
+  WaveformData
+} from './audioProcessing'
+
+export type JobStatus = 'QUEUED' | 'ANALYZING' | 'NORMALIZING' | 'DONE' | 'FAILED'
+export type VersionType = 'STEREO' | 'ATMOS' | 'REFERENCE'
+
+export interface EnqueueAudioJobInput {
+  trackId: string
+  userId: string
+  versionType: VersionType
+  originalName: string
+  inputPath: string
+  fileSize: number
+  carryComments?: boolean
+}
+
+// Keep stored ffmpeg output readable in the UI
+const MAX_ERROR_LENGTH = 4000
+
+// Map versionType to normalization target key
+const NORMALIZATION_KEYS: Record<VersionType, keyof typeof NORMALIZATION_TARGETS> = {
+  STEREO: 'STEREO_MASTER',
+  ATMOS: 'ATMOS',
+  REFERENCE: 'REFERENCE'
+}
+
+/**
+ * Queue an uploaded file for analysis and normalization by the audio worker
+ */
+export async function enqueueAudioJob(input: EnqueueAudioJobInput) {
+  return prisma.processingJob.create({
+    data: {
+      ...input,
+      status: 'QUEUED'
+    }
+  })
+}
+
+/**
+ * Claim the oldest queued job. Returns null when the queue is empty or
+ * another worker claimed the job first.
+ */
+export async function claimNextAudioJob() {
+  const next = await prisma.processingJob.findFirst({
+    where: { status: 'QUEUED' },
+    orderBy: { createdAt: 'asc' },
+    select: { id: true }
+  })
+
+  if (!next) return null
+
+  const claimed = await prisma.processingJob.updateMany({
+    where: { id: next.id, status: 'QUEUED' },
+    data: {
+      status: 'ANALYZING',
+      startedAt: new Date(),
+      attempts: { increment: 1 }
+    }
+  })
+
+  if (claimed.count === 0) return null
+
+  return prisma.processingJob.findUnique({ where: { id: next.id } })
+}
+
+/**
+ * Put jobs left mid-processing by a crashed worker back on the queue
+ */
+export async function requeueStalledAudioJobs(): Promise<number> {
+  const result = await prisma.processingJob.updateMany({
+    where: { status: { in: ['ANALYZING', 'NORMALIZING'] } },
+    data: { status: 'QUEUED', startedAt: null }
+  })
+  return result.count
+}
+
+function toAnalysisReport(analysis: AudioAnalysis, stage: 'ORIGINAL' | 'NORMALIZED') {
+  return {
+    stage,
+    duration: analysis.duration,
+    sampleRate: analysis.sampleRate,
+    bitDepth: analysis.bitDepth,
+    channels: analysis.channels,
+    codec: analysis.codec,
+    integratedLufs: analysis.originalLufs,
+    peakLevel: analysis.peakLevel,
+    truePeak: analysis.truePeak,
+    dynamicRange: analysis.dynamicRange
+  }
+}
+
+async function setJobStatus(jobId: string, status: JobStatus) {
+  await prisma.processingJob.update({
+    where: { id: jobId },
+    data: { status }
+  })
+}
+
+async function failJob(jobId: string, error: string) {
+  await prisma.processingJob.update({
+    where: { id: jobId },
+    data: {
+      status: 'FAILED',
+      error: error.length > MAX_ERROR_LENGTH ? error.slice(-MAX_ERROR_LENGTH) : error,
+      completedAt: new Date()
+    }
+  })
+}
+
+/**
+ * Analyze, normalize and publish a claimed job as the next AudioVersion of its track
+ */
+export async function runAudioJob(jobId: string): Promise<void> {
+  const job = await prisma.processingJob.findUnique({
+    where: { id: jobId },
+    include: {
+      track: {
+        include: {
+          project: {
+            select: { id: true, artist: true, deletedAt: true }
+          }
+        }
+      },
+      user: {
+        select: { id: true, name: true }
+      },
+      uploadSession: {
+        select: { id: true, fileSize: true, chunkSize: true }
+      }
+    }
+  })
+
+  if (!job) return
+
+  const versionType = job.versionType as VersionType
+  const stagingDir = path.dirname(job.inputPath)
+  const originalName = path.parse(job.originalName).name
+  // For ATMOS, always save as .wav
+  const fileExtension = versionType === 'ATMOS' ? '.wav' : (path.extname(job.originalName) || '.wav')
+  const processedPath = path.join(stagingDir, `processed_${job.id}${fileExtension}`)
+  // Set once the processed file is in storage, so a failure after that can remove it
+  let storedKey: string | null = null
+  // Set once the version is committed; announcing it happens outside the try
+  let published: { audioVersionId: string; versionNumber: number } | null = null
+
+  try {
+    // The track may have been trashed or locked while this job sat in the queue
+    if (job.track.deletedAt || job.track.project.deletedAt) {
+      throw new Error('Track was moved to the trash')
+    }
+
+    const finalVersion = await findFinalVersion(job.trackId, versionType)
+    if (finalVersion) {
+      throw new Error(finalVersionLockedMessage(versionType, finalVersion.versionNumber))
+    }
+
+    // Chunked uploads arrive as parts
+    if (job.uploadSession) {
+      await assembleUploadParts(job.uploadSession, job.inputPath)
+    }
+
+    let lufsLevel: number | null = null
+    let normalizationMode: NormalizationMode | null = null
+    const analysisReports: ReturnType<typeof toAnalysisReport>[] = []
+
+    if (versionType === 'ATMOS') {
+      // ADM BWF masters are not always readable by ffprobe, so the report is best effort
+      try {
+        analysisReports.push(toAnalysisReport(await analyzeAudioFile(job.inputPath), 'ORIGINAL'))
+      } catch (error) {
+        console.warn(`Skipping analysis for Atmos job ${job.id}:`, error)
+      }
+
+      // For ATMOS, just move the .bin file to .wav, no normalization
+      await fs.rename(job.inputPath, processedPath)
+    } else {
+      await setJobStatus(job.id, 'ANALYZING')
+      const analysis = await analyzeAudioFile(job.inputPath)
+      analysisReports.push(toAnalysisReport(analysis, 'ORIGINAL'))
+
+      await setJobStatus(job.id, 'NORMALIZING')
+      const normResult = await normalizeAudioFile(job.inputPath, processedPath, NORMALIZATION_KEYS[versionType], analysis)
+      if (!normResult.success) {
+        throw new Error(normResult.error || 'Audio normalization failed')
+      }
+
+      lufsLevel = normResult.analysis.originalLufs ?? null
+      normalizationMode = normResult.mode ?? null
+      if (normResult.normalizedAnalysis) {
+        analysisReports.push(toAnalysisReport(normResult.normalizedAnalysis, 'NORMALIZED'))
+      }
+      await fs.unlink(job.inputPath)
+    }
+
+    // Peaks are drawn by the player; a missing waveform falls back to the seek slider
+    let waveformData: WaveformData | null = null
+    try {
+      waveformData = await generateWaveformData(processedPath)
+    } catch (error) {
+      console.warn(`Skipping waveform for job ${job.id}:`, error)
+    }
+
+    // Store under the artist name; the key uses the job id because the version
+    // number is only settled inside the transaction below
+    const artistSlug = job.track.project.artist.toLowerCase().replace(/[^a-z0-9]/g, '-').replace(/-+/g, '-')
+    const storageKey = `projects/${job.track.project.id}/${artistSlug}/${job.trackId}/${originalName}_${versionType.toLowerCase()}_${job.id}${fileExtension}`
+    await getStorage().putFile(storageKey, processedPath, contentTypeForKey(storageKey))
+    storedKey = storageKey
+
+    published = await prisma.$transaction(async (tx) => {
+      // Lock the track so concurrent jobs for it take version numbers one at a time
+      await tx.$queryRaw`SELECT id FROM "Track" WHERE id = ${job.trackId} FOR UPDATE`
+
+      const latestVersion = await tx.audioVersion.findFirst({
+        where: { trackId: job.trackId, versionType },
+        orderBy: { versionNumber: 'desc' },
+        select: { versionNumber: true }
+      })
+      const nextVersionNumber = (latestVersion?.versionNumber || 0) + 1
+      const versionSuffix = nextVersionNumber > 1 ? `_v${nextVersionNumber}` : ''
+      const fileName = `${originalName}_${versionType.toLowerCase()}${versionSuffix}${fileExtension}`
+
+      const previousVersion = await tx.audioVersion.findFirst({
+        where: { trackId: job.trackId, versionType, isActive: true },
+        select: { id: true }
+      })
+
+      // Deactivate all existing versions of this type
+      await tx.audioVersion.updateMany({
+        where: { trackId: job.trackId, versionType },
+        data: { isActive: false }
+      })
+
+      const audioVersion = await tx.audioVersion.create({
+        data: {
+          trackId: job.trackId,
+          versionType,
+          versionNumber: nextVersionNumber,
+          fileName,
+          filePath: filePathFromStorageKey(storageKey),
+          fileSize: job.fileSize,
+          isNormalized: versionType !== 'ATMOS',
+          lufsLevel,
+          normalizationMode,
+          waveformData: waveformData ?? undefined,
+          isActive: true,
+          analysisReports: {
+            create: analysisReports
+          }
+        }
+      })
+
+      if (job.carryComments && previousVersion) {
+        await carryForwardComments(previousVersion.id, audioVersion.id, tx)
+      }
+
+      if (versionType === 'STEREO') {
+        await syncTrackDuration(job.trackId, tx)
+      }
+
+      await tx.processingJob.update({
+        where: { id: job.id },
+        data: {
+          status: 'DONE',
+          audioVersionId: audioVersion.id,
+          completedAt: new Date()
+        }
+      })
+
+      return { audioVersionId: audioVersion.id, versionNumber: nextVersionNumber }
+    })
+    // The version row owns the stored file from here on
+    storedKey = null
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Processing failed'
+    await failJob(job.id, errorMessage)
+
+    // Don't leave partial files behind
+    await fs.rm(job.inputPath, { force: true })
+    await fs.rm(processedPath, { force: true })
+    if (job.uploadSession) {
+      await removeUploadParts(job.uploadSession.id)
+    }
+    if (storedKey) {
+      await getStorage().delete(storedKey).catch(deleteError => {
+        console.error(`Error removing stored file for job ${job.id}:`, deleteError)
+      })
+    }
+  }
+
+  if (!published) return
+  const { audioVersionId, versionNumber } = published
+
+  // The job is already DONE, so a failed announcement must not undo it
+  await publishTrackEvent(job.trackId, 'VERSION_UPLOADED', {
+    versionId: audioVersionId,
+    versionType,
+    versionNumber,
+    actorId: job.user.id
+  }).catch(error => {
+    console.error(`Error publishing upload event for job ${job.id}:`, error)
+  })
+
+  await notifyProjectMembers({
+    type: 'UPLOAD',
+    projectId: job.track.project.id,
+    actor: job.user,
+    message: `${job.user.name} uploaded ${versionType.toLowerCase()} v${versionNumber} of ${job.track.name}`,
+    link: `/track/${job.trackId}`,
+    trackId: job.trackId
+  }).catch(error => {
+    console.error(`Error notifying project members for job ${job.id}:`, error)
+  })
+}
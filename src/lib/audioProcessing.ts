@@ -19,14 +19,48 @@ export interface NormalizationSettings {
   preserveDynamics: boolean
 }
 
+export type NormalizationMode = 'LINEAR' | 'DYNAMIC'
+
+export interface LoudnormMeasurement {
+  inputI: number
+  inputTp: number
+  inputLra: number
+  inputThresh: number
+  targetOffset: number
+}
+
 export interface ProcessingResult {
   success: boolean
   analysis: AudioAnalysis
+  normalizedAnalysis?: AudioAnalysis
   normalizedPath: string
   settings: NormalizationSettings
+  mode?: NormalizationMode
+  measurement?: LoudnormMeasurement
   error?: string
 }
 
+// Types rather than interfaces so they can be stored as Prisma JSON as-is
+export type WaveformResolution = {
+  width: number    // number of buckets
+  peaks: number[]  // interleaved [min, max] per bucket, -1..1
+}
+
+export type WaveformData = {
+  duration: number
+  sampleRate: number
+  resolutions: WaveformResolution[]
+}
+
+// Bucket counts stored per version, from overview to zoomed in
+export const WAVEFORM_RESOLUTIONS = [256, 1024, 4096]
+const WAVEFORM_SAMPLE_RATE = 8000
+
+// Loudness range target used for dynamic normalization
+const DEFAULT_TARGET_LRA = 11
+// Highest LRA target loudnorm accepts
+const MAX_TARGET_LRA = 20
+
 // Apple Music SoundCheck Standards
 export const NORMALIZATION_TARGETS = {
   STEREO_MASTER: {
@@ -175,16 +209,18 @@ async function analyzeLoudness(filePath: string): Promise<{
 }
 
 /**
- * Normalize audio file to Apple Music SoundCheck standards
+ * Normalize audio file to Apple Music SoundCheck standards.
+ * Pass an existing analysis of the input to skip re-analyzing it.
  */
 export async function normalizeAudioFile(
   inputPath: string,
   outputPath: string,
-  versionType: keyof typeof NORMALIZATION_TARGETS
+  versionType: keyof typeof NORMALIZATION_TARGETS,
+  existingAnalysis?: AudioAnalysis
 ): Promise<ProcessingResult> {
   try {
     // First analyze the original file
-    const analysis = await analyzeAudioFile(inputPath)
+    const analysis = existingAnalysis ?? await analyzeAudioFile(inputPath)
     const settings = NORMALIZATION_TARGETS[versionType]
 
     // Skip normalization for reference tracks
@@ -200,16 +236,41 @@ export async function normalizeAudioFile(
       }
     }
 
-    // Build ffmpeg command for normalization
+    // First pass: measure, then decide whether a plain gain change can hit the targets
+    const measurement = await measureLoudnorm(inputPath, settings)
+    const plannedMode = chooseNormalizationMode(measurement, settings)
+    const targetLra = plannedMode === 'LINEAR'
+      ? Math.max(DEFAULT_TARGET_LRA, Math.ceil(measurement.inputLra))
+      : DEFAULT_TARGET_LRA
+
+    // Second pass: apply normalization using the measured values
     const ffmpegArgs = [
+      '-hide_banner',
       '-i', inputPath,
-      '-af', `loudnorm=I=${settings.targetLufs}:TP=${settings.maxTruePeak}:LRA=11:print_format=json`,
+      '-af', [
+        `loudnorm=I=${settings.targetLufs}`,
+        `TP=${settings.maxTruePeak}`,
+        `LRA=${targetLra}`,
+        `measured_I=${measurement.inputI}`,
+        `measured_TP=${measurement.inputTp}`,
+        `measured_LRA=${measurement.inputLra}`,
+        `measured_thresh=${measurement.inputThresh}`,
+        `offset=${measurement.targetOffset}`,
+        `linear=${plannedMode === 'LINEAR'}`,
+        'print_format=json'
+      ].join(':'),
       '-ar', '48000', // Ensure 48kHz for streaming
       '-c:a', 'pcm_s24le', // 24-bit PCM for quality
       outputPath
     ]
 
-    await runFFmpeg(ffmpegArgs)
+    const secondPassOutput = await runFFmpeg(ffmpegArgs)
+
+    // loudnorm reports the mode it actually used; it can still fall back to dynamic
+    const secondPassStats = parseLoudnormJson(secondPassOutput)
+    const mode: NormalizationMode = secondPassStats?.normalization_type === 'linear'
+      ? 'LINEAR'
+      : secondPassStats?.normalization_type === 'dynamic' ? 'DYNAMIC' : plannedMode
 
     // Verify the normalized file
     const normalizedAnalysis = await analyzeAudioFile(outputPath)
@@ -223,8 +284,11 @@ export async function normalizeAudioFile(
         peakLevel: normalizedAnalysis.peakLevel,
         truePeak: normalizedAnalysis.truePeak
       },
+      normalizedAnalysis,
       normalizedPath: outputPath,
-      settings
+      settings,
+      mode,
+      measurement
     }
 
   } catch (error: unknown) {
@@ -240,17 +304,92 @@ export async function normalizeAudioFile(
 }
 
 /**
- * Generate waveform data for visualization
+ * First loudnorm pass: measure integrated loudness, true peak, LRA and
+ * threshold without writing any audio
+ */
+export async function measureLoudnorm(
+  inputPath: string,
+  settings: NormalizationSettings
+): Promise<LoudnormMeasurement> {
+  const stderr = await runFFmpeg([
+    '-hide_banner',
+    '-i', inputPath,
+    '-af', `loudnorm=I=${settings.targetLufs}:TP=${settings.maxTruePeak}:LRA=${DEFAULT_TARGET_LRA}:print_format=json`,
+    '-f', 'null',
+    '-'
+  ])
+
+  const stats = parseLoudnormJson(stderr)
+  if (!stats) {
+    throw new Error(`Failed to parse loudnorm measurement: ${stderr}`)
+  }
+
+  const measurement = {
+    inputI: parseFloat(stats.input_i),
+    inputTp: parseFloat(stats.input_tp),
+    inputLra: parseFloat(stats.input_lra),
+    inputThresh: parseFloat(stats.input_thresh),
+    targetOffset: parseFloat(stats.target_offset)
+  }
+
+  // Digital silence measures as -inf, which loudnorm cannot normalize
+  if (Object.values(measurement).some(value => !Number.isFinite(value))) {
+    throw new Error(`Loudness measurement out of range: ${JSON.stringify(stats)}`)
+  }
+
+  return measurement
+}
+
+/**
+ * Linear normalization only applies gain, so it is used whenever that gain
+ * keeps the true peak under the ceiling; otherwise fall back to dynamic mode
+ */
+export function chooseNormalizationMode(
+  measurement: LoudnormMeasurement,
+  settings: NormalizationSettings
+): NormalizationMode {
+  const gain = settings.targetLufs - measurement.inputI
+  const projectedTruePeak = measurement.inputTp + gain
+
+  if (projectedTruePeak > settings.maxTruePeak) return 'DYNAMIC'
+  if (measurement.inputLra > MAX_TARGET_LRA) return 'DYNAMIC'
+  return 'LINEAR'
+}
+
+/**
+ * Extract the JSON block loudnorm prints at the end of ffmpeg's stderr
+ */
+function parseLoudnormJson(stderr: string): Record<string, string> | null {
+  const start = stderr.lastIndexOf('{')
+  const end = stderr.lastIndexOf('}')
+  if (start === -1 || end < start) return null
+
+  try {
+    return JSON.parse(stderr.slice(start, end + 1))
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Generate min/max waveform peaks at several zoom resolutions for visualization
  */
-export async function generateWaveformData(filePath: string, width: number = 1000): Promise<number[]> {
+export async function generateWaveformData(
+  filePath: string,
+  widths: number[] = WAVEFORM_RESOLUTIONS
+): Promise<WaveformData> {
   return new Promise((resolve, reject) => {
+    // stderr is never read, so keep ffmpeg quiet and don't give it a pipe that
+    // could fill up and stall it on long inputs
     const ffmpeg = spawn('ffmpeg', [
+      '-v', 'error',
+      '-nostats',
       '-i', filePath,
       '-ac', '1', // Mono
-      '-ar', '8000', // Low sample rate for visualization
+      '-ar', WAVEFORM_SAMPLE_RATE.toString(), // Low sample rate for visualization
       '-f', 'f32le', // 32-bit float output
       '-'
-    ])
+    ], { stdio: ['ignore', 'pipe', 'ignore'] })
 
     const chunks: Buffer[] = []
 
@@ -258,6 +397,10 @@ export async function generateWaveformData(filePath: string, width: number = 100
       chunks.push(chunk)
     })
 
+    ffmpeg.on('error', (error) => {
+      reject(new Error(`Failed to start ffmpeg: ${error.message}`))
+    })
+
     ffmpeg.on('close', (code) => {
       if (code !== 0) {
         reject(new Error('Failed to generate waveform data'))
@@ -266,30 +409,20 @@ export async function generateWaveformData(filePath: string, width: number = 100
 
       try {
         const buffer = Buffer.concat(chunks)
-        const samples: number[] = []
-        
         // Read 32-bit float samples
-        for (let i = 0; i < buffer.length; i += 4) {
-          if (i + 4 <= buffer.length) {
-            samples.push(buffer.readFloatLE(i))
-          }
-        }
-
-        // Downsample to desired width
-        const samplesPerPixel = Math.floor(samples.length / width)
-        const waveformData: number[] = []
-
-        for (let i = 0; i < width; i++) {
-          const start = i * samplesPerPixel
-          const end = start + samplesPerPixel
-          const slice = samples.slice(start, end)
-          
-          // Calculate RMS for this slice
-          const rms = Math.sqrt(slice.reduce((sum, sample) => sum + sample * sample, 0) / slice.length)
-          waveformData.push(rms)
+        const samples = new Float32Array(Math.floor(buffer.length / 4))
+        for (let i = 0; i < samples.length; i++) {
+          samples[i] = buffer.readFloatLE(i * 4)
         }
 
-        resolve(waveformData)
+        resolve({
+          duration: samples.length / WAVEFORM_SAMPLE_RATE,
+          sampleRate: WAVEFORM_SAMPLE_RATE,
+          resolutions: widths.map(width => ({
+            width,
+            peaks: computePeaks(samples, width)
+          }))
+        })
       } catch (error) {
         reject(new Error(`Failed to process waveform data: ${error}`))
       }
@@ -298,9 +431,33 @@ export async function generateWaveformData(filePath: string, width: number = 100
 }
 
 /**
- * Run ffmpeg command and return promise
+ * Downsample to `width` buckets, keeping the min and max sample of each
+ */
+function computePeaks(samples: Float32Array, width: number): number[] {
+  const peaks: number[] = []
+  const round = (value: number) => Math.round(value * 10000) / 10000
+
+  for (let i = 0; i < width; i++) {
+    const start = Math.floor((i * samples.length) / width)
+    const end = Math.max(start + 1, Math.floor(((i + 1) * samples.length) / width))
+
+    let min = 0
+    let max = 0
+    for (let j = start; j < end && j < samples.length; j++) {
+      if (samples[j] < min) min = samples[j]
+      if (samples[j] > max) max = samples[j]
+    }
+
+    peaks.push(round(min), round(max))
+  }
+
+  return peaks
+}
+
+/**
+ * Run ffmpeg command and resolve with its stderr output
  */
-function runFFmpeg(args: string[]): Promise<void> {
+function runFFmpeg(args: string[]): Promise<string> {
   return new Promise((resolve, reject) => {
     const ffmpeg = spawn('ffmpeg', args)
     let stderr = ''
@@ -311,7 +468,7 @@ function runFFmpeg(args: string[]): Promise<void> {
 
     ffmpeg.on('close', (code) => {
       if (code === 0) {
-        resolve()
+        resolve(stderr)
       } else {
         reject(new Error(`FFmpeg failed: ${stderr}`))
       }
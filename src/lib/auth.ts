@@ -1,5 +1,6 @@
 
 import crypto from 'crypto'
+import { EmailPreference } from '@prisma/client'
 import { prisma } from './db'
 
 export interface AuthUser {
@@ -9,6 +10,7 @@ export interface AuthUser {
   phone?: string
   profilePicture?: string
   role: 'ADMIN' | 'ENGINEER' | 'CLIENT'
+  emailPreference: EmailPreference
 }
 
 // Generate salt for password hashing
@@ -69,7 +71,8 @@ export async function getUserFromSession(token: string): Promise<AuthUser | null
     name: session.user.name,
     phone: session.user.phone || undefined,
     profilePicture: session.user.profilePicture || undefined,
-    role: session.user.role as 'ADMIN' | 'ENGINEER' | 'CLIENT'
+    role: session.user.role as 'ADMIN' | 'ENGINEER' | 'CLIENT',
+    emailPreference: session.user.emailPreference
   }
 }
 
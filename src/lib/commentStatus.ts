@@ -0,0 +1,103 @@
+import { CommentStatus } from '@prisma/client'
+import type { AuthUser } from './auth'
+import { prisma } from './db'
+import { can, ProjectAccess, projectAccessSelect } from './policy'
+import { changeCommentStatus } from './comments'
+import { liveCommentWhere } from './trash'
+
+export const COMMENT_STATUSES: CommentStatus[] = ['PENDING', 'APPROVED', 'RESOLVED', 'REJECTED']
+
+// Where a comment can go from each status
+const TRANSITIONS: Record<CommentStatus, CommentStatus[]> = {
+  PENDING: ['APPROVED', 'RESOLVED', 'REJECTED'],
+  APPROVED: ['PENDING', 'RESOLVED', 'REJECTED'],
+  RESOLVED: ['PENDING'],
+  REJECTED: ['PENDING']
+}
+
+// Closed notes; moving one back to PENDING is a reopen
+const CLOSED_STATUSES: CommentStatus[] = ['RESOLVED', 'REJECTED']
+
+export type StatusTransitionCheck =
+  | { ok: true }
+  | { ok: false; status: 403 | 409; error: string }
+
+export function isCommentStatus(value: unknown): value is CommentStatus {
+  return COMMENT_STATUSES.includes(value as CommentStatus)
+}
+
+/**
+ * Whether `user` may move `comment` to `to`. Anyone who can update statuses
+ * may move an open note along; only the author (or staff and owners) may
+ * reopen a resolved or rejected one.
+ */
+export function checkStatusTransition(
+  user: AuthUser,
+  comment: { status: CommentStatus; userId: string },
+  project: ProjectAccess,
+  to: CommentStatus
+): StatusTransitionCheck {
+  if (!can(user, 'comment:update-status', { project, userId: comment.userId })) {
+    return { ok: false, status: 403, error: 'Forbidden - insufficient permissions to update comment status' }
+  }
+
+  if (comment.status === to) {
+    return { ok: false, status: 409, error: `Comment is already ${to.toLowerCase()}` }
+  }
+
+  if (!TRANSITIONS[comment.status].includes(to)) {
+    return {
+      ok: false,
+      status: 409,
+      error: `Cannot move a ${comment.status.toLowerCase()} comment to ${to.toLowerCase()}`
+    }
+  }
+
+  if (CLOSED_STATUSES.includes(comment.status) && !can(user, 'comment:reopen', { project, userId: comment.userId })) {
+    return { ok: false, status: 403, error: 'Only the author or an engineer can reopen this comment' }
+  }
+
+  return { ok: true }
+}
+
+export type StatusUpdateResult =
+  | { ok: true; comment: NonNullable<Awaited<ReturnType<typeof changeCommentStatus>>> }
+  | { ok: false; status: 403 | 404 | 409; error: string }
+
+/**
+ * Load a comment, run it through the state machine and record the change.
+ * Both status endpoints go through here so they share the same rules.
+ */
+export async function updateCommentStatus(
+  user: AuthUser,
+  commentId: string,
+  to: CommentStatus
+): Promise<StatusUpdateResult> {
+  const comment = await prisma.comment.findUnique({
+    where: { id: commentId, ...liveCommentWhere },
+    select: {
+      id: true,
+      status: true,
+      userId: true,
+      track: {
+        select: {
+          project: { select: projectAccessSelect(user) }
+        }
+      }
+    }
+  })
+
+  if (!comment || !can(user, 'track:read', comment.track)) {
+    return { ok: false, status: 404, error: 'Comment not found' }
+  }
+
+  const check = checkStatusTransition(user, comment, comment.track.project, to)
+  if (!check.ok) return check
+
+  const updatedComment = await changeCommentStatus(comment, to, user.id)
+  if (!updatedComment) {
+    return { ok: false, status: 409, error: 'Comment status was changed by someone else; reload and try again' }
+  }
+
+  return { ok: true, comment: updatedComment }
+}
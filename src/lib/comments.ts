@@ -0,0 +1,250 @@
+import { CommentStatus, Prisma } from '@prisma/client'
+import { prisma } from './db'
+import { publishTrackEvent } from './trackEvents'
+
+/** Author fields returned with every reply */
+export const replyInclude = {
+  user: {
+    select: {
+      id: true,
+      name: true,
+      role: true
+    }
+  }
+} satisfies Prisma.CommentReplyInclude
+
+/**
+ * Comment with its author and every reply in its thread. Replies come back
+ * flat in posting order; `parentReplyId` links a reply to the one it answers.
+ */
+export const commentInclude = {
+  user: {
+    select: {
+      id: true,
+      name: true,
+      email: true,
+      role: true
+    }
+  },
+  replies: {
+    include: replyInclude,
+    orderBy: {
+      createdAt: 'asc'
+    }
+  },
+  carriedFrom: {
+    select: {
+      id: true,
+      audioVersion: {
+        select: { versionNumber: true }
+      }
+    }
+  }
+} satisfies Prisma.CommentInclude
+
+// Notes still waiting on the mix; resolved and rejected ones stay behind
+export const OPEN_COMMENT_STATUSES: CommentStatus[] = ['PENDING', 'APPROVED']
+
+/**
+ * Copy the open comments on one version onto another, reply threads
+ * included, each linked back to the comment it came from. Comments already
+ * carried to the target are skipped, so running it twice is harmless.
+ * Returns how many were copied. Run it in a transaction, or a failure
+ * part-way leaves copies without their replies.
+ */
+export async function carryForwardComments(
+  fromVersionId: string,
+  toVersionId: string,
+  db: Prisma.TransactionClient = prisma
+): Promise<number> {
+  const comments = await db.comment.findMany({
+    where: {
+      audioVersionId: fromVersionId,
+      deletedAt: null,
+      status: { in: OPEN_COMMENT_STATUSES },
+      carriedTo: { none: { audioVersionId: toVersionId } }
+    }
+  })
+
+  if (comments.length === 0) return 0
+
+  const carried = await db.comment.createManyAndReturn({
+    data: comments.map(comment => ({
+      content: comment.content,
+      timestampMs: comment.timestampMs,
+      endMs: comment.endMs,
+      status: comment.status,
+      versionType: comment.versionType,
+      userId: comment.userId,
+      trackId: comment.trackId,
+      audioVersionId: toVersionId,
+      carriedFromId: comment.id
+    })),
+    select: { id: true, carriedFromId: true }
+  })
+  const carriedIds = new Map(carried.map(comment => [comment.carriedFromId, comment.id]))
+
+  // The discussion decides whether a note was addressed, so it comes along.
+  // Oldest first, so a reply's parent has always been copied before it.
+  const replies = await db.commentReply.findMany({
+    where: { commentId: { in: comments.map(comment => comment.id) } },
+    orderBy: [{ createdAt: 'asc' }, { id: 'asc' }]
+  })
+  const replyIds = new Map<string, string>()
+
+  for (const reply of replies) {
+    const copy = await db.commentReply.create({
+      data: {
+        content: reply.content,
+        createdAt: reply.createdAt,
+        updatedAt: reply.updatedAt,
+        deletedAt: reply.deletedAt,
+        userId: reply.userId,
+        commentId: carriedIds.get(reply.commentId)!,
+        parentReplyId: reply.parentReplyId ? replyIds.get(reply.parentReplyId) ?? null : null
+      },
+      select: { id: true }
+    })
+    replyIds.set(reply.id, copy.id)
+  }
+
+  return carried.length
+}
+
+/**
+ * Delete a reply without taking anyone else's answers with it. A reply that
+ * has answers is emptied and kept as a placeholder; otherwise it's removed,
+ * along with any placeholders above it that no longer answer anything.
+ * Returns the ids of the rows removed, empty when a placeholder was kept.
+ */
+export async function deleteReply(replyId: string, db: Prisma.TransactionClient): Promise<string[]> {
+  const answers = await db.commentReply.count({ where: { parentReplyId: replyId } })
+  if (answers > 0) {
+    await db.commentReply.update({
+      where: { id: replyId },
+      data: { content: '', deletedAt: new Date() }
+    })
+    return []
+  }
+
+  const removed: string[] = []
+  let id: string = replyId
+  for (;;) {
+    const reply = await db.commentReply.delete({
+      where: { id },
+      select: { parentReplyId: true }
+    })
+    removed.push(id)
+    if (!reply.parentReplyId) return removed
+
+    const parent = await db.commentReply.findUnique({
+      where: { id: reply.parentReplyId },
+      select: { deletedAt: true, _count: { select: { childReplies: true } } }
+    })
+    if (!parent?.deletedAt || parent._count.childReplies > 0) return removed
+    id = reply.parentReplyId
+  }
+}
+
+/**
+ * Move a comment from the status it was checked in to `status` and record the
+ * transition. The update only applies while the comment is still in
+ * `comment.status`, so two people changing it at once can't both pass the
+ * state machine; returns false when someone else got there first.
+ */
+export async function applyStatusChange(
+  comment: { id: string; status: CommentStatus },
+  status: CommentStatus,
+  userId: string,
+  db: Prisma.TransactionClient
+): Promise<boolean> {
+  const { count } = await db.comment.updateMany({
+    where: { id: comment.id, status: comment.status },
+    data: { status }
+  })
+  if (count === 0) return false
+
+  if (comment.status !== status) {
+    await db.commentEvent.create({
+      data: {
+        type: 'STATUS_CHANGED',
+        fromStatus: comment.status,
+        toStatus: status,
+        commentId: comment.id,
+        userId
+      }
+    })
+  }
+
+  return true
+}
+
+/**
+ * Set a comment's status and record the transition in its history.
+ * Returns null when the comment's status changed since it was read.
+ */
+export async function changeCommentStatus(
+  comment: { id: string; status: CommentStatus },
+  status: CommentStatus,
+  userId: string
+) {
+  const updatedComment = await prisma.$transaction(async (tx) => {
+    if (!await applyStatusChange(comment, status, userId, tx)) return null
+
+    return tx.comment.findUniqueOrThrow({
+      where: { id: comment.id },
+      include: commentInclude
+    })
+  })
+
+  if (updatedComment && comment.status !== status) {
+    await publishTrackEvent(updatedComment.trackId, 'COMMENT_UPDATED', {
+      commentId: comment.id,
+      audioVersionId: updatedComment.audioVersionId,
+      actorId: userId
+    })
+  }
+
+  return updatedComment
+}
+
+/**
+ * Replace a comment's text and record the previous version in its history
+ */
+export async function editCommentContent(
+  comment: { id: string; content: string },
+  content: string,
+  userId: string
+) {
+  const updatedComment = await prisma.$transaction(async (tx) => {
+    const updatedComment = await tx.comment.update({
+      where: { id: comment.id },
+      data: { content },
+      include: commentInclude
+    })
+
+    if (comment.content !== content) {
+      await tx.commentEvent.create({
+        data: {
+          type: 'CONTENT_EDITED',
+          previousContent: comment.content,
+          newContent: content,
+          commentId: comment.id,
+          userId
+        }
+      })
+    }
+
+    return updatedComment
+  })
+
+  if (comment.content !== content) {
+    await publishTrackEvent(updatedComment.trackId, 'COMMENT_UPDATED', {
+      commentId: comment.id,
+      audioVersionId: updatedComment.audioVersionId,
+      actorId: userId
+    })
+  }
+
+  return updatedComment
+}
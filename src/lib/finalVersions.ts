@@ -0,0 +1,17 @@
+import { VersionType } from '@prisma/client'
+import { prisma } from './db'
+
+/**
+ * The version of `versionType` locked as the approved final on a track, if any.
+ * While one exists no new version of that type may be published or activated.
+ */
+export function findFinalVersion(trackId: string, versionType: VersionType) {
+  return prisma.audioVersion.findFirst({
+    where: { trackId, versionType, isFinal: true },
+    select: { id: true, versionNumber: true }
+  })
+}
+
+export function finalVersionLockedMessage(versionType: VersionType, versionNumber: number): string {
+  return `${versionType.toLowerCase()} v${versionNumber} is locked as the approved final; an admin must unlock it first`
+}
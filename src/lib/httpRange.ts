@@ -0,0 +1,92 @@
+export interface ByteRange {
+  start: number
+  end: number // inclusive
+}
+
+export type RangeResult =
+  | { type: 'full' }
+  | { type: 'partial'; range: ByteRange }
+  | { type: 'unsatisfiable' }
+
+export interface FileValidators {
+  etag: string
+  lastModified: string
+}
+
+/**
+ * Parse a Range header for a resource of `size` bytes. Only a single range is
+ * supported; multi-range requests are reported as unsatisfiable.
+ */
+export function parseRangeHeader(header: string | null, size: number): RangeResult {
+  if (!header) return { type: 'full' }
+
+  const match = header.trim().match(/^bytes=(.*)$/i)
+  // Unknown range units are ignored and the full body is served
+  if (!match) return { type: 'full' }
+
+  const spec = match[1].trim()
+  if (spec.includes(',')) return { type: 'unsatisfiable' }
+
+  const parts = spec.match(/^(\d*)-(\d*)$/)
+  if (!parts || (parts[1] === '' && parts[2] === '') || size === 0) {
+    return { type: 'unsatisfiable' }
+  }
+
+  // Suffix range: the last N bytes
+  if (parts[1] === '') {
+    const suffixLength = parseInt(parts[2], 10)
+    if (suffixLength === 0) return { type: 'unsatisfiable' }
+    return { type: 'partial', range: { start: Math.max(0, size - suffixLength), end: size - 1 } }
+  }
+
+  const start = parseInt(parts[1], 10)
+  const end = parts[2] === '' ? size - 1 : Math.min(parseInt(parts[2], 10), size - 1)
+
+  if (start >= size || start > end) return { type: 'unsatisfiable' }
+
+  return { type: 'partial', range: { start, end } }
+}
+
+/**
+ * Strong validators derived from file size and modification time
+ */
+export function getFileValidators(size: number, mtime: Date): FileValidators {
+  return {
+    etag: `"${size.toString(16)}-${Math.floor(mtime.getTime()).toString(16)}"`,
+    lastModified: mtime.toUTCString()
+  }
+}
+
+/**
+ * True when If-None-Match / If-Modified-Since show the client copy is current
+ */
+export function isNotModified(headers: Headers, validators: FileValidators): boolean {
+  const ifNoneMatch = headers.get('if-none-match')
+  if (ifNoneMatch) {
+    return ifNoneMatch === '*' || ifNoneMatch.split(',').some(tag => tag.trim().replace(/^W\//, '') === validators.etag)
+  }
+
+  const ifModifiedSince = headers.get('if-modified-since')
+  if (ifModifiedSince) {
+    const since = Date.parse(ifModifiedSince)
+    return !isNaN(since) && Date.parse(validators.lastModified) <= since
+  }
+
+  return false
+}
+
+/**
+ * If-Range only allows a partial response when the validator still matches;
+ * otherwise the whole resource must be sent
+ */
+export function isRangeStillValid(headers: Headers, validators: FileValidators): boolean {
+  const ifRange = headers.get('if-range')
+  if (!ifRange) return true
+
+  if (ifRange.startsWith('"') || ifRange.startsWith('W/')) {
+    // Weak validators never match for If-Range
+    return ifRange === validators.etag
+  }
+
+  return ifRange === validators.lastModified
+}
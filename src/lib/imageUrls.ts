@@ -0,0 +1,29 @@
+// Square sizes generated for every uploaded cover and avatar, in pixels
+export const IMAGE_SIZES = [64, 256, 600] as const
+
+export type ImageSize = typeof IMAGE_SIZES[number]
+
+const IMAGE_URL_PREFIX = '/api/images/'
+const SIZED_IMAGE = /\/(\d+)\.jpg$/
+
+/**
+ * URL of an uploaded image at `size`. Older covers may still be plain
+ * external URLs; those are returned unchanged.
+ */
+export function imageSrc(url: string, size: ImageSize): string {
+  if (!url.startsWith(IMAGE_URL_PREFIX)) return url
+  return url.replace(SIZED_IMAGE, `/${size}.jpg`)
+}
+
+// Project.coverImage and User.profilePicture store the URL of the largest size
+export function imageUrlForKey(key: string): string {
+  return `${IMAGE_URL_PREFIX}${key}`
+}
+
+/**
+ * Storage directory of an uploaded image, or null for external URLs
+ */
+export function imageDirFromUrl(url: string | null | undefined): string | null {
+  if (!url?.startsWith(IMAGE_URL_PREFIX) || !SIZED_IMAGE.test(url)) return null
+  return url.slice(IMAGE_URL_PREFIX.length).replace(SIZED_IMAGE, '/')
+}
@@ -0,0 +1,144 @@
+import { spawn } from 'child_process'
+import { promises as fs } from 'fs'
+import path from 'path'
+import { getStorage, getStagingDir } from './storage'
+import { IMAGE_SIZES, imageDirFromUrl, imageUrlForKey } from './imageUrls'
+
+export const MAX_IMAGE_SIZE = 10 * 1024 * 1024 // 10MB
+export const ALLOWED_IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/webp']
+
+// Decoders ffprobe reports for the types above
+const IMAGE_CODECS = ['mjpeg', 'png', 'webp']
+
+// Covers are kept with the project's audio so purging the project removes them
+export function projectCoverDir(projectId: string): string {
+  return `projects/${projectId}/cover`
+}
+
+export function userAvatarDir(userId: string): string {
+  return `users/${userId}/avatar`
+}
+
+/**
+ * Why `file` can't be used as an image, or null when it looks acceptable.
+ * The contents are checked again when the thumbnails are generated.
+ */
+export function validateImageFile(file: File | null): string | null {
+  if (!file || typeof file === 'string') return 'An image file is required'
+  if (!ALLOWED_IMAGE_TYPES.includes(file.type)) return 'Invalid image type. Allowed: JPEG, PNG, WebP'
+  if (file.size > MAX_IMAGE_SIZE) return 'Image too large. Maximum 10MB'
+  return null
+}
+
+/**
+ * Whether ffprobe can decode `filePath` as a single still image
+ */
+function probeImage(filePath: string): Promise<boolean> {
+  return new Promise((resolve) => {
+    const ffprobe = spawn('ffprobe', [
+      '-v', 'quiet',
+      '-print_format', 'json',
+      '-show_streams',
+      filePath
+    ])
+
+    let stdout = ''
+    ffprobe.stdout.on('data', (data) => {
+      stdout += data.toString()
+    })
+
+    ffprobe.on('error', () => resolve(false))
+    ffprobe.on('close', (code) => {
+      if (code !== 0) {
+        resolve(false)
+        return
+      }
+
+      try {
+        const streams: { codec_type: string; codec_name: string }[] = JSON.parse(stdout).streams || []
+        resolve(streams.length === 1 && streams[0].codec_type === 'video' && IMAGE_CODECS.includes(streams[0].codec_name))
+      } catch {
+        resolve(false)
+      }
+    })
+  })
+}
+
+/**
+ * Center-crop `inputPath` to a square and scale it to `size` pixels as JPEG
+ */
+function renderThumbnail(inputPath: string, outputPath: string, size: number): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const ffmpeg = spawn('ffmpeg', [
+      '-y',
+      '-i', inputPath,
+      '-vf', `crop='min(iw,ih)':'min(iw,ih)',scale=${size}:${size}`,
+      '-frames:v', '1',
+      '-q:v', '3',
+      outputPath
+    ])
+
+    let stderr = ''
+    ffmpeg.stderr.on('data', (data) => {
+      stderr += data.toString()
+    })
+
+    ffmpeg.on('error', reject)
+    ffmpeg.on('close', (code) => {
+      if (code === 0) {
+        resolve()
+      } else {
+        reject(new Error(`FFmpeg failed: ${stderr}`))
+      }
+    })
+  })
+}
+
+/**
+ * Generate every thumbnail size for an uploaded image and store them under
+ * `<dir>/<timestamp>/<size>.jpg`. Returns the URL to save on the record, or
+ * null when the file isn't a readable image.
+ */
+export async function storeImageUpload(file: File, dir: string): Promise<string | null> {
+  const stagingDir = getStagingDir()
+  await fs.mkdir(stagingDir, { recursive: true })
+
+  const stamp = Date.now().toString()
+  const inputPath = path.join(stagingDir, `image_${stamp}_${Math.random().toString(36).slice(2)}`)
+  const outputPaths: string[] = []
+
+  try {
+    await fs.writeFile(inputPath, Buffer.from(await file.arrayBuffer()))
+    if (!await probeImage(inputPath)) return null
+
+    const storage = getStorage()
+    const imageDir = `${dir}/${stamp}`
+    for (const size of IMAGE_SIZES) {
+      const outputPath = `${inputPath}_${size}.jpg`
+      outputPaths.push(outputPath)
+      await renderThumbnail(inputPath, outputPath, size)
+      await storage.putFile(`${imageDir}/${size}.jpg`, outputPath, 'image/jpeg')
+    }
+
+    return imageUrlForKey(`${imageDir}/${IMAGE_SIZES[IMAGE_SIZES.length - 1]}.jpg`)
+  } finally {
+    // putFile moves the thumbnails, so only leftovers from a failure remain
+    await Promise.all([inputPath, ...outputPaths].map(p => fs.rm(p, { force: true })))
+  }
+}
+
+/**
+ * Remove the stored thumbnails behind an image URL, as long as they live under
+ * `dir`; the URL is stored as text, so it could point at someone else's image.
+ * External URLs are left alone.
+ */
+export async function deleteStoredImage(url: string | null | undefined, dir: string): Promise<void> {
+  const imageDir = imageDirFromUrl(url)
+  if (!imageDir?.startsWith(`${dir}/`)) return
+
+  try {
+    await getStorage().deletePrefix(imageDir)
+  } catch (error) {
+    console.error('Error deleting image:', error)
+  }
+}
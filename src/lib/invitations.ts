@@ -0,0 +1,106 @@
+import crypto from 'crypto'
+import { ProjectRole } from '@prisma/client'
+import { prisma } from './db'
+import { sendMail, appUrl } from './mailer'
+import type { AuthUser } from './auth'
+
+const INVITATION_TTL_DAYS = 7
+
+// Accepting an invite never lowers a role the user already has
+const ROLE_RANK: Record<ProjectRole, number> = {
+  VIEWER: 0,
+  COLLABORATOR: 1,
+  OWNER: 2
+}
+
+export const PROJECT_ROLES: ProjectRole[] = ['OWNER', 'COLLABORATOR', 'VIEWER']
+
+export type AcceptInvitationResult =
+  | { ok: true; projectId: string }
+  | { ok: false; status: number; error: string }
+
+/**
+ * Create an invitation and email the accept link to `email`
+ */
+export async function inviteToProject(projectId: string, email: string, role: ProjectRole, invitedBy: AuthUser) {
+  const invitation = await prisma.projectInvitation.create({
+    data: {
+      projectId,
+      email: email.trim().toLowerCase(),
+      role,
+      token: crypto.randomBytes(32).toString('hex'),
+      expiresAt: new Date(Date.now() + INVITATION_TTL_DAYS * 24 * 60 * 60 * 1000),
+      invitedById: invitedBy.id
+    },
+    include: {
+      project: { select: { name: true, artist: true } }
+    }
+  })
+
+  const link = appUrl(`/invitations/${invitation.token}`)
+  const projectTitle = `${invitation.project.name} by ${invitation.project.artist}`
+
+  try {
+    await sendMail({
+      to: invitation.email,
+      subject: `${invitedBy.name} invited you to ${invitation.project.name} on JWX Studio`,
+      text: [
+        `${invitedBy.name} invited you to review "${projectTitle}" as a ${role.toLowerCase()}.`,
+        '',
+        `Accept the invitation: ${link}`,
+        '',
+        `This link expires in ${INVITATION_TTL_DAYS} days.`
+      ].join('\n')
+    })
+  } catch (error) {
+    // Nobody can accept an invitation that never arrived; let the owner retry
+    await prisma.projectInvitation.delete({ where: { id: invitation.id } })
+    throw error
+  }
+
+  return invitation
+}
+
+/**
+ * Turn a pending invitation into a project membership for `user`
+ */
+export async function acceptInvitation(token: string, user: AuthUser): Promise<AcceptInvitationResult> {
+  const invitation = await prisma.projectInvitation.findUnique({ where: { token } })
+
+  if (!invitation) {
+    return { ok: false, status: 404, error: 'Invitation not found' }
+  }
+  if (invitation.acceptedAt) {
+    return { ok: false, status: 410, error: 'Invitation has already been accepted' }
+  }
+  if (invitation.expiresAt < new Date()) {
+    return { ok: false, status: 410, error: 'Invitation has expired' }
+  }
+  if (invitation.email !== user.email.toLowerCase()) {
+    return { ok: false, status: 403, error: `This invitation was sent to ${invitation.email}` }
+  }
+
+  await prisma.$transaction(async (tx) => {
+    const existing = await tx.projectMember.findUnique({
+      where: { projectId_userId: { projectId: invitation.projectId, userId: user.id } }
+    })
+
+    if (!existing) {
+      await tx.projectMember.create({
+        data: { projectId: invitation.projectId, userId: user.id, role: invitation.role }
+      })
+    } else if (ROLE_RANK[invitation.role] > ROLE_RANK[existing.role]) {
+      await tx.projectMember.update({
+        where: { id: existing.id },
+        data: { role: invitation.role }
+      })
+    }
+
+    await tx.projectInvitation.update({
+      where: { id: invitation.id },
+      data: { acceptedAt: new Date() }
+    })
+  })
+
+  return { ok: true, projectId: invitation.projectId }
+}
@@ -0,0 +1,78 @@
+import nodemailer, { Transporter } from 'nodemailer'
+
+export interface MailMessage {
+  to: string
+  subject: string
+  text: string
+  html?: string
+}
+
+const globalForMailer = globalThis as unknown as {
+  mailer: Transporter | undefined
+}
+
+type MailTransportName = 'smtp' | 'log'
+
+// Give up on an unresponsive SMTP server instead of hanging the sender
+const SMTP_TIMEOUT_MS = 10_000
+
+function getTransportName(): MailTransportName {
+  const name = process.env.MAIL_TRANSPORT || 'smtp'
+  if (name !== 'smtp' && name !== 'log') {
+    throw new Error(`Unknown MAIL_TRANSPORT "${name}"`)
+  }
+  return name
+}
+
+/**
+ * SMTP transport configured by SMTP_HOST/SMTP_PORT/SMTP_USER/SMTP_PASS.
+ * Defaults to localhost:1025, where a capture server such as Mailpit or
+ * MailHog collects outgoing mail during development.
+ */
+function createSmtpTransport(): Transporter {
+  const port = Number(process.env.SMTP_PORT) || 1025
+  return nodemailer.createTransport({
+    host: process.env.SMTP_HOST || 'localhost',
+    port,
+    secure: port === 465,
+    auth: process.env.SMTP_USER
+      ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS }
+      : undefined,
+    connectionTimeout: SMTP_TIMEOUT_MS,
+    greetingTimeout: SMTP_TIMEOUT_MS,
+    socketTimeout: SMTP_TIMEOUT_MS
+  })
+}
+
+/**
+ * Transport picked by MAIL_TRANSPORT: `smtp` (default) or `log`, which
+ * writes each message to the console instead of sending it
+ */
+function getTransport(): Transporter {
+  if (!globalForMailer.mailer) {
+    globalForMailer.mailer = getTransportName() === 'log'
+      ? nodemailer.createTransport({ jsonTransport: true })
+      : createSmtpTransport()
+  }
+
+  return globalForMailer.mailer
+}
+
+export async function sendMail(message: MailMessage): Promise<void> {
+  const info = await getTransport().sendMail({
+    from: process.env.MAIL_FROM || 'JWX Studio <no-reply@jwx.local>',
+    ...message
+  })
+
+  if (getTransportName() === 'log') {
+    console.log('Mail:', info.message)
+  }
+}
+
+/**
+ * Absolute URL for links in emails
+ */
+export function appUrl(pathname: string): string {
+  const base = (process.env.APP_URL || 'http://localhost:3000').replace(/\/+$/, '')
+  return `${base}${pathname}`
+}
@@ -16,8 +16,14 @@ export async function getAuthUser(request: NextRequest): Promise<AuthUser | null
   }
 }
 
-export function requireAuth(handler: (request: NextRequest, user: AuthUser) => Promise<Response>) {
-  return async (request: NextRequest) => {
+/**
+ * Wrap a route handler so it only runs for a signed-in user. The route
+ * context (`{ params }`) is passed through unchanged.
+ */
+export function requireAuth<Context = unknown>(
+  handler: (request: NextRequest, user: AuthUser, context: Context) => Promise<Response>
+) {
+  return async (request: NextRequest, context: Context) => {
     const user = await getAuthUser(request)
     
     if (!user) {
@@ -27,6 +33,6 @@ export function requireAuth(handler: (request: NextRequest, user: AuthUser) => P
       })
     }
 
-    return handler(request, user)
+    return handler(request, user, context)
   }
 }
\ No newline at end of file
@@ -0,0 +1,151 @@
+import { prisma } from './db'
+import { sendMail, appUrl, MailMessage } from './mailer'
+
+// Unread notifications older than this are left out of digests
+const DIGEST_MAX_AGE_DAYS = 7
+
+// Immediate emails that couldn't go out within this long are dropped rather
+// than arriving late, e.g. after an SMTP outage or a preference change
+const IMMEDIATE_MAX_AGE_HOURS = 24
+
+interface EmailNotification {
+  id: string
+  message: string
+  link: string | null
+  createdAt: Date
+  project: { name: string }
+}
+
+interface EmailRecipient {
+  id: string
+  name: string
+  email: string
+}
+
+const notificationEmailSelect = {
+  id: true,
+  message: true,
+  link: true,
+  createdAt: true,
+  project: { select: { name: true } },
+  user: { select: { id: true, name: true, email: true } }
+} as const
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+function notificationUrl(notification: EmailNotification): string {
+  return appUrl(notification.link || '/dashboard')
+}
+
+function renderNotificationEmail(recipient: EmailRecipient, notification: EmailNotification): MailMessage {
+  const url = notificationUrl(notification)
+  return {
+    to: recipient.email,
+    subject: `[${notification.project.name}] ${notification.message}`,
+    text: `Hi ${recipient.name},\n\n${notification.message}\n\nOpen it here: ${url}\n\nChange how often you get these emails in your profile: ${appUrl('/profile')}`,
+    html: `<p>Hi ${escapeHtml(recipient.name)},</p>` +
+      `<p>${escapeHtml(notification.message)}</p>` +
+      `<p><a href="${escapeHtml(url)}">Open in JWX Studio</a></p>` +
+      `<p style="color:#6b7280;font-size:12px">Change how often you get these emails in your <a href="${escapeHtml(appUrl('/profile'))}">profile</a>.</p>`
+  }
+}
+
+function renderDigestEmail(recipient: EmailRecipient, notifications: EmailNotification[]): MailMessage {
+  const lines = notifications.map(notification =>
+    `- [${notification.project.name}] ${notification.message}\n  ${notificationUrl(notification)}`
+  )
+  const items = notifications.map(notification =>
+    `<li><strong>${escapeHtml(notification.project.name)}</strong>: ` +
+    `<a href="${escapeHtml(notificationUrl(notification))}">${escapeHtml(notification.message)}</a></li>`
+  )
+
+  return {
+    to: recipient.email,
+    subject: `Your JWX Studio digest: ${notifications.length} update${notifications.length !== 1 ? 's' : ''}`,
+    text: `Hi ${recipient.name},\n\nHere's what happened on your projects:\n\n${lines.join('\n')}\n\nChange how often you get these emails in your profile: ${appUrl('/profile')}`,
+    html: `<p>Hi ${escapeHtml(recipient.name)},</p>` +
+      `<p>Here's what happened on your projects:</p>` +
+      `<ul>${items.join('')}</ul>` +
+      `<p style="color:#6b7280;font-size:12px">Change how often you get these emails in your <a href="${escapeHtml(appUrl('/profile'))}">profile</a>.</p>`
+  }
+}
+
+/**
+ * Email every recent, un-emailed notification whose recipient wants them right
+ * away. Run by the worker so requests never wait on SMTP; failed sends are
+ * retried on the next pass. Returns the number of emails sent.
+ */
+export async function emailPendingNotifications(): Promise<number> {
+  const since = new Date(Date.now() - IMMEDIATE_MAX_AGE_HOURS * 60 * 60 * 1000)
+  const notifications = await prisma.notification.findMany({
+    where: {
+      emailedAt: null,
+      createdAt: { gte: since },
+      user: { emailPreference: 'IMMEDIATE' }
+    },
+    select: notificationEmailSelect,
+    orderBy: { createdAt: 'asc' }
+  })
+
+  let sent = 0
+  for (const notification of notifications) {
+    try {
+      await sendMail(renderNotificationEmail(notification.user, notification))
+      await prisma.notification.update({
+        where: { id: notification.id },
+        data: { emailedAt: new Date() }
+      })
+      sent++
+    } catch (error) {
+      console.error(`Error emailing notification ${notification.id}:`, error)
+    }
+  }
+
+  return sent
+}
+
+/**
+ * Send one digest to every DAILY user with unread, un-emailed notifications.
+ * Returns the number of digests sent.
+ */
+export async function sendDailyDigests(): Promise<number> {
+  const since = new Date(Date.now() - DIGEST_MAX_AGE_DAYS * 24 * 60 * 60 * 1000)
+  const notifications = await prisma.notification.findMany({
+    where: {
+      emailedAt: null,
+      readAt: null,
+      createdAt: { gte: since },
+      user: { emailPreference: 'DAILY' }
+    },
+    select: notificationEmailSelect,
+    orderBy: { createdAt: 'asc' }
+  })
+
+  const byUser = new Map<string, typeof notifications>()
+  for (const notification of notifications) {
+    byUser.set(notification.user.id, [...(byUser.get(notification.user.id) ?? []), notification])
+  }
+
+  let sent = 0
+  for (const userNotifications of byUser.values()) {
+    const recipient = userNotifications[0].user
+    try {
+      await sendMail(renderDigestEmail(recipient, userNotifications))
+      await prisma.notification.updateMany({
+        where: { id: { in: userNotifications.map(notification => notification.id) } },
+        data: { emailedAt: new Date() }
+      })
+      sent++
+    } catch (error) {
+      console.error(`Error sending digest to ${recipient.email}:`, error)
+    }
+  }
+
+  return sent
+}
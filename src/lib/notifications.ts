@@ -0,0 +1,130 @@
+import { NotificationType } from '@prisma/client'
+import { prisma } from './db'
+import { STAFF_ROLES } from './policy'
+
+export interface ProjectActivity {
+  type: Exclude<NotificationType, 'MENTION'>
+  projectId: string
+  actor: { id: string; name: string }
+  /** Shown in every member's inbox, e.g. "Sam commented on Intro" */
+  message: string
+  link?: string
+  trackId?: string
+  commentId?: string
+  /** Comment or reply text to scan for @mentions */
+  content?: string
+}
+
+// Longest mention text quoted back to the mentioned user
+const MENTION_SNIPPET_LENGTH = 80
+
+interface MentionCandidate {
+  id: string
+  name: string
+  email: string
+}
+
+/**
+ * Users named in `content` as @handle. A handle is a user's full name without
+ * spaces, their email name, or their first name when no one else shares it.
+ */
+export function findMentionedUsers(content: string, users: MentionCandidate[]): string[] {
+  const tokens = new Set(
+    Array.from(content.matchAll(/@([\p{L}\p{N}._-]+)/gu), match => match[1].toLowerCase())
+  )
+  if (tokens.size === 0) return []
+
+  const firstName = (user: MentionCandidate) => user.name.trim().split(/\s+/)[0].toLowerCase()
+  const firstNameCounts = new Map<string, number>()
+  for (const user of users) {
+    firstNameCounts.set(firstName(user), (firstNameCounts.get(firstName(user)) ?? 0) + 1)
+  }
+
+  return users
+    .filter(user => {
+      const handles = [
+        user.name.replace(/\s+/g, '').toLowerCase(),
+        user.email.split('@')[0].toLowerCase()
+      ]
+      if (firstNameCounts.get(firstName(user)) === 1) {
+        handles.push(firstName(user))
+      }
+      return handles.some(handle => tokens.has(handle))
+    })
+    .map(user => user.id)
+}
+
+/**
+ * Staff who have worked on a track (commented, replied or uploaded). They see
+ * every project without being members, so this is how they hear about it.
+ */
+async function findInvolvedStaff(trackId: string): Promise<string[]> {
+  const staff = await prisma.user.findMany({
+    where: {
+      role: { in: [...STAFF_ROLES] },
+      OR: [
+        { comments: { some: { trackId } } },
+        { commentReplies: { some: { comment: { trackId } } } },
+        { processingJobs: { some: { trackId } } }
+      ]
+    },
+    select: { id: true }
+  })
+  return staff.map(user => user.id)
+}
+
+/**
+ * Notify every member of a project about something `actor` did there, along
+ * with staff involved in the track. Anyone mentioned in `content`, members
+ * and staff alike, gets a MENTION instead of the plain entry. Emails are left
+ * to the worker (see notificationEmails.ts). Best effort: failures are logged
+ * and never fail the caller's request.
+ */
+export async function notifyProjectMembers(activity: ProjectActivity): Promise<void> {
+  try {
+    const userSelect = { id: true, name: true, email: true }
+    const [members, staff, involvedStaff] = await Promise.all([
+      prisma.projectMember.findMany({
+        where: { projectId: activity.projectId },
+        select: { user: { select: userSelect } }
+      }),
+      prisma.user.findMany({
+        where: { role: { in: [...STAFF_ROLES] } },
+        select: userSelect
+      }),
+      activity.trackId ? findInvolvedStaff(activity.trackId) : Promise.resolve([] as string[])
+    ])
+
+    // Staff who are also members appear once
+    const users = [...new Map([...staff, ...members.map(member => member.user)].map(user => [user.id, user])).values()]
+    const mentioned = new Set(activity.content ? findMentionedUsers(activity.content, users) : [])
+    const snippet = activity.content && activity.content.length > MENTION_SNIPPET_LENGTH
+      ? `${activity.content.slice(0, MENTION_SNIPPET_LENGTH)}...`
+      : activity.content
+
+    // Staff hear about tracks they're involved in, or when they're mentioned
+    const memberIds = new Set(members.map(member => member.user.id))
+    const recipients = users.filter(user =>
+      user.id !== activity.actor.id &&
+      (memberIds.has(user.id) || involvedStaff.includes(user.id) || mentioned.has(user.id))
+    )
+    if (recipients.length === 0) return
+
+    await prisma.notification.createMany({
+      data: recipients.map(user => ({
+        type: mentioned.has(user.id) ? 'MENTION' as const : activity.type,
+        message: mentioned.has(user.id)
+          ? `${activity.actor.name} mentioned you: "${snippet}"`
+          : activity.message,
+        link: activity.link,
+        userId: user.id,
+        actorId: activity.actor.id,
+        projectId: activity.projectId,
+        trackId: activity.trackId,
+        commentId: activity.commentId
+      }))
+    })
+  } catch (error) {
+    console.error('Error creating notifications:', error)
+  }
+}
@@ -0,0 +1,205 @@
+import assert from 'node:assert/strict'
+import { describe, test } from 'node:test'
+import type { ProjectRole, ProjectStatus } from '@prisma/client'
+import type { AuthUser } from './auth'
+import { Action, can, isProjectReadOnly, PolicyResource } from './policy'
+
+// Listed as a Record so adding an Action without a row here fails the type check
+const ACTIONS = Object.keys({
+  'project:read': true,
+  'project:update': true,
+  'project:change-status': true,
+  'project:delete': true,
+  'project:manage-members': true,
+  'track:create': true,
+  'track:read': true,
+  'track:update': true,
+  'track:delete': true,
+  'version:read': true,
+  'version:upload': true,
+  'version:activate': true,
+  'version:delete': true,
+  'version:approve': true,
+  'version:finalize': true,
+  'version:unlock-final': true,
+  'comment:create': true,
+  'comment:reply': true,
+  'comment:edit': true,
+  'comment:update-status': true,
+  'comment:reopen': true,
+  'comment:delete': true,
+  'job:read': true
+} satisfies Record<Action, true>) as Action[]
+
+const except = (...excluded: Action[]) => ACTIONS.filter(action => !excluded.includes(action))
+
+const VIEWER: Action[] = [
+  'project:read',
+  'track:read',
+  'version:read',
+  'version:approve',
+  'comment:create',
+  'comment:reply'
+]
+
+const COLLABORATOR: Action[] = [
+  ...VIEWER,
+  'track:create',
+  'track:update',
+  'version:upload',
+  'version:activate',
+  'comment:update-status',
+  'job:read'
+]
+
+const AUTHOR: Action[] = [
+  'comment:reply',
+  'comment:edit',
+  'comment:update-status',
+  'comment:reopen',
+  'comment:delete',
+  'job:read'
+]
+
+interface Subject {
+  name: string
+  role: AuthUser['role']
+  projectRole?: ProjectRole
+  /** Whether the user wrote the resource (comment or job) */
+  author?: boolean
+  /** Everything allowed on an ACTIVE project */
+  active: Action[]
+  /** Everything allowed once the project is COMPLETED or ARCHIVED */
+  readOnly: Action[]
+}
+
+const SUBJECTS: Subject[] = [
+  {
+    name: 'admin',
+    role: 'ADMIN',
+    active: ACTIONS,
+    readOnly: ACTIONS
+  },
+  {
+    name: 'engineer',
+    role: 'ENGINEER',
+    active: except('version:unlock-final'),
+    readOnly: except('version:unlock-final')
+  },
+  {
+    name: 'engineer who is also a viewer',
+    role: 'ENGINEER',
+    projectRole: 'VIEWER',
+    active: except('version:unlock-final'),
+    readOnly: except('version:unlock-final')
+  },
+  {
+    name: 'owner',
+    role: 'CLIENT',
+    projectRole: 'OWNER',
+    active: except('version:unlock-final'),
+    readOnly: ['project:read', 'project:change-status', 'project:delete', 'project:manage-members', 'track:read', 'version:read', 'job:read']
+  },
+  {
+    name: 'collaborator',
+    role: 'CLIENT',
+    projectRole: 'COLLABORATOR',
+    active: COLLABORATOR,
+    readOnly: ['project:read', 'track:read', 'version:read', 'job:read']
+  },
+  {
+    name: 'viewer',
+    role: 'CLIENT',
+    projectRole: 'VIEWER',
+    active: VIEWER,
+    readOnly: ['project:read', 'track:read', 'version:read']
+  },
+  {
+    name: 'viewer who wrote the resource',
+    role: 'CLIENT',
+    projectRole: 'VIEWER',
+    author: true,
+    active: [...new Set([...VIEWER, ...AUTHOR])],
+    readOnly: ['project:read', 'track:read', 'version:read', 'job:read']
+  },
+  {
+    name: 'non-member',
+    role: 'CLIENT',
+    active: [],
+    readOnly: []
+  },
+  {
+    name: 'non-member who wrote the resource',
+    role: 'CLIENT',
+    author: true,
+    active: AUTHOR,
+    readOnly: ['job:read']
+  }
+]
+
+const USER_ID = 'user-1'
+
+function user(role: AuthUser['role']): AuthUser {
+  return { id: USER_ID, email: 'user@example.com', name: 'User', role, emailPreference: 'IMMEDIATE' }
+}
+
+function resource(subject: Subject, status: ProjectStatus): PolicyResource {
+  return {
+    project: {
+      status,
+      members: [
+        { userId: 'someone-else', role: 'OWNER' },
+        ...(subject.projectRole ? [{ userId: USER_ID, role: subject.projectRole }] : [])
+      ]
+    },
+    userId: subject.author ? USER_ID : 'someone-else'
+  }
+}
+
+describe('can', () => {
+  for (const subject of SUBJECTS) {
+    for (const status of ['ACTIVE', 'COMPLETED', 'ARCHIVED'] as const) {
+      const allowed = status === 'ACTIVE' ? subject.active : subject.readOnly
+
+      test(`${subject.name} on an ${status.toLowerCase()} project`, () => {
+        for (const action of ACTIONS) {
+          assert.equal(
+            can(user(subject.role), action, resource(subject, status)),
+            allowed.includes(action),
+            `${subject.name} ${allowed.includes(action) ? 'should' : 'should not'} ${action}`
+          )
+        }
+      })
+    }
+  }
+
+  test('reserves version:unlock-final for admins', () => {
+    const project = { status: 'ACTIVE' as const, members: [{ userId: USER_ID, role: 'OWNER' as const }] }
+    assert.equal(can(user('ADMIN'), 'version:unlock-final', { project }), true)
+    assert.equal(can(user('ENGINEER'), 'version:unlock-final', { project }), false)
+    assert.equal(can(user('CLIENT'), 'version:unlock-final', { project, userId: USER_ID }), false)
+  })
+})
+
+describe('read-only projects', () => {
+  test('owners can reopen them but not edit their details', () => {
+    for (const status of ['COMPLETED', 'ARCHIVED'] as const) {
+      const project = { status, members: [{ userId: USER_ID, role: 'OWNER' as const }] }
+      assert.equal(can(user('CLIENT'), 'project:change-status', { project }), true)
+      assert.equal(can(user('CLIENT'), 'project:update', { project }), false)
+    }
+    const active = { status: 'ACTIVE' as const, members: [{ userId: USER_ID, role: 'OWNER' as const }] }
+    assert.equal(can(user('CLIENT'), 'project:update', { project: active }), true)
+  })
+})
+
+describe('isProjectReadOnly', () => {
+  test('applies to clients on projects that are no longer active', () => {
+    const project = (status: ProjectStatus) => ({ status, members: [] })
+    assert.equal(isProjectReadOnly(user('CLIENT'), project('ACTIVE')), false)
+    assert.equal(isProjectReadOnly(user('CLIENT'), project('COMPLETED')), true)
+    assert.equal(isProjectReadOnly(user('CLIENT'), project('ARCHIVED')), true)
+    assert.equal(isProjectReadOnly(user('ENGINEER'), project('ARCHIVED')), false)
+    assert.equal(isProjectReadOnly(user('ADMIN'), project('COMPLETED')), false)
+  })
+})
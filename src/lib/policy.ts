@@ -0,0 +1,150 @@
+import { Prisma, ProjectRole, ProjectStatus } from '@prisma/client'
+import type { AuthUser } from './auth'
+
+export type Action =
+  | 'project:read'
+  | 'project:update'
+  | 'project:change-status'
+  | 'project:delete'
+  | 'project:manage-members'
+  | 'track:create'
+  | 'track:read'
+  | 'track:update'
+  | 'track:delete'
+  | 'version:read'
+  | 'version:upload'
+  | 'version:activate'
+  | 'version:delete'
+  | 'version:approve'
+  | 'version:finalize'
+  | 'version:unlock-final'
+  | 'comment:create'
+  | 'comment:reply'
+  | 'comment:edit'
+  | 'comment:update-status'
+  | 'comment:reopen'
+  | 'comment:delete'
+  | 'job:read'
+
+export interface ProjectAccess {
+  /** Memberships to check; loading only the current user's row is enough */
+  members: { userId: string; role: ProjectRole }[]
+  /** Completed and archived projects are read-only for everyone but staff */
+  status: ProjectStatus
+}
+
+export interface PolicyResource {
+  /** Project the resource belongs to */
+  project: ProjectAccess
+  /** Author of the resource itself, when it has one (comments, jobs) */
+  userId?: string
+}
+
+// Studio staff work across every project
+export const STAFF_ROLES: ReadonlyArray<AuthUser['role']> = ['ADMIN', 'ENGINEER']
+
+// Overrides that not even project owners or engineers get
+const ADMIN_ONLY_ACTIONS: ReadonlySet<Action> = new Set<Action>([
+  'version:unlock-final'
+])
+
+const VIEWER_ACTIONS: ReadonlySet<Action> = new Set<Action>([
+  'project:read',
+  'track:read',
+  'version:read',
+  'version:approve',
+  'comment:create',
+  'comment:reply'
+])
+
+const COLLABORATOR_ACTIONS: ReadonlySet<Action> = new Set<Action>([
+  ...VIEWER_ACTIONS,
+  'track:create',
+  'track:update',
+  'version:upload',
+  'version:activate',
+  'comment:update-status',
+  'job:read'
+])
+
+// All a member may still do once a project is completed or archived; owners
+// keep project:change-status so they can reopen it, but not project:update
+const READ_ONLY_ACTIONS: ReadonlySet<Action> = new Set<Action>([
+  'project:read',
+  'project:change-status',
+  'project:delete',
+  'project:manage-members',
+  'track:read',
+  'version:read',
+  'job:read'
+])
+
+// Owners can do everything, including deleting the project and managing members
+const MEMBER_ACTIONS: Record<ProjectRole, ReadonlySet<Action> | 'all'> = {
+  OWNER: 'all',
+  COLLABORATOR: COLLABORATOR_ACTIONS,
+  VIEWER: VIEWER_ACTIONS
+}
+
+// Authors keep control of what they created even after losing project access.
+// Only authors edit their own words, so routes check authorship on top of
+// comment:edit, which also fails once the project is read-only.
+const AUTHOR_ACTIONS: ReadonlySet<Action> = new Set<Action>([
+  'comment:reply',
+  'comment:edit',
+  'comment:update-status',
+  'comment:reopen',
+  'comment:delete',
+  'job:read'
+])
+
+/**
+ * Whether `user` only gets read access because the project is no longer active
+ */
+export function isProjectReadOnly(user: AuthUser, project: ProjectAccess): boolean {
+  return project.status !== 'ACTIVE' && !STAFF_ROLES.includes(user.role)
+}
+
+export function getProjectRole(user: AuthUser, project: ProjectAccess): ProjectRole | null {
+  return project.members.find(member => member.userId === user.id)?.role ?? null
+}
+
+/**
+ * Single source of truth for who may do what.
+ * ADMIN and ENGINEER may act on any project; everyone else depends on their
+ * project membership role, and only reads once the project is no longer
+ * active. A few overrides are reserved for ADMIN alone.
+ */
+export function can(user: AuthUser, action: Action, resource: PolicyResource): boolean {
+  if (ADMIN_ONLY_ACTIONS.has(action)) return user.role === 'ADMIN'
+  if (STAFF_ROLES.includes(user.role)) return true
+  if (isProjectReadOnly(user, resource.project) && !READ_ONLY_ACTIONS.has(action)) return false
+
+  const role = getProjectRole(user, resource.project)
+  if (role) {
+    const allowed = MEMBER_ACTIONS[role]
+    if (allowed === 'all' || allowed.has(action)) return true
+  }
+
+  return resource.userId === user.id && AUTHOR_ACTIONS.has(action)
+}
+
+/**
+ * Select just enough of a project to run `can` for `user`
+ */
+export function projectAccessSelect(user: AuthUser) {
+  return {
+    status: true,
+    members: {
+      where: { userId: user.id },
+      select: { userId: true, role: true }
+    }
+  } satisfies Prisma.ProjectSelect
+}
+
+/**
+ * Prisma filter matching the projects `user` may read, for list queries
+ */
+export function readableProjectsWhere(user: AuthUser): Prisma.ProjectWhereInput {
+  return STAFF_ROLES.includes(user.role) ? {} : { members: { some: { userId: user.id } } }
+}
@@ -0,0 +1,8 @@
+import { ProjectStatus } from '@prisma/client'
+
+// COMPLETED and ARCHIVED projects are read-only for clients (see `can`)
+export const PROJECT_STATUSES: ProjectStatus[] = ['ACTIVE', 'COMPLETED', 'ARCHIVED']
+
+export function isProjectStatus(value: unknown): value is ProjectStatus {
+  return PROJECT_STATUSES.includes(value as ProjectStatus)
+}
@@ -0,0 +1,34 @@
+import assert from 'node:assert/strict'
+import { createHash } from 'node:crypto'
+import { describe, test } from 'node:test'
+import { sha256Hex } from './sha256'
+
+// Bytes that differ by position, so dropped or reordered input changes the hash
+function bytes(length: number): Uint8Array {
+  const data = new Uint8Array(length)
+  for (let i = 0; i < length; i++) {
+    data[i] = (i * 31 + 7) & 0xff
+  }
+  return data
+}
+
+const expected = (data: Uint8Array) => createHash('sha256').update(data).digest('hex')
+
+describe('sha256Hex', () => {
+  // 55 still fits the padding in one block, 56 needs a second one and 64 is exactly one block
+  for (const length of [0, 55, 56, 64]) {
+    test(`matches node:crypto for ${length} bytes`, () => {
+      const data = bytes(length)
+      assert.equal(sha256Hex(data), expected(data))
+    })
+  }
+
+  test('matches node:crypto for an 8MB upload part', () => {
+    const data = bytes(8 * 1024 * 1024 + 3)
+    assert.equal(sha256Hex(data), expected(data))
+  })
+
+  test('hashes the empty input to the known digest', () => {
+    assert.equal(sha256Hex(new Uint8Array()), 'e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855')
+  })
+})
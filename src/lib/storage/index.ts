@@ -0,0 +1,87 @@
+import os from 'os'
+import path from 'path'
+import { Readable } from 'stream'
+import { LocalStorageDriver } from './local'
+import { S3StorageDriver } from './s3'
+
+export { isSafeStorageKey, assertSafeStorageKey } from './keys'
+
+export interface StoredObject {
+  size: number
+  lastModified: Date
+}
+
+export interface ByteRangeOptions {
+  start: number
+  end: number // inclusive
+}
+
+export interface StorageDriver {
+  /** Store a local file at `key`. The driver takes ownership of the local file. */
+  putFile(key: string, localPath: string, contentType?: string): Promise<void>
+  /** Size and modification time, or null when the key does not exist */
+  stat(key: string): Promise<StoredObject | null>
+  /** Read the object, optionally limited to a byte range */
+  createReadStream(key: string, range?: ByteRangeOptions): Promise<Readable>
+  delete(key: string): Promise<void>
+  /** Delete every object whose key starts with `prefix` */
+  deletePrefix(prefix: string): Promise<void>
+}
+
+const globalForStorage = globalThis as unknown as {
+  storage: StorageDriver | undefined
+}
+
+/**
+ * Storage backend selected by STORAGE_DRIVER ('local' or 's3')
+ */
+export function getStorage(): StorageDriver {
+  if (!globalForStorage.storage) {
+    const driver = process.env.STORAGE_DRIVER || 'local'
+
+    switch (driver) {
+      case 'local':
+        globalForStorage.storage = new LocalStorageDriver(
+          process.env.STORAGE_ROOT || path.join(process.cwd(), 'uploads')
+        )
+        break
+      case 's3':
+        globalForStorage.storage = S3StorageDriver.fromEnv()
+        break
+      default:
+        throw new Error(`Unknown STORAGE_DRIVER: ${driver}`)
+    }
+  }
+
+  return globalForStorage.storage
+}
+
+/**
+ * Local directory where uploads wait for the audio worker. Shared by the web
+ * server and the worker, so it must be on the same machine.
+ */
+export function getStagingDir(): string {
+  return process.env.UPLOAD_STAGING_DIR || path.join(os.tmpdir(), 'jwx-staging')
+}
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.mp3': 'audio/mpeg',
+  '.wav': 'audio/wav',
+  '.ogg': 'audio/ogg',
+  '.flac': 'audio/flac',
+  '.aiff': 'audio/aiff',
+  '.jpg': 'image/jpeg'
+}
+
+export function contentTypeForKey(key: string): string {
+  return CONTENT_TYPES[path.extname(key).toLowerCase()] || 'application/octet-stream'
+}
+
+// AudioVersion.filePath keeps its historical '/uploads/<key>' form
+export function storageKeyFromFilePath(filePath: string): string {
+  return filePath.replace(/^\/?uploads\//, '').replace(/^\//, '')
+}
+
+export function filePathFromStorageKey(key: string): string {
+  return `/uploads/${key}`
+}
@@ -0,0 +1,51 @@
+import assert from 'node:assert/strict'
+import { describe, test } from 'node:test'
+import { assertSafeStorageKey, isSafeStorageKey } from './keys'
+
+describe('isSafeStorageKey', () => {
+  test('accepts relative keys', () => {
+    assert.equal(isSafeStorageKey('projects/p1/artist/t1/mix_stereo_v2.wav'), true)
+    assert.equal(isSafeStorageKey('images/cover.jpg'), true)
+    assert.equal(isSafeStorageKey('a..b/.hidden/file...wav'), true)
+  })
+
+  test('rejects traversal once decoded', () => {
+    for (const encoded of ['%2e%2e%2fetc%2fpasswd', '..%2F..%2Fsecret', 'projects/%2E%2E/%2e%2e/x']) {
+      assert.equal(isSafeStorageKey(decodeURIComponent(encoded)), false, encoded)
+    }
+    assert.equal(isSafeStorageKey('../secret'), false)
+    assert.equal(isSafeStorageKey('projects/../../secret'), false)
+    assert.equal(isSafeStorageKey('projects/./p1'), false)
+  })
+
+  // Keys are decoded once; a second layer of encoding is just part of the name
+  test('treats double-encoded traversal as a literal segment', () => {
+    const key = decodeURIComponent('%252e%252e%252fetc%252fpasswd')
+    assert.equal(key, '%2e%2e%2fetc%2fpasswd')
+    assert.equal(isSafeStorageKey(key), true)
+    assert.equal(key.split('/').length, 1)
+  })
+
+  test('rejects absolute paths', () => {
+    assert.equal(isSafeStorageKey('/etc/passwd'), false)
+    assert.equal(isSafeStorageKey('C:\\Windows\\win.ini'), false)
+    assert.equal(isSafeStorageKey('C:/Windows/win.ini'), false)
+    assert.equal(isSafeStorageKey('c:relative'), false)
+    assert.equal(isSafeStorageKey('\\\\server\\share'), false)
+  })
+
+  test('rejects empty segments, backslashes and NUL', () => {
+    assert.equal(isSafeStorageKey(''), false)
+    assert.equal(isSafeStorageKey('projects//p1'), false)
+    assert.equal(isSafeStorageKey('projects/p1/'), false)
+    assert.equal(isSafeStorageKey('projects\\..\\secret'), false)
+    assert.equal(isSafeStorageKey('file.wav\0.txt'), false)
+  })
+})
+
+describe('assertSafeStorageKey', () => {
+  test('throws on unsafe keys', () => {
+    assert.throws(() => assertSafeStorageKey('../secret'), /Invalid storage key/)
+    assert.doesNotThrow(() => assertSafeStorageKey('projects/p1/file.wav'))
+  })
+})
@@ -0,0 +1,16 @@
+/**
+ * Keys are relative, '/'-separated paths. Anything that could step outside the
+ * storage root (empty or dot segments, absolute paths, backslashes, NUL) is rejected.
+ */
+export function isSafeStorageKey(key: string): boolean {
+  if (!key || key.includes('\0') || key.includes('\\') || key.startsWith('/') || /^[a-zA-Z]:/.test(key)) {
+    return false
+  }
+  return key.split('/').every(segment => segment !== '' && segment !== '.' && segment !== '..')
+}
+
+export function assertSafeStorageKey(key: string): void {
+  if (!isSafeStorageKey(key)) {
+    throw new Error(`Invalid storage key: ${JSON.stringify(key)}`)
+  }
+}
@@ -0,0 +1,55 @@
+import assert from 'node:assert/strict'
+import { promises as fs } from 'node:fs'
+import os from 'node:os'
+import path from 'node:path'
+import { after, before, describe, test } from 'node:test'
+import { LocalStorageDriver } from './local'
+
+describe('LocalStorageDriver', () => {
+  let dir: string
+  let root: string
+  let storage: LocalStorageDriver
+
+  before(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'local-storage-test-'))
+    root = path.join(dir, 'root')
+    await fs.mkdir(path.join(root, 'projects'), { recursive: true })
+    await fs.writeFile(path.join(root, 'projects', 'inside.wav'), 'inside')
+    await fs.writeFile(path.join(dir, 'outside.txt'), 'secret')
+
+    // Links inside the root that lead back out of it
+    await fs.symlink(path.join(dir, 'outside.txt'), path.join(root, 'projects', 'escape.wav'))
+    await fs.symlink(dir, path.join(root, 'projects', 'escape-dir'))
+    // A link that stays inside is fine
+    await fs.symlink(path.join(root, 'projects', 'inside.wav'), path.join(root, 'projects', 'alias.wav'))
+
+    storage = new LocalStorageDriver(root)
+  })
+
+  after(async () => {
+    await fs.rm(dir, { recursive: true, force: true })
+  })
+
+  test('reads files inside the root', async () => {
+    assert.equal((await storage.stat('projects/inside.wav'))?.size, 6)
+    assert.equal((await storage.stat('projects/alias.wav'))?.size, 6)
+  })
+
+  test('refuses symlinks that point outside the root', async () => {
+    assert.equal(await storage.stat('projects/escape.wav'), null)
+    assert.equal(await storage.stat('projects/escape-dir/outside.txt'), null)
+    await assert.rejects(storage.createReadStream('projects/escape.wav'), /not found/)
+  })
+
+  test('rejects keys that would leave the root', async () => {
+    for (const key of ['../outside.txt', '/etc/passwd', 'C:\\Windows\\win.ini', 'projects/../../outside.txt']) {
+      await assert.rejects(storage.stat(key), /Invalid storage key/, key)
+      await assert.rejects(storage.delete(key), /Invalid storage key/, key)
+    }
+    await fs.access(path.join(dir, 'outside.txt'))
+  })
+
+  test('keeps double-encoded traversal inside the root', async () => {
+    assert.equal(await storage.stat('%2e%2e%2foutside.txt'), null)
+  })
+})
@@ -0,0 +1,89 @@
+import { createReadStream, promises as fs } from 'fs'
+import path from 'path'
+import { Readable } from 'stream'
+import type { ByteRangeOptions, StorageDriver, StoredObject } from './index'
+import { assertSafeStorageKey } from './keys'
+
+/**
+ * Stores objects as files under a root directory (STORAGE_ROOT)
+ */
+export class LocalStorageDriver implements StorageDriver {
+  constructor(private readonly root: string) {}
+
+  private resolve(key: string): string {
+    assertSafeStorageKey(key)
+
+    const root = path.resolve(this.root)
+    const resolved = path.resolve(root, key)
+    if (!resolved.startsWith(root + path.sep)) {
+      throw new Error(`Storage key escapes the storage root: ${JSON.stringify(key)}`)
+    }
+    return resolved
+  }
+
+  /**
+   * Resolve `key` for reading. Symlinks are followed, so the real target must
+   * also live inside the storage root. Returns null when the file is missing
+   * or points elsewhere.
+   */
+  private async resolveExisting(key: string): Promise<string | null> {
+    const resolved = this.resolve(key)
+
+    let realPath: string
+    let realRoot: string
+    try {
+      [realPath, realRoot] = await Promise.all([fs.realpath(resolved), fs.realpath(this.root)])
+    } catch {
+      return null
+    }
+
+    if (!realPath.startsWith(realRoot + path.sep)) {
+      console.warn(`Storage key resolves outside the storage root: ${JSON.stringify(key)}`)
+      return null
+    }
+    return realPath
+  }
+
+  async putFile(key: string, localPath: string): Promise<void> {
+    const destination = this.resolve(key)
+    await fs.mkdir(path.dirname(destination), { recursive: true })
+
+    try {
+      await fs.rename(localPath, destination)
+    } catch (error) {
+      // Staging dir may be on another filesystem
+      if ((error as NodeJS.ErrnoException).code !== 'EXDEV') throw error
+      await fs.copyFile(localPath, destination)
+      await fs.unlink(localPath)
+    }
+  }
+
+  async stat(key: string): Promise<StoredObject | null> {
+    const filePath = await this.resolveExisting(key)
+    if (!filePath) return null
+
+    try {
+      const stats = await fs.stat(filePath)
+      if (!stats.isFile()) return null
+      return { size: stats.size, lastModified: stats.mtime }
+    } catch {
+      return null
+    }
+  }
+
+  async createReadStream(key: string, range?: ByteRangeOptions): Promise<Readable> {
+    const filePath = await this.resolveExisting(key)
+    if (!filePath) {
+      throw new Error(`Storage object not found: ${key}`)
+    }
+    return createReadStream(filePath, range)
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.resolve(key), { force: true })
+  }
+
+  async deletePrefix(prefix: string): Promise<void> {
+    await fs.rm(this.resolve(prefix.replace(/\/+$/, '')), { recursive: true, force: true })
+  }
+}
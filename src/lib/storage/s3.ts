@@ -0,0 +1,119 @@
+import { createReadStream, promises as fs } from 'fs'
+import { Readable } from 'stream'
+import {
+  S3Client,
+  HeadObjectCommand,
+  GetObjectCommand,
+  DeleteObjectCommand,
+  DeleteObjectsCommand,
+  ListObjectsV2Command
+} from '@aws-sdk/client-s3'
+import { Upload } from '@aws-sdk/lib-storage'
+import type { ByteRangeOptions, StorageDriver, StoredObject } from './index'
+import { assertSafeStorageKey } from './keys'
+
+/**
+ * Stores objects in an S3-compatible bucket (AWS S3, MinIO, R2...)
+ */
+export class S3StorageDriver implements StorageDriver {
+  constructor(private readonly client: S3Client, private readonly bucket: string) {}
+
+  /**
+   * Configure from S3_BUCKET, S3_REGION, S3_ENDPOINT, S3_ACCESS_KEY_ID,
+   * S3_SECRET_ACCESS_KEY and S3_FORCE_PATH_STYLE. Point S3_ENDPOINT at a
+   * local MinIO (e.g. http://localhost:9000) for development.
+   */
+  static fromEnv(): S3StorageDriver {
+    const bucket = process.env.S3_BUCKET
+    if (!bucket) {
+      throw new Error('S3_BUCKET is required when STORAGE_DRIVER=s3')
+    }
+
+    const endpoint = process.env.S3_ENDPOINT
+    const client = new S3Client({
+      region: process.env.S3_REGION || 'us-east-1',
+      endpoint,
+      // MinIO and most self-hosted stand-ins only support path-style URLs
+      forcePathStyle: process.env.S3_FORCE_PATH_STYLE
+        ? process.env.S3_FORCE_PATH_STYLE === 'true'
+        : Boolean(endpoint),
+      credentials: process.env.S3_ACCESS_KEY_ID && process.env.S3_SECRET_ACCESS_KEY
+        ? {
+            accessKeyId: process.env.S3_ACCESS_KEY_ID,
+            secretAccessKey: process.env.S3_SECRET_ACCESS_KEY
+          }
+        : undefined
+    })
+
+    return new S3StorageDriver(client, bucket)
+  }
+
+  async putFile(key: string, localPath: string, contentType?: string): Promise<void> {
+    // Refuse a bad key before anything is sent to the bucket
+    assertSafeStorageKey(key)
+
+    // Multipart upload keeps large masters out of memory
+    const upload = new Upload({
+      client: this.client,
+      params: {
+        Bucket: this.bucket,
+        Key: key,
+        Body: createReadStream(localPath),
+        ContentType: contentType
+      }
+    })
+    await upload.done()
+    await fs.unlink(localPath)
+  }
+
+  async stat(key: string): Promise<StoredObject | null> {
+    try {
+      const head = await this.client.send(new HeadObjectCommand({ Bucket: this.bucket, Key: key }))
+      return {
+        size: head.ContentLength ?? 0,
+        lastModified: head.LastModified ?? new Date(0)
+      }
+    } catch (error) {
+      if ((error as { name?: string }).name === 'NotFound') return null
+      throw error
+    }
+  }
+
+  async createReadStream(key: string, range?: ByteRangeOptions): Promise<Readable> {
+    const object = await this.client.send(new GetObjectCommand({
+      Bucket: this.bucket,
+      Key: key,
+      Range: range ? `bytes=${range.start}-${range.end}` : undefined
+    }))
+    return object.Body as Readable
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.send(new DeleteObjectCommand({ Bucket: this.bucket, Key: key }))
+  }
+
+  async deletePrefix(prefix: string): Promise<void> {
+    // An empty or malformed prefix would match the whole bucket
+    assertSafeStorageKey(prefix.replace(/\/+$/, ''))
+
+    let continuationToken: string | undefined
+
+    do {
+      const page = await this.client.send(new ListObjectsV2Command({
+        Bucket: this.bucket,
+        Prefix: prefix,
+        ContinuationToken: continuationToken
+      }))
+
+      const keys = (page.Contents || []).flatMap(object => object.Key ? [{ Key: object.Key }] : [])
+      if (keys.length > 0) {
+        await this.client.send(new DeleteObjectsCommand({
+          Bucket: this.bucket,
+          Delete: { Objects: keys }
+        }))
+      }
+
+      continuationToken = page.IsTruncated ? page.NextContinuationToken : undefined
+    } while (continuationToken)
+  }
+}
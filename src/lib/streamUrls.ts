@@ -0,0 +1,41 @@
+import crypto from 'crypto'
+
+const STREAM_PREFIX = '/api/audio-stream/'
+const DEFAULT_TTL_SECONDS = 60 * 60
+
+function getSecret(): string {
+  const secret = process.env.STREAM_URL_SECRET
+  if (secret) return secret
+
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error('STREAM_URL_SECRET must be set in production')
+  }
+  return 'dev-stream-url-secret'
+}
+
+function sign(key: string, expires: number): string {
+  return crypto.createHmac('sha256', getSecret()).update(`${key}:${expires}`).digest('hex')
+}
+
+/**
+ * Short-lived URL that lets an <audio> element stream `key` without a session cookie
+ */
+export function signStreamUrl(key: string, ttlSeconds = Number(process.env.STREAM_URL_TTL_SECONDS) || DEFAULT_TTL_SECONDS): string {
+  const expires = Math.floor(Date.now() / 1000) + ttlSeconds
+  const encodedKey = key.split('/').map(encodeURIComponent).join('/')
+  return `${STREAM_PREFIX}${encodedKey}?exp=${expires}&sig=${sign(key, expires)}`
+}
+
+/**
+ * True when `sig` was issued for `key` and `exp` has not passed
+ */
+export function verifyStreamSignature(key: string, exp: string | null, sig: string | null): boolean {
+  if (!exp || !sig) return false
+
+  const expires = Number(exp)
+  if (!Number.isInteger(expires) || expires < Date.now() / 1000) return false
+
+  const expected = Buffer.from(sign(key, expires), 'hex')
+  const actual = Buffer.from(sig, 'hex')
+  return actual.length === expected.length && crypto.timingSafeEqual(actual, expected)
+}
@@ -0,0 +1,88 @@
+import { Prisma, TrackEventType } from '@prisma/client'
+import { prisma } from './db'
+
+// Streams only replay recent history; older events are pruned
+const TRACK_EVENT_RETENTION_HOURS = 24
+
+// Ids are handed out when an insert starts but only become visible when it
+// commits, so an event can show up after one with a higher id was already
+// read. Streams re-read this window and skip what they've sent.
+export const TRACK_EVENT_OVERLAP_MS = 30_000
+
+function overlapStart(): Date {
+  return new Date(Date.now() - TRACK_EVENT_OVERLAP_MS)
+}
+
+/**
+ * Record a change on a track for live subscribers. Events live in the
+ * database rather than memory so the audio worker, a separate process,
+ * can publish too. Best effort: failures are logged, never thrown.
+ */
+export async function publishTrackEvent(
+  trackId: string,
+  type: TrackEventType,
+  payload: Record<string, unknown> = {}
+): Promise<void> {
+  try {
+    await prisma.trackEvent.create({
+      data: {
+        trackId,
+        type,
+        payload: payload as Prisma.InputJsonObject
+      }
+    })
+  } catch (error) {
+    console.error('Error publishing track event:', error)
+  }
+}
+
+/**
+ * Events on a track after the `afterId` cursor, plus any in the overlap window
+ * that aren't in `sentIds`, oldest first
+ */
+export function getTrackEventsSince(trackId: string, afterId: number, sentIds: number[] = []) {
+  return prisma.trackEvent.findMany({
+    where: {
+      trackId,
+      id: { notIn: sentIds },
+      OR: [
+        { id: { gt: afterId } },
+        { createdAt: { gte: overlapStart() } }
+      ]
+    },
+    orderBy: { id: 'asc' },
+    take: 100
+  })
+}
+
+/**
+ * Events in the overlap window up to the `upToId` cursor, which a new stream
+ * counts as already sent
+ */
+export function getRecentTrackEvents(trackId: string, upToId: number) {
+  return prisma.trackEvent.findMany({
+    where: { trackId, id: { lte: upToId }, createdAt: { gte: overlapStart() } },
+    select: { id: true, createdAt: true }
+  })
+}
+
+/**
+ * Cursor to start a fresh stream from: the newest event on the track
+ */
+export async function getLatestTrackEventId(trackId: string): Promise<number> {
+  const latest = await prisma.trackEvent.findFirst({
+    where: { trackId },
+    orderBy: { id: 'desc' },
+    select: { id: true }
+  })
+  return latest?.id ?? 0
+}
+
+export async function pruneTrackEvents(): Promise<number> {
+  const result = await prisma.trackEvent.deleteMany({
+    where: {
+      createdAt: { lt: new Date(Date.now() - TRACK_EVENT_RETENTION_HOURS * 60 * 60 * 1000) }
+    }
+  })
+  return result.count
+}
@@ -0,0 +1,48 @@
+import { Prisma } from '@prisma/client'
+import { prisma } from './db'
+
+// CC-XXX-YY-NNNNN: country, registrant, year, designation
+const ISRC_PATTERN = /^[A-Z]{2}[A-Z0-9]{3}\d{7}$/
+
+/**
+ * ISRC without hyphens or spaces and in upper case, or null when it isn't
+ * a valid code
+ */
+export function normalizeIsrc(value: string): string | null {
+  const isrc = value.replace(/[-\s]/g, '').toUpperCase()
+  return ISRC_PATTERN.test(isrc) ? isrc : null
+}
+
+/**
+ * Trimmed, non-empty names from a credits list, or null when `value` isn't
+ * a list of strings
+ */
+export function parseCredits(value: unknown): string[] | null {
+  if (!Array.isArray(value) || value.some(name => typeof name !== 'string')) return null
+  return value.map((name: string) => name.trim()).filter(Boolean)
+}
+
+/**
+ * Set a track's duration from its active stereo version, which is what
+ * gets delivered. Tracks without one keep whatever duration they had.
+ */
+export async function syncTrackDuration(
+  trackId: string,
+  db: Prisma.TransactionClient = prisma
+): Promise<void> {
+  const report = await db.audioAnalysisReport.findFirst({
+    where: {
+      audioVersion: { trackId, versionType: 'STEREO', isActive: true, deletedAt: null }
+    },
+    // ORIGINAL sorts first; normalizing doesn't change the length anyway
+    orderBy: { stage: 'asc' },
+    select: { duration: true }
+  })
+
+  if (!report) return
+
+  await db.track.update({
+    where: { id: trackId },
+    data: { duration: Math.round(report.duration) }
+  })
+}
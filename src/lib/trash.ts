@@ -0,0 +1,96 @@
+import { Prisma } from '@prisma/client'
+import { prisma } from './db'
+import { getStorage, storageKeyFromFilePath } from './storage'
+
+/** Days an item stays in the trash before its rows and files are purged */
+export const TRASH_RETENTION_DAYS = Number(process.env.TRASH_RETENTION_DAYS) || 30
+
+/** Projects not in the trash */
+export const liveProjectWhere = { deletedAt: null } satisfies Prisma.ProjectWhereInput
+
+/** Tracks not in the trash, directly or through their project */
+export const liveTrackWhere = {
+  deletedAt: null,
+  project: liveProjectWhere
+} satisfies Prisma.TrackWhereInput
+
+/** Versions not in the trash, directly or through their track or project */
+export const liveVersionWhere = {
+  deletedAt: null,
+  track: liveTrackWhere
+} satisfies Prisma.AudioVersionWhereInput
+
+/** Comments not deleted and whose version is not in the trash */
+export const liveCommentWhere = {
+  deletedAt: null,
+  audioVersion: liveVersionWhere
+} satisfies Prisma.CommentWhereInput
+
+/**
+ * When an item deleted at `deletedAt` will be purged for good
+ */
+export function purgeDate(deletedAt: Date): Date {
+  return new Date(deletedAt.getTime() + TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000)
+}
+
+// Storage is best effort: a missing file must not keep rows in the trash forever
+async function deleteStoredFile(filePath: string) {
+  try {
+    await getStorage().delete(storageKeyFromFilePath(filePath))
+  } catch (error) {
+    console.error('Error deleting file:', filePath, error)
+  }
+}
+
+/**
+ * Permanently remove everything that has been in the trash for longer than
+ * the retention period, files first and then the rows (comments, sign-offs
+ * and history cascade). Returns how many items of each kind were purged.
+ */
+export async function purgeExpiredTrash() {
+  const cutoff = new Date(Date.now() - TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000)
+  const expired = { deletedAt: { lt: cutoff } }
+
+  const projects = await prisma.project.findMany({
+    where: expired,
+    select: { id: true }
+  })
+  for (const project of projects) {
+    // Every version of every track is stored under the project prefix
+    try {
+      await getStorage().deletePrefix(`projects/${project.id}/`)
+    } catch (error) {
+      console.error('Error deleting project files:', project.id, error)
+    }
+    await prisma.project.delete({ where: { id: project.id } })
+  }
+
+  const tracks = await prisma.track.findMany({
+    where: expired,
+    select: {
+      id: true,
+      audioVersions: { select: { filePath: true } }
+    }
+  })
+  for (const track of tracks) {
+    for (const version of track.audioVersions) {
+      await deleteStoredFile(version.filePath)
+    }
+    await prisma.track.delete({ where: { id: track.id } })
+  }
+
+  const versions = await prisma.audioVersion.findMany({
+    where: expired,
+    select: { id: true, filePath: true }
+  })
+  for (const version of versions) {
+    await deleteStoredFile(version.filePath)
+    await prisma.audioVersion.delete({ where: { id: version.id } })
+  }
+
+  return {
+    projects: projects.length,
+    tracks: tracks.length,
+    versions: versions.length
+  }
+}
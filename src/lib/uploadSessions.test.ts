@@ -0,0 +1,67 @@
+import assert from 'node:assert/strict'
+import { promises as fs } from 'node:fs'
+import os from 'node:os'
+import path from 'node:path'
+import { after, before, describe, test } from 'node:test'
+import type { UploadSessionLayout } from './uploadSessions'
+
+describe('assembleUploadParts', () => {
+  let dir: string
+  let uploads: typeof import('./uploadSessions')
+
+  before(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'upload-sessions-test-'))
+    process.env.UPLOAD_STAGING_DIR = dir
+    // Assembly never touches the database; keep the module from opening one
+    ;(globalThis as unknown as { prisma: unknown }).prisma = {}
+    uploads = await import('./uploadSessions')
+  })
+
+  after(async () => {
+    await fs.rm(dir, { recursive: true, force: true })
+  })
+
+  async function writeParts(session: UploadSessionLayout): Promise<Buffer> {
+    const sessionDir = path.join(dir, 'sessions', session.id)
+    await fs.mkdir(sessionDir, { recursive: true })
+
+    const parts: Buffer[] = []
+    for (let index = 0; index < uploads.partCount(session); index++) {
+      const part = Buffer.alloc(uploads.partSize(session, index), index % 256)
+      parts.push(part)
+      await fs.writeFile(path.join(sessionDir, `${index}.part`), part)
+    }
+    return Buffer.concat(parts)
+  }
+
+  test('joins many parts in order without piling listeners on the output', async () => {
+    const session = { id: 'many-parts', fileSize: BigInt(40 * 1024 + 5), chunkSize: 1024 }
+    const expected = await writeParts(session)
+
+    const warnings: Error[] = []
+    const onWarning = (warning: Error) => warnings.push(warning)
+    process.on('warning', onWarning)
+    try {
+      const outputPath = path.join(dir, 'many-parts.wav')
+      await uploads.assembleUploadParts(session, outputPath)
+      assert.deepEqual(await fs.readFile(outputPath), expected)
+    } finally {
+      process.off('warning', onWarning)
+    }
+
+    assert.deepEqual(warnings, [])
+    assert.deepEqual(await uploads.listReceivedParts(session.id), [])
+  })
+
+  test('leaves nothing behind when a part is missing', async () => {
+    const session = { id: 'missing-part', fileSize: BigInt(3 * 1024), chunkSize: 1024 }
+    await writeParts(session)
+    await fs.rm(path.join(dir, 'sessions', session.id, '1.part'))
+
+    const outputPath = path.join(dir, 'missing-part.wav')
+    await assert.rejects(uploads.assembleUploadParts(session, outputPath), /ENOENT/)
+    await assert.rejects(fs.access(outputPath))
+    await assert.rejects(fs.access(`${outputPath}.partial`))
+    assert.deepEqual(await uploads.listReceivedParts(session.id), [0, 2])
+  })
+})
@@ -0,0 +1,195 @@
+import { createHash } from 'crypto'
+import { createReadStream, createWriteStream, promises as fs } from 'fs'
+import path from 'path'
+import { Readable, Transform } from 'stream'
+import { pipeline } from 'stream/promises'
+import type { ReadableStream as NodeReadableStream } from 'stream/web'
+import { prisma } from './db'
+import { getStagingDir } from './storage'
+
+// Unfinished uploads can be resumed for this long
+export const UPLOAD_SESSION_TTL_HOURS = Number(process.env.UPLOAD_SESSION_TTL_HOURS) || 24
+
+export interface UploadSessionLayout {
+  id: string
+  fileSize: bigint
+  chunkSize: number
+}
+
+export type PartWriteResult =
+  | { ok: true; size: number }
+  | { ok: false; status: 400 | 422; error: string }
+
+export function uploadSessionExpiry(from = new Date()): Date {
+  return new Date(from.getTime() + UPLOAD_SESSION_TTL_HOURS * 60 * 60 * 1000)
+}
+
+export function partCount(session: UploadSessionLayout): number {
+  return Math.max(1, Math.ceil(Number(session.fileSize) / session.chunkSize))
+}
+
+// Every part is chunkSize bytes except the last, which holds the remainder
+export function partSize(session: UploadSessionLayout, index: number): number {
+  return Math.min(session.chunkSize, Number(session.fileSize) - index * session.chunkSize)
+}
+
+function sessionDir(sessionId: string): string {
+  return path.join(getStagingDir(), 'sessions', sessionId)
+}
+
+function partPath(sessionId: string, index: number): string {
+  return path.join(sessionDir(sessionId), `${index}.part`)
+}
+
+/**
+ * Indexes of the parts stored so far, in order. Parts are only renamed into
+ * place once verified, so anything listed here is complete.
+ */
+export async function listReceivedParts(sessionId: string): Promise<number[]> {
+  let names: string[]
+  try {
+    names = await fs.readdir(sessionDir(sessionId))
+  } catch {
+    return []
+  }
+
+  return names
+    .flatMap(name => {
+      const match = name.match(/^(\d+)\.part$/)
+      return match ? [Number(match[1])] : []
+    })
+    .sort((a, b) => a - b)
+}
+
+/**
+ * Store part `index` from a request body. The part must be exactly the
+ * expected length and hash to `sha256` (hex). Re-sending a part replaces it,
+ * so a client can simply retry after a dropped connection.
+ */
+export async function writeUploadPart(
+  session: UploadSessionLayout,
+  index: number,
+  body: ReadableStream<Uint8Array>,
+  sha256: string
+): Promise<PartWriteResult> {
+  const expectedSize = partSize(session, index)
+  const dir = sessionDir(session.id)
+  await fs.mkdir(dir, { recursive: true })
+
+  const tempPath = path.join(dir, `${index}.${Date.now()}.tmp`)
+  const hash = createHash('sha256')
+  let size = 0
+
+  // Hash and count on the way to disk; stop reading as soon as it's too long
+  const verify = new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      size += chunk.length
+      if (size > expectedSize) {
+        callback(new Error('Part is larger than expected'))
+        return
+      }
+      hash.update(chunk)
+      callback(null, chunk)
+    }
+  })
+
+  try {
+    await pipeline(Readable.fromWeb(body as NodeReadableStream), verify, createWriteStream(tempPath))
+  } catch (error) {
+    await fs.rm(tempPath, { force: true })
+    if (size > expectedSize) {
+      return { ok: false, status: 400, error: `Part ${index} must be ${expectedSize} bytes` }
+    }
+    throw error
+  }
+
+  if (size !== expectedSize) {
+    await fs.rm(tempPath, { force: true })
+    return { ok: false, status: 400, error: `Part ${index} must be ${expectedSize} bytes, got ${size}` }
+  }
+
+  if (hash.digest('hex') !== sha256.toLowerCase()) {
+    await fs.rm(tempPath, { force: true })
+    return { ok: false, status: 422, error: `Checksum mismatch for part ${index}` }
+  }
+
+  await fs.rename(tempPath, partPath(session.id, index))
+  return { ok: true, size }
+}
+
+/**
+ * Staging path the audio worker assembles a completed session into
+ */
+export function uploadSessionInputPath(sessionId: string, extension: string): string {
+  return path.join(getStagingDir(), `upload_${sessionId}${extension}`)
+}
+
+/**
+ * Concatenate every part into `outputPath` and drop the parts. Run by the
+ * audio worker, since a large upload takes a while to copy. The file only
+ * appears at `outputPath` once complete, so a job retried after a crash skips
+ * straight past a finished assembly.
+ */
+export async function assembleUploadParts(session: UploadSessionLayout, outputPath: string): Promise<void> {
+  try {
+    await fs.access(outputPath)
+    return
+  } catch {
+    // Not assembled yet
+  }
+
+  const tempPath = `${outputPath}.partial`
+
+  // One pipeline over every part in order; uploads can have thousands of them
+  async function* partChunks() {
+    for (let index = 0; index < partCount(session); index++) {
+      yield* createReadStream(partPath(session.id, index))
+    }
+  }
+
+  try {
+    await pipeline(partChunks, createWriteStream(tempPath))
+  } catch (error) {
+    await fs.rm(tempPath, { force: true })
+    throw error
+  }
+
+  const stats = await fs.stat(tempPath)
+  if (stats.size !== Number(session.fileSize)) {
+    await fs.rm(tempPath, { force: true })
+    throw new Error(`Assembled upload is ${stats.size} bytes, expected ${session.fileSize}`)
+  }
+
+  await fs.rename(tempPath, outputPath)
+  await removeUploadParts(session.id)
+}
+
+export async function removeUploadParts(sessionId: string): Promise<void> {
+  await fs.rm(sessionDir(sessionId), { recursive: true, force: true })
+}
+
+/**
+ * Delete expired sessions and whatever parts they left behind, except those
+ * still waiting on the worker to assemble them. Returns how many were removed.
+ */
+export async function purgeExpiredUploadSessions(): Promise<number> {
+  const expired = await prisma.uploadSession.findMany({
+    where: {
+      expiresAt: { lt: new Date() },
+      OR: [
+        { jobId: null },
+        { job: { status: { in: ['DONE', 'FAILED'] } } }
+      ]
+    },
+    select: { id: true }
+  })
+
+  for (const session of expired) {
+    await removeUploadParts(session.id)
+  }
+
+  const { count } = await prisma.uploadSession.deleteMany({
+    where: { id: { in: expired.map(session => session.id) } }
+  })
+  return count
+}
@@ -0,0 +1,43 @@
+// Shared by the upload routes and AudioUpload, so nothing server-only here
+
+export type UploadVersionType = 'STEREO' | 'ATMOS' | 'REFERENCE'
+
+export const VERSION_TYPES: UploadVersionType[] = ['STEREO', 'ATMOS', 'REFERENCE']
+
+// Single-request uploads are buffered in memory; chunked uploads are not
+export const MAX_DIRECT_UPLOAD_SIZE = 500 * 1024 * 1024 // 500MB
+export const MAX_CHUNKED_UPLOAD_SIZE = 20 * 1024 * 1024 * 1024 // 20GB, for ADM BWF Atmos masters
+
+export const UPLOAD_CHUNK_SIZE = 8 * 1024 * 1024 // 8MB
+
+const ALLOWED_TYPES = ['audio/wav', 'audio/mpeg', 'audio/mp3', 'audio/flac', 'audio/aiff', 'application/octet-stream']
+
+/**
+ * `row` with its BigInt byte count as a number, which JSON can carry. Numbers
+ * are exact up to 8PB, far past any upload.
+ */
+export function withNumberFileSize<T extends { fileSize: bigint }>(row: T): Omit<T, 'fileSize'> & { fileSize: number } {
+  return { ...row, fileSize: Number(row.fileSize) }
+}
+
+export function isUploadVersionType(value: unknown): value is UploadVersionType {
+  return VERSION_TYPES.includes(value as UploadVersionType)
+}
+
+/**
+ * Why a file can't be uploaded as `versionType`, or null when it can.
+ * Accepted by MIME type or by extension, since browsers often send neither reliably.
+ */
+export function audioFileTypeError(fileName: string, mimeType: string, versionType: UploadVersionType): string | null {
+  const allowedExtensions = versionType === 'ATMOS' ? ['.bin', '.wav'] : ['.wav', '.mp3', '.flac', '.aiff']
+  const fileExt = fileName.slice(fileName.lastIndexOf('.')).toLowerCase()
+  if (ALLOWED_TYPES.includes(mimeType) || allowedExtensions.includes(fileExt)) return null
+
+  return versionType === 'ATMOS'
+    ? 'Invalid file type. Only BIN or WAV files are allowed for Atmos.'
+    : 'Invalid file type. Allowed: WAV, MP3, FLAC, AIFF'
+}
+
+export function formatUploadLimit(bytes: number): string {
+  return bytes >= 1024 * 1024 * 1024 ? `${bytes / (1024 * 1024 * 1024)}GB` : `${bytes / (1024 * 1024)}MB`
+}
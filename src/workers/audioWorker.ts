@@ -0,0 +1,94 @@
+// Audio processing worker: `npm run worker`
+//
+// Polls the ProcessingJob table and runs analysis/normalization outside the
+// upload request. Run one instance alongside the Next.js server. It also
+// prunes old live-update events, which clients only replay for a short while,
+// and chunked uploads that were never finished. A second loop sends immediate
+// notification emails so they don't wait behind a long audio job.
+
+import { prisma } from '@/lib/db'
+import { claimNextAudioJob, requeueStalledAudioJobs, runAudioJob } from '@/lib/audioJobs'
+import { emailPendingNotifications } from '@/lib/notificationEmails'
+import { pruneTrackEvents } from '@/lib/trackEvents'
+import { purgeExpiredUploadSessions } from '@/lib/uploadSessions'
+
+const POLL_INTERVAL_MS = Number(process.env.AUDIO_WORKER_POLL_MS) || 2000
+const PRUNE_INTERVAL_MS = 60 * 60 * 1000
+const MAIL_INTERVAL_MS = Number(process.env.MAIL_WORKER_POLL_MS) || 10_000
+
+let stopping = false
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+async function mailLoop() {
+  while (!stopping) {
+    try {
+      const sent = await emailPendingNotifications()
+      if (sent > 0) {
+        console.log(`Worker: emailed ${sent} notification(s)`)
+      }
+    } catch (error) {
+      console.error('Worker: error emailing notifications:', error)
+    }
+    await sleep(MAIL_INTERVAL_MS)
+  }
+}
+
+async function jobLoop() {
+  const requeued = await requeueStalledAudioJobs()
+  if (requeued > 0) {
+    console.log(`Worker: requeued ${requeued} stalled job(s)`)
+  }
+
+  console.log('Worker: waiting for audio jobs')
+
+  let lastPrunedAt = 0
+
+  while (!stopping) {
+    try {
+      if (Date.now() - lastPrunedAt > PRUNE_INTERVAL_MS) {
+        lastPrunedAt = Date.now()
+        const pruned = await pruneTrackEvents()
+        if (pruned > 0) {
+          console.log(`Worker: pruned ${pruned} old track event(s)`)
+        }
+        const expired = await purgeExpiredUploadSessions()
+        if (expired > 0) {
+          console.log(`Worker: removed ${expired} expired upload session(s)`)
+        }
+      }
+
+      const job = await claimNextAudioJob()
+      if (!job) {
+        await sleep(POLL_INTERVAL_MS)
+        continue
+      }
+
+      console.log(`Worker: processing job ${job.id} (${job.versionType} ${job.originalName})`)
+      await runAudioJob(job.id)
+      console.log(`Worker: finished job ${job.id}`)
+    } catch (error) {
+      console.error('Worker: error processing queue:', error)
+      await sleep(POLL_INTERVAL_MS)
+    }
+  }
+}
+
+async function main() {
+  await Promise.all([jobLoop(), mailLoop()])
+  await prisma.$disconnect()
+}
+
+const stop = () => {
+  console.log('Worker: shutting down after current job')
+  stopping = true
+}
+
+process.on('SIGINT', stop)
+process.on('SIGTERM', stop)
+
+main().catch(async (error) => {
+  console.error('Worker: fatal error:', error)
+  await prisma.$disconnect()
+  process.exit(1)
+})
@@ -0,0 +1,19 @@
+// Daily email digest: `npm run digest`
+//
+// Sends every user whose email preference is DAILY a single email listing
+// their unread notifications, then exits. Schedule it once a day with cron.
+
+import { prisma } from '@/lib/db'
+import { sendDailyDigests } from '@/lib/notificationEmails'
+
+async function main() {
+  const sent = await sendDailyDigests()
+  console.log(`Digest: sent ${sent} digest email(s)`)
+  await prisma.$disconnect()
+}
+
+main().catch(async (error) => {
+  console.error('Digest: fatal error:', error)
+  await prisma.$disconnect()
+  process.exit(1)
+})
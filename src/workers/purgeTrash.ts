@@ -0,0 +1,20 @@
+// Trash retention sweeper: `npm run purge-trash`
+//
+// Permanently deletes projects, tracks and versions that have been in the
+// trash longer than TRASH_RETENTION_DAYS (default 30), including their files,
+// then exits. Schedule it once a day with cron.
+
+import { prisma } from '@/lib/db'
+import { purgeExpiredTrash } from '@/lib/trash'
+
+async function main() {
+  const purged = await purgeExpiredTrash()
+  console.log(`Trash: purged ${purged.projects} project(s), ${purged.tracks} track(s), ${purged.versions} version(s)`)
+  await prisma.$disconnect()
+}
+
+main().catch(async (error) => {
+  console.error('Trash: fatal error:', error)
+  await prisma.$disconnect()
+  process.exit(1)
+})